@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Clock, Pause, LogOut, AlertTriangle, Zap, FastForward, Rewind, Crosshair, Skull, EyeOff, Flashlight, Bot, RotateCcw, ArrowLeft, Activity, Save } from 'lucide-react';
-import { getSongById, saveSong } from './services/storageService';
+import { Play, Clock, Pause, LogOut, AlertTriangle, Zap, FastForward, Rewind, Crosshair, Skull, EyeOff, Flashlight, Bot, RotateCcw, ArrowLeft, Activity, Save, Film } from 'lucide-react';
+import { getSongById, saveSong, deleteChart } from './services/storageService';
 import { calculateGrade } from './utils/scoring';
+import { createReplay, isReplayPlayable } from './utils/replay';
+import { getChart, getChartStructure, updateChart } from './utils/chartUtils';
+import { formatBpm } from './utils/timing';
 import GameCanvas from './components/GameCanvas';
 import { LibraryScreen } from './components/screens/LibraryScreen';
 import { ResultScreen } from './components/screens/ResultScreen';
@@ -12,10 +15,12 @@ import { SongDetailsScreen } from './components/screens/SongDetailsScreen';
 import { LoadingScreen } from './components/ui/LoadingScreen';
 import { OnboardingOverlay } from './components/ui/OnboardingOverlay';
 import { MetadataDebugger } from './components/debug/MetadataDebugger';
-import { Note, GameStatus, ScoreState, AITheme, DEFAULT_THEME, SavedSong, GameResult, SongStructure, GameModifier } from './types';
+import { Note, GameStatus, ScoreState, AITheme, DEFAULT_THEME, SavedSong, GameResult, SongStructure, GameModifier, ReplayData, LaneCount } from './types';
 import { SettingsModal } from './components/modals/SettingsModal';
 import { SongConfigModal } from './components/modals/SongConfigModal';
 import { ProfileModal } from './components/modals/ProfileModal';
+import { BackupRestoreModal } from './components/modals/BackupRestoreModal';
+import { exportLibraryBackup, readLibraryBackup, applyLibraryBackup, RestorePlan, RestoreStrategy } from './services/backupService';
 import { Header } from './components/layout/Header';
 import { Footer } from './components/layout/Footer';
 
@@ -35,12 +40,16 @@ function App() {
   const [score, setScore] = useState<ScoreState>({ score: 0, combo: 0, maxCombo: 0, perfect: 0, good: 0, miss: 0, hitHistory: [], modifiers: [] });
   const [songName, setSongName] = useState<string>("");
   const [currentSongId, setCurrentSongId] = useState<string | null>(null); 
+  const [currentChartId, setCurrentChartId] = useState<string | null>(null);
+  const [laneCount, setLaneCount] = useState<LaneCount>(4);
   const [editingSong, setEditingSong] = useState<SavedSong | null>(null);
+  const [editingChartId, setEditingChartId] = useState<string | null>(null);
   const [detailSong, setDetailSong] = useState<SavedSong | null>(null); // New: Song being viewed in Details
 
   const [countdown, setCountdown] = useState(3);
   const [isSongLoading, setIsSongLoading] = useState(false);
   const [activeModifiers, setActiveModifiers] = useState<Set<GameModifier>>(new Set());
+  const [activeReplay, setActiveReplay] = useState<ReplayData | null>(null); // Non-null while watching a replay
 
   // --- UI Toggles & Interaction ---
   const [showSettings, setShowSettings] = useState(false);
@@ -60,13 +69,57 @@ function App() {
   const { 
     scrollSpeed, setScrollSpeed, keyConfig, setKeyConfig, audioOffset, setAudioOffset,
     isDebugMode, toggleDebugMode, customApiKey, setCustomApiKey, apiKeyStatus, 
-    validationError, handleSaveSettings, hasEnvKey
+    validationError, handleSaveSettings, applyBackupSettings, hasEnvKey,
+    aiProviderId, setAiProviderId, aiProvider, isAiReady
   } = useAppSettings();
 
   const {
     librarySongs, isLibraryLoading, loadLibrary, handleImportMap
   } = useSongLibrary();
 
+  // --- Backup & Restore ---
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+
+  const handleBackupLibrary = async () => {
+      setIsBackupBusy(true);
+      try {
+          const count = await exportLibraryBackup({ audioOffset, scrollSpeed, keyConfig });
+          alert(`备份完成，共 ${count} 首歌曲。`);
+      } catch (e: any) {
+          console.error("Backup failed", e);
+          alert(`备份失败：${e.message || e}`);
+      } finally {
+          setIsBackupBusy(false);
+      }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+      setIsBackupBusy(true);
+      try {
+          setRestorePlan(await readLibraryBackup(file));
+      } catch (e: any) {
+          console.error("Restore failed", e);
+          alert(e.message || "无法读取备份文件");
+      } finally {
+          setIsBackupBusy(false);
+      }
+  };
+
+  const handleConfirmRestore = async (strategy: RestoreStrategy, restoreSettings: boolean) => {
+      if (!restorePlan) return;
+      try {
+          const summary = await applyLibraryBackup(restorePlan, strategy);
+          if (restoreSettings && restorePlan.settings) applyBackupSettings(restorePlan.settings);
+          await loadLibrary();
+          setRestorePlan(null);
+          alert(`恢复完成：新增 ${summary.added}，合并 ${summary.merged}，覆盖 ${summary.overwritten}，跳过 ${summary.skipped}。`);
+      } catch (e: any) {
+          console.error("Restore failed", e);
+          alert(`恢复失败：${e.message || e}`);
+      }
+  };
+
   // Onboarding Check
   useEffect(() => {
       const hasSeen = localStorage.getItem('neonflow_intro_shown');
@@ -98,13 +151,15 @@ function App() {
     errorMessage, setErrorMessage, onFileSelect, handleCreateBeatmap,
     selectedLaneCount, setSelectedLaneCount, selectedPlayStyle, setSelectedPlayStyle,
     selectedDifficulty, setSelectedDifficulty, aiOptions, setAiOptions,
-    beatmapFeatures, setBeatmapFeatures, skipAI, setSkipAI,
+    beatmapFeatures, setBeatmapFeatures, seedInput, setSeedInput, generateLadder, setGenerateLadder, skipAI, setSkipAI,
     useProModel, setUseProModel, // FIX: Destructure these
+    bypassAiCache, setBypassAiCache,
+    targetSong, startAddChart, rerollChart, canCancel, cancelGeneration,
     errorState, resetError
   } = useSongGenerator(
-      customApiKey || process.env.API_KEY || "", 
+      aiProvider, 
       isDebugMode, 
-      apiKeyStatus, 
+      isAiReady, 
       loadLibrary,
       handleGeneratorError
   );
@@ -117,6 +172,9 @@ function App() {
       if (result?.success) {
           setStatus(GameStatus.Library);
           setSongName(result.songTitle || "");
+          if (result.aiFallbacks?.length) {
+              alert(`AI ${result.aiFallbacks.join('、')}分析失败，已改用本地分析结果。\n该结果不会写入分析缓存，下次导入会重新请求 AI。`);
+          }
       } else {
           setStatus(GameStatus.Library);
           // Error handled by callback
@@ -236,10 +294,9 @@ function App() {
       setStatus(GameStatus.Details);
   };
 
-  const handleStartGameLoad = async (song: SavedSong) => {
+  const handleStartGameLoad = async (song: SavedSong, chartId?: string, replaySource?: GameResult) => {
       setIsSongLoading(true);
       setCurrentSongId(song.id);
-      setActiveModifiers(new Set()); // Reset mods on song change
       try {
           let fullSong = song;
           if (song.audioData.byteLength === 0) {
@@ -248,13 +305,22 @@ function App() {
               fullSong = fetched;
           }
           const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+          const chart = getChart(fullSong, chartId);
+          if (!chart) throw new Error("Song has no charts");
+          // Reset mods on song change; a replay must run with the mods it was recorded under, on the notes it was recorded on
+          const replay = isReplayPlayable(replaySource?.replay, chart) ? replaySource!.replay! : null;
+          setActiveModifiers(new Set(replay ? replaySource!.modifiers || [] : []));
+          setActiveReplay(replay);
           const decodedBuffer = await audioContext.decodeAudioData(fullSong.audioData.slice(0));
           setAudioBuffer(decodedBuffer);
-          setNotes(fullSong.notes);
-          setStructure(fullSong.structure);
+          setCurrentChartId(chart.id);
+          setLaneCount(chart.laneCount);
+          setNotes(chart.notes);
+          setStructure(getChartStructure(fullSong, chart));
           setTheme(fullSong.theme);
           setSongName(fullSong.title);
-          setStatus(GameStatus.Ready);
+          if (replay) startCountdown();
+          else setStatus(GameStatus.Ready);
       } catch (e) {
           console.error("Failed to load song audio", e);
           setErrorMessage("加载歌曲音频失败");
@@ -263,8 +329,15 @@ function App() {
       }
   };
 
-  const handleEditSong = (song: SavedSong) => {
+  const handleEditSong = (song: SavedSong, chartId?: string) => {
+      // The editor works on one chart; a song without any has nothing to open
+      const chart = getChart(song, chartId);
+      if (!chart) {
+          alert("这首歌没有谱面，无法编辑。");
+          return;
+      }
       setEditingSong(song);
+      setEditingChartId(chart.id);
       setStatus(GameStatus.Editing);
   };
 
@@ -313,15 +386,51 @@ function App() {
       backToLibrary();
   };
 
+  const handleWatchReplay = (song: SavedSong, chartId: string) => {
+      const chart = getChart(song, chartId);
+      if (chart?.bestResult) handleStartGameLoad(song, chart.id, chart.bestResult);
+  };
+
+  const handleDeleteChart = async (song: SavedSong, chartId: string) => {
+      if (!confirm("确定要删除这个难度吗？此操作无法撤销。")) return;
+      try {
+          await deleteChart(song.id, chartId);
+          const refreshed = await getSongById(song.id);
+          if (refreshed) setDetailSong(refreshed);
+          await loadLibrary();
+      } catch (e) {
+          console.error("Failed to delete chart", e);
+      }
+  };
+
+  const handleRerollChart = async (song: SavedSong, chartId: string) => {
+      if (!confirm("用新的随机种子重新生成这个难度？当前谱面与最佳成绩将被替换。")) return;
+      setStatus(GameStatus.Analyzing);
+      try {
+          const updated = await rerollChart(song, chartId);
+          if (updated) {
+              setDetailSong(updated);
+              setCurrentChartId(chartId); // The details screen remounts after loading; keep this chart selected
+          }
+      } catch (e) {
+          console.error("Failed to reroll chart", e);
+          alert("重新生成失败：无法从音频中提取有效节奏。");
+      } finally {
+          setStatus(GameStatus.Details);
+      }
+  };
+
   const handleGameEnd = async (finalScore?: ScoreState) => {
     setStatus(GameStatus.Finished);
     const resultScore = finalScore || score;
     
-    if (currentSongId) {
+    // Watching a replay never counts as a play
+    if (currentSongId && currentChartId && !activeReplay) {
         const fullSong = await getSongById(currentSongId);
-        if (fullSong) {
+        const chart = fullSong && getChart(fullSong, currentChartId);
+        if (fullSong && chart) {
             // Always increment play count
-            const updatedSong = { ...fullSong, playCount: (fullSong.playCount || 0) + 1 };
+            const updatedChart = { ...chart, playCount: (chart.playCount || 0) + 1 };
             
             // Only save record if NO MODS are active, OR KeepScore mod is active.
             if (activeModifiers.size === 0 || activeModifiers.has(GameModifier.KeepScore)) {
@@ -335,16 +444,17 @@ function App() {
                     rank: rank,
                     timestamp: Date.now(),
                     hitHistory: resultScore.hitHistory,
-                    modifiers: Array.from(activeModifiers) // Save active mods
+                    modifiers: Array.from(activeModifiers), // Save active mods
+                    replay: createReplay(resultScore.inputLog || [], chart)
                  };
                  
                  // If KeepScore is on, we always save if it's high score, essentially treating "Unranked" as ranked locally.
-                 if (!updatedSong.bestResult || newResult.score > updatedSong.bestResult.score) {
-                    updatedSong.bestResult = newResult;
+                 if (!updatedChart.bestResult || newResult.score > updatedChart.bestResult.score) {
+                    updatedChart.bestResult = newResult;
                  }
             }
             
-            await saveSong(updatedSong);
+            await saveSong(updateChart(fullSong, chart.id, () => updatedChart));
             await loadLibrary(); 
         }
     }
@@ -357,6 +467,8 @@ function App() {
     setStructure(undefined);
     setAudioBuffer(null);
     setCurrentSongId(null);
+    setCurrentChartId(null);
+    setActiveReplay(null);
     setLoadingStage("");
     setLoadingSubText("");
     setErrorMessage(null);
@@ -396,16 +508,20 @@ function App() {
       {isConfiguringSong && pendingFile && (
         <SongConfigModal 
             file={pendingFile}
+            targetSongTitle={targetSong?.title}
             onCancel={() => { setPendingFile(null); setIsConfiguringSong(false); }}
             onConfirm={executeCreateBeatmap}
             laneCount={selectedLaneCount} setLaneCount={setSelectedLaneCount}
             playStyle={selectedPlayStyle} setPlayStyle={setSelectedPlayStyle}
             difficulty={selectedDifficulty} setDifficulty={setSelectedDifficulty}
+            ladder={generateLadder} setLadder={setGenerateLadder}
             features={beatmapFeatures} setFeatures={setBeatmapFeatures}
+            seed={seedInput} setSeed={setSeedInput}
             isDebugMode={isDebugMode} skipAI={skipAI} setSkipAI={setSkipAI}
             aiOptions={aiOptions} setAiOptions={setAiOptions}
             errorState={errorState} resetError={resetError}
             useProModel={useProModel} setUseProModel={setUseProModel} // FIX: Pass down props
+            bypassAiCache={bypassAiCache} setBypassAiCache={setBypassAiCache}
         />
       )}
       
@@ -416,15 +532,27 @@ function App() {
             keyConfig={keyConfig} setKeyConfig={setKeyConfig}
             audioOffset={audioOffset} openCalibration={() => { setShowSettings(false); setShowCalibration(true); }}
             isDebugMode={isDebugMode} openMetadataDebugger={() => { setShowSettings(false); setShowMetadataDebug(true); }}
+            aiProviderId={aiProviderId} setAiProviderId={setAiProviderId}
             apiKeyStatus={apiKeyStatus} customApiKey={customApiKey} setCustomApiKey={setCustomApiKey}
             handleSaveSettings={() => handleSaveSettings(() => setShowSettings(false))} validationError={validationError}
             rebindingKey={rebindingKey} setRebindingKey={setRebindingKey} hasEnvKey={hasEnvKey}
             onRestartTutorial={restartTutorial} 
+            onBackupLibrary={handleBackupLibrary}
+            onRestoreLibrary={handleRestoreFile}
+            isBackupBusy={isBackupBusy}
+        />
+      )}
+
+      {restorePlan && (
+        <BackupRestoreModal 
+            plan={restorePlan}
+            onCancel={() => setRestorePlan(null)}
+            onConfirm={handleConfirmRestore}
         />
       )}
 
       {isSongLoading && <LoadingScreen text="加载乐谱" subText="引擎预热中..." />}
-      {status === GameStatus.Analyzing && <LoadingScreen text={loadingStage || "请稍候"} subText={loadingSubText} progress={loadingProgress} />}
+      {status === GameStatus.Analyzing && <LoadingScreen text={loadingStage || "请稍候"} subText={loadingSubText} progress={loadingProgress} onCancel={canCancel ? cancelGeneration : undefined} />}
       
       <Header 
         status={status} 
@@ -439,7 +567,7 @@ function App() {
         {/* ... (Rest of the JSX remains mostly unchanged, just rendering screens based on status) ... */}
         {status === GameStatus.Library && (
             <LibraryScreen 
-                songs={librarySongs} isLoading={isLibraryLoading} hasApiKey={apiKeyStatus === 'valid' || isDebugMode}
+                songs={librarySongs} isLoading={isLibraryLoading} hasApiKey={isAiReady || isDebugMode}
                 onImportAudioClick={onFileSelect} onImportMapClick={executeImportMap} onSelectSong={handleSelectSong}
                 onEditSong={handleEditSong}
                 onRefreshLibrary={loadLibrary} onOpenSettings={() => setShowSettings(true)}
@@ -453,12 +581,18 @@ function App() {
                 onBack={backToLibrary}
                 onStart={handleStartGameLoad}
                 onEdit={handleEditSong}
+                onWatchReplay={handleWatchReplay}
+                onAddChart={startAddChart}
+                onDeleteChart={handleDeleteChart}
+                onRerollChart={handleRerollChart}
+                initialChartId={currentChartId}
             />
         )}
 
         {status === GameStatus.Editing && editingSong && (
             <EditorScreen 
                 song={editingSong} 
+                chartId={editingChartId}
                 onExit={backToLibrary} 
                 onSaveSuccess={loadLibrary}
                 keyConfig={keyConfig}
@@ -510,11 +644,11 @@ function App() {
                          </div>
                          <div className="bg-white/5 p-3 rounded-xl border border-white/5 backdrop-blur-md flex flex-col items-center justify-center">
                              <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold mb-1">按键</div>
-                             <div className="text-lg font-black text-white">{theme.primaryColor === '#bd00ff' ? '6K' : '4K'}</div>
+                             <div className="text-lg font-black text-white">{laneCount}K</div>
                          </div>
                          <div className="bg-white/5 p-3 rounded-xl border border-white/5 backdrop-blur-md flex flex-col items-center justify-center">
                              <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold mb-1">BPM</div>
-                             <div className="text-lg font-black text-white">{Math.round(structure?.bpm || 0)}</div>
+                             <div className="text-lg font-black text-white">{structure ? formatBpm(structure) : 0}</div>
                          </div>
                          <div className="bg-white/5 p-3 rounded-xl border border-white/5 backdrop-blur-md flex flex-col items-center justify-center">
                              <div className="text-[10px] text-gray-500 uppercase tracking-widest font-bold mb-1">Mods</div>
@@ -632,6 +766,12 @@ function App() {
                      </div>
                  )}
 
+                 {activeReplay && (
+                     <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[60] px-3 py-1.5 rounded-full bg-black/60 border border-white/10 backdrop-blur-md text-[10px] font-bold uppercase tracking-[0.2em] text-white/70 flex items-center gap-2 pointer-events-none">
+                         <Film className="w-3 h-3" /> Replay
+                     </div>
+                 )}
+
                  <GameCanvas 
                     key={gameSessionId} // Force re-render on restart
                     status={status} 
@@ -641,9 +781,10 @@ function App() {
                     theme={theme} 
                     audioOffset={audioOffset} 
                     scrollSpeed={scrollSpeed} 
-                    keyBindings={selectedLaneCount === 4 ? keyConfig.k4 : keyConfig.k6} 
+                    keyBindings={laneCount === 4 ? keyConfig.k4 : keyConfig.k6} 
                     modifiers={Array.from(activeModifiers)}
                     isPaused={status === GameStatus.Paused} 
+                    replay={activeReplay || undefined}
                     onScoreUpdate={setScore} 
                     onGameEnd={handleGameEnd} 
                  />
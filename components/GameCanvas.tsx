@@ -1,9 +1,11 @@
 
-import React, { useEffect, useRef } from 'react';
-import { Note, ScoreState, GameStatus, AITheme, LaneCount, NoteLane, SongStructure, GameModifier } from '../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Note, ScoreState, GameStatus, AITheme, LaneCount, NoteLane, SongStructure, GameModifier, InputSource, ReplayData, ReplayInputEvent } from '../types';
 import { useSoundSystem } from '../hooks/useSoundSystem';
 import { Particle, GhostNote, HitEffect, ObjectPool, GhostNoteObj } from './game/Visuals';
 import { useGameInput } from './game/useGameInput';
+import { JudgementEngine, JudgementEvent, createEmptyScore } from '../utils/judgementEngine';
+import { getTimingPoints, getBeatPhase } from '../utils/timing';
 
 interface GameCanvasProps {
   status: GameStatus;
@@ -17,22 +19,16 @@ interface GameCanvasProps {
   modifiers: GameModifier[];
   hideNotes?: boolean; 
   isPaused?: boolean; 
+  replay?: ReplayData; // When set, input comes from the recording instead of the player
+  laneCount?: LaneCount; // Defaults to the widest lane the notes use
+  startTime?: number; // Play from here (editor test-play); notes before it should be left out of `notes`
+  endTime?: number; // Finish shortly after this instead of at the end of the audio
   onScoreUpdate: (score: ScoreState) => void;
   onGameEnd: (finalScore: ScoreState) => void; 
 }
 
 const BASE_TARGET_WIDTH = 100; 
 
-// --- New Scoring Constants ---
-const MAX_SCORE = 1000000;
-const ACC_WEIGHT = 0.9;   // 900,000 points for Accuracy
-const COMBO_WEIGHT = 0.1; // 100,000 points for Combo
-
-// Hit Windows
-const BASE_HIT_WINDOW_PERFECT = 0.050; 
-const BASE_HIT_WINDOW_GOOD = 0.120; 
-const BASE_HIT_WINDOW_CATCH = 0.120; // Slightly lenient for catch
-
 const LEAD_IN_TIME = 2.0; 
 
 // Helper for smooth color blending
@@ -47,7 +43,7 @@ const hexToRgb = (hex: string) => {
 
 const GameCanvas: React.FC<GameCanvasProps> = ({ 
   status, audioBuffer, notes, structure, theme, audioOffset, scrollSpeed,
-  keyBindings, modifiers, hideNotes, onScoreUpdate, onGameEnd 
+  keyBindings, modifiers, hideNotes, replay, laneCount, startTime = 0, endTime, onScoreUpdate, onGameEnd 
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -60,15 +56,23 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   const staticCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const layoutDirtyRef = useRef<boolean>(true);
 
+  const timingPoints = useMemo(() => getTimingPoints(structure), [structure]);
+
   const sizeRef = useRef({ width: 0, height: 0, dpr: 1 });
   const isMobileRef = useRef(false);
 
+  // Judgement lives in the headless engine; notes/score refs alias its state for rendering
+  const engineRef = useRef<JudgementEngine | null>(null);
   const notesRef = useRef<Note[]>([]);
-  const scoreRef = useRef<ScoreState>({ score: 0, combo: 0, maxCombo: 0, perfect: 0, good: 0, miss: 0, hitHistory: [], modifiers: [] });
+  const scoreRef = useRef<ScoreState>(createEmptyScore());
   const keyStateRef = useRef<boolean[]>([]);
   const laneMissStateRef = useRef<number[]>([]); 
   const laneHitStateRef = useRef<number[]>([]); 
   const effectRef = useRef<HitEffect[]>([]);
+
+  // Replay: recorded input (live runs) and playback cursor (replay runs)
+  const inputLogRef = useRef<ReplayInputEvent[]>([]);
+  const replayCursorRef = useRef<number>(0);
   
   // Object Pools
   const particlesRef = useRef<Particle[]>([]);
@@ -82,9 +86,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   const hasEndedRef = useRef(false);
   
   const playbackRateRef = useRef<number>(1.0);
-  const hitWindowMultiplierRef = useRef<number>(1.0);
   const isAutoRef = useRef<boolean>(false);
-  const isSuddenDeathRef = useRef<boolean>(false);
   const isHiddenRef = useRef<boolean>(false);
   const isFlashlightRef = useRef<boolean>(false);
   const isPerformanceRef = useRef<boolean>(false); 
@@ -112,11 +114,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       else if (modifiers.includes(GameModifier.HalfTime)) playbackRateRef.current = 0.75;
       else playbackRateRef.current = 1.0;
 
-      if (modifiers.includes(GameModifier.HardRock)) hitWindowMultiplierRef.current = 0.7;
-      else hitWindowMultiplierRef.current = 1.0;
-
       isAutoRef.current = modifiers.includes(GameModifier.Auto);
-      isSuddenDeathRef.current = modifiers.includes(GameModifier.SuddenDeath);
       isHiddenRef.current = modifiers.includes(GameModifier.Hidden);
       isFlashlightRef.current = modifiers.includes(GameModifier.Flashlight);
       isPerformanceRef.current = modifiers.includes(GameModifier.Performance);
@@ -131,98 +129,86 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       return (realTimeElapsed * playbackRateRef.current) - (audioOffset / 1000) - (outputLatency + baseLatency);
   };
 
-  const processHit = (lane: number) => {
-    if (!audioContextRef.current) return;
-    const gameTime = getCurrentGameTime();
-    const windowGood = BASE_HIT_WINDOW_GOOD * hitWindowMultiplierRef.current;
-
-    // Prioritize clicking non-Catch notes first (heads of normal/holds)
-    // Catch notes are handled in gameLoop for "hold-to-collect", but explicit tapping also works here.
-    const hitNote = notesRef.current.find(n => 
-      !n.hit && !n.missed && n.lane === lane && n.type === 'NORMAL' && 
-      Math.abs(gameTime - n.time) < windowGood
-    );
-
-    if (hitNote) {
-      const diff = gameTime - hitNote.time;
-      const absDiff = Math.abs(diff);
-      
-      let type: 'PERFECT' | 'GOOD' = 'GOOD';
-      const windowPerfect = BASE_HIT_WINDOW_PERFECT * hitWindowMultiplierRef.current;
-
-      if (absDiff < windowPerfect) {
-        type = 'PERFECT';
-        scoreRef.current.perfect++;
-      } else {
-        scoreRef.current.good++;
-      }
-
-      const totalNotes = notes.length || 1;
-      const accScorePerNote = (MAX_SCORE * ACC_WEIGHT) / totalNotes;
-      const hitValue = type === 'PERFECT' ? 1.0 : 0.6;
-      const gainedAccScore = accScorePerNote * hitValue;
-      const comboScorePerNote = (MAX_SCORE * COMBO_WEIGHT) / totalNotes;
+  // Turn engine judgements into feedback (sound, particles, floating text)
+  const applyJudgements = (events: JudgementEvent[], gameTime: number) => {
+      events.forEach(ev => {
+          switch (ev.type) {
+              case 'PERFECT':
+              case 'GOOD':
+                  triggerHitVisuals(ev.lane, ev.type);
+                  if (hideNotes && ev.offset !== undefined) {
+                      const g = ghostNotePoolRef.current.get();
+                      g.reset(ev.lane, -ev.offset + (ev.time - gameTime), 1.0);
+                      ghostNotesRef.current.push(g);
+                  }
+                  break;
+              case 'HOLD_COMPLETE':
+                  triggerHitVisuals(ev.lane, 'PERFECT'); // Visual flourish on release
+                  break;
+              case 'MISS':
+                  laneMissStateRef.current[ev.lane] = 0.8;
+                  effectRef.current.push({ id: Math.random(), text: 'MISS', time: performance.now(), lane: ev.lane, color: '#888888', scale: 1.2 });
+                  break;
+              case 'BREAK':
+                  effectRef.current.push({ id: Math.random(), text: 'BREAK', time: performance.now(), lane: ev.lane, color: '#888888', scale: 1.0 });
+                  break;
+          }
+      });
+      if (events.length > 0 || engineRef.current?.hasActiveHolds) onScoreUpdate({...scoreRef.current});
+      if (engineRef.current?.failed) finishGame();
+  };
 
-      const newScore = scoreRef.current.score + gainedAccScore + comboScorePerNote;
-      scoreRef.current.score = Math.min(MAX_SCORE, newScore);
+  const processHit = (lane: number, time: number) => {
+      if (!engineRef.current) return;
+      applyJudgements(engineRef.current.press(lane, time), time);
+  };
 
-      scoreRef.current.hitHistory.push(diff);
-      triggerHitVisuals(lane, type);
+  const processRelease = (lane: number, time: number) => {
+      if (!engineRef.current) return;
+      applyJudgements(engineRef.current.release(lane, time), time);
+  };
 
-      if (hideNotes) {
-          const g = ghostNotePoolRef.current.get();
-          g.reset(lane, hitNote.time - gameTime, 1.0);
-          ghostNotesRef.current.push(g);
-      }
+  // Live input: stamp with game time, log it for the replay, then judge at that exact time
+  const handleInputDown = (lane: number, source: InputSource) => {
+      if (!audioContextRef.current) return;
+      const time = getCurrentGameTime();
+      inputLogRef.current.push({ time, lane, type: 'down', source });
+      processHit(lane, time);
+  };
 
-      hitNote.hit = true;
-      if (hitNote.duration > 0) hitNote.isHolding = true;
-      else hitNote.visible = false;
-      
-      scoreRef.current.combo++;
-      if (scoreRef.current.combo > scoreRef.current.maxCombo) scoreRef.current.maxCombo = scoreRef.current.combo;
-      
-      onScoreUpdate({...scoreRef.current});
-    }
+  const handleInputUp = (lane: number, source: InputSource) => {
+      if (!audioContextRef.current) return;
+      const time = getCurrentGameTime();
+      inputLogRef.current.push({ time, lane, type: 'up', source });
+      processRelease(lane, time);
   };
 
-  const processRelease = (lane: number) => {
-      // Find note that is currently being held in this lane
-      const holdingNote = notesRef.current.find(n => n.lane === lane && n.isHolding);
-      
-      if (holdingNote) {
-          const gameTime = getCurrentGameTime();
-          const endTime = holdingNote.time + holdingNote.duration;
-          
-          // Tolerance for early release (e.g., 200ms grace)
-          const earlyTolerance = 0.2 * hitWindowMultiplierRef.current;
-          
-          if (gameTime < endTime - earlyTolerance) {
-              // Released too early -> MISS / Break Combo
-              holdingNote.isHolding = false;
-              holdingNote.visible = false; // Stop drawing
-              // We don't mark 'missed' flag to avoid double counting if loop catches it, 
-              // but we do apply penalty immediately.
-              
-              scoreRef.current.combo = 0;
-              scoreRef.current.miss++;
-              effectRef.current.push({ id: Math.random(), text: 'BREAK', time: performance.now(), lane: lane, color: '#888888', scale: 1.0 });
-              onScoreUpdate({...scoreRef.current});
-          } else {
-              // Released at end (Successful completion logic handled in gameLoop mostly, but we can finalize here)
-              holdingNote.isHolding = false;
-          }
+  // Replay: feed every recorded event up to the current frame back through the judge
+  const drainReplayEvents = (gameTime: number) => {
+      if (!replay) return;
+      const events = replay.events;
+      while (replayCursorRef.current < events.length && events[replayCursorRef.current].time <= gameTime) {
+          const ev = events[replayCursorRef.current++];
+          if (ev.lane < 0 || ev.lane >= laneCountRef.current) continue;
+          if (ev.type === 'down') processHit(ev.lane, ev.time);
+          else processRelease(ev.lane, ev.time);
       }
   };
 
+  const finishGame = () => {
+      if (hasEndedRef.current) return;
+      hasEndedRef.current = true;
+      onGameEnd({ ...scoreRef.current, inputLog: replay ? undefined : inputLogRef.current });
+  };
+
   const { handleGlobalTouch } = useGameInput({
-      status, laneCountRef, keysRef, keyStateRef, laneWidthRef, startXRef, activeTouchesRef,
-      onHit: processHit, onRelease: processRelease
+      status, disabled: !!replay, laneCountRef, keysRef, keyStateRef, laneWidthRef, startXRef, activeTouchesRef,
+      onHit: handleInputDown, onRelease: handleInputUp
   });
 
   useEffect(() => {
       const maxLaneIndex = notes.reduce((max, n) => Math.max(max, n.lane), 0);
-      const count = maxLaneIndex > 3 ? 6 : 4;
+      const count = laneCount ?? (maxLaneIndex > 3 ? 6 : 4);
       laneCountRef.current = count;
       const validBindings = keyBindings.length >= count ? keyBindings.slice(0, count) : (count === 6 ? ['s','d','f','j','k','l'] : ['d','f','j','k']);
       keysRef.current = validBindings.map(k => k.toLowerCase());
@@ -238,7 +224,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
           laneWidthRef.current = laneW;
           startXRef.current = (width - (laneW * count)) / 2;
       }
-  }, [notes, keyBindings]);
+  }, [notes, keyBindings, laneCount]);
 
   useEffect(() => {
       pixelsPerSecondRef.current = 400 + ((scrollSpeed - 1) * 300);
@@ -307,7 +293,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.fillRect(startX + count * laneW, 0, 1, height);
   };
 
-  const playMusic = (offset: number = 0) => {
+  // The clock starts LEAD_IN_TIME (real seconds) before `from`: audio before it plays as a pre-roll, time before 0 is silent
+  const playMusic = (from: number = 0) => {
     if (!audioBuffer) return;
     let ctx = audioContextRef.current;
     const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
@@ -321,13 +308,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     source.connect(ctx.destination);
     source.playbackRate.value = playbackRateRef.current;
     const now = ctx.currentTime;
-    if (offset === 0) {
-        startTimeRef.current = now + LEAD_IN_TIME;
-        source.start(startTimeRef.current);
-    } else {
-        startTimeRef.current = now - (offset / playbackRateRef.current);
-        source.start(0, offset);
-    }
+    const leadStart = from - LEAD_IN_TIME * playbackRateRef.current;
+    startTimeRef.current = now - (leadStart / playbackRateRef.current);
+    if (leadStart >= 0) source.start(0, leadStart);
+    else source.start(startTimeRef.current);
     sourceRef.current = source;
   };
 
@@ -341,18 +325,23 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
   useEffect(() => {
     if (status === GameStatus.Playing && !audioContextRef.current) {
-      notesRef.current = JSON.parse(JSON.stringify(notes));
-      scoreRef.current = { score: 0, combo: 0, maxCombo: 0, perfect: 0, good: 0, miss: 0, hitHistory: [], modifiers };
+      const engine = new JudgementEngine(notes, modifiers, laneCountRef.current);
+      engineRef.current = engine;
+      notesRef.current = engine.notes;
+      scoreRef.current = engine.score;
       effectRef.current = []; 
       particlesRef.current.forEach(p => particlePoolRef.current.release(p));
       particlesRef.current = []; 
       ghostNotesRef.current.forEach(g => ghostNotePoolRef.current.release(g));
       ghostNotesRef.current = [];
       comboScaleRef.current = 1.0;
-      keyStateRef.current = new Array(laneCountRef.current).fill(false); 
+      // Shared with the engine so touch/key handlers and lane highlights see the same state
+      keyStateRef.current = engine.keyState; 
       activeTouchesRef.current.clear();
+      inputLogRef.current = [];
+      replayCursorRef.current = 0;
       hasEndedRef.current = false;
-      playMusic(0);
+      playMusic(startTime);
       requestRef.current = requestAnimationFrame(gameLoop);
     } 
     else if (status === GameStatus.Playing && audioContextRef.current?.state === 'suspended') {
@@ -373,6 +362,15 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   }, [status]);
 
+  // Unmounting mid-song (e.g. leaving an editor test-play) must not leave the audio or the loop running
+  useEffect(() => {
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      if (sourceRef.current) { try { sourceRef.current.stop(); } catch(e) {} sourceRef.current = null; }
+      if (audioContextRef.current) { try { audioContextRef.current.close(); } catch(e) {} audioContextRef.current = null; }
+    };
+  }, []);
+
   const triggerHitVisuals = (lane: number, type: 'PERFECT' | 'GOOD') => {
       const isPerfect = type === 'PERFECT';
       playHitSound(type);
@@ -428,14 +426,16 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     const isFrozen = status === GameStatus.Paused || status === GameStatus.Countdown;
     const gameTime = getCurrentGameTime();
 
-    if (status === GameStatus.Playing && audioBuffer && gameTime > audioBuffer.duration + 0.5) {
-        if (!hasEndedRef.current) {
-            hasEndedRef.current = true;
-            onGameEnd(scoreRef.current);
-        }
+    if (status === GameStatus.Playing && audioBuffer && gameTime > (endTime ?? audioBuffer.duration) + 0.5) {
+        finishGame();
         return;
     }
 
+    if (!isFrozen) {
+        drainReplayEvents(gameTime);
+        if (engineRef.current) applyJudgements(engineRef.current.advance(gameTime), gameTime);
+    }
+
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d', { alpha: false }); 
@@ -473,9 +473,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     
     let beatPulse = 0;
     if (!isFrozen) {
-        const bpm = structure?.bpm || 120;
-        const beatDur = 60 / bpm;
-        beatPulse = Math.pow(1 - (gameTime % beatDur) / beatDur, 2); 
+        beatPulse = Math.pow(1 - getBeatPhase(timingPoints, gameTime), 2); 
     }
 
     const bgGrad = ctx.createLinearGradient(0, 0, 0, height);
@@ -573,86 +571,17 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.fillRect(tailX, drawHeadY - drawHeight - 2, tailW, 4); 
     });
 
-    // 2. Draw Note Heads & Handle Logic
+    // 2. Draw Note Heads
     notesRef.current.forEach(note => {
         if (!note.visible && !note.missed) return;
-        
-        // Auto Play
-        if (isAutoRef.current && !note.hit && !note.missed && !isFrozen && gameTime >= note.time) {
-            note.hit = true;
-            if (note.duration > 0) note.isHolding = true; else note.visible = false;
-            
-            scoreRef.current.perfect++; 
-            scoreRef.current.combo++;
-            if (scoreRef.current.combo > scoreRef.current.maxCombo) scoreRef.current.maxCombo = scoreRef.current.combo;
-            
-            const totalNotes = notesRef.current.length || 1;
-            const scorePerPerfect = ((MAX_SCORE * ACC_WEIGHT) / totalNotes) * 1.0 + ((MAX_SCORE * COMBO_WEIGHT) / totalNotes);
-            scoreRef.current.score = Math.min(MAX_SCORE, scoreRef.current.score + scorePerPerfect);
-
-            triggerHitVisuals(note.lane, 'PERFECT');
-            onScoreUpdate({...scoreRef.current});
-        }
 
-        if (!isFrozen) {
-            // Already hit/holding?
-            if (note.hit && !note.missed && !note.isHolding) {
-                // Completely finished note, don't draw head
-                if (note.duration === 0) return;
-            }
-            
-            // --- Catch Logic Upgrade: Check for "Hold-through" ---
-            if (note.type === 'CATCH' && !note.hit && !note.missed && !isAutoRef.current) {
-                 const windowCatch = BASE_HIT_WINDOW_CATCH * hitWindowMultiplierRef.current;
-                 // If key is CURRENTLY down (held) OR just pressed, allow catch
-                 if (Math.abs(gameTime - note.time) <= windowCatch && keyStateRef.current[note.lane]) {
-                     note.hit = true; note.visible = false;
-                     scoreRef.current.perfect++; scoreRef.current.combo++;
-                     const totalNotes = notesRef.current.length || 1;
-                     const scorePerPerfect = ((MAX_SCORE * ACC_WEIGHT) / totalNotes) * 1.0 + ((MAX_SCORE * COMBO_WEIGHT) / totalNotes);
-                     
-                     scoreRef.current.score = Math.min(MAX_SCORE, scoreRef.current.score + scorePerPerfect);
-
-                     triggerHitVisuals(note.lane, 'PERFECT'); 
-                     onScoreUpdate({...scoreRef.current});
-                 }
-            }
-            
-            const windowGood = BASE_HIT_WINDOW_GOOD * hitWindowMultiplierRef.current;
-            if (!note.hit && !note.missed && gameTime > note.time + windowGood) {
-                note.missed = true; note.hit = true; scoreRef.current.miss++; scoreRef.current.combo = 0;
-                laneMissStateRef.current[note.lane] = 0.8; 
-                effectRef.current.push({ id: Math.random(), text: 'MISS', time: performance.now(), lane: note.lane, color: '#888888', scale: 1.2 });
-                if (isSuddenDeathRef.current && !hasEndedRef.current) { hasEndedRef.current = true; onGameEnd(scoreRef.current); }
-                onScoreUpdate({...scoreRef.current});
-            }
-            
-            // Hold Logic: Ticks & Completion
-            if (note.hit && note.duration > 0 && note.isHolding) {
-                if (gameTime < note.time + note.duration) {
-                    // Holding Effect
-                    if (Math.random() > 0.6) {
-                        const p = particlePoolRef.current.get();
-                        p.reset((startX + note.lane * laneW + laneW / 2), hitLineY, theme.secondaryColor);
-                        particlesRef.current.push(p);
-                    }
-                    
-                    // --- Tick Scoring ---
-                    // Add small score every frame to reward holding
-                    // Total available bonus for holds is relatively small compared to hit
-                    const tickScore = 50; // Arbitrary small number
-                    scoreRef.current.score = Math.min(MAX_SCORE, scoreRef.current.score + tickScore);
-
-                } else { 
-                    // Hold Complete
-                    note.visible = false; 
-                    note.isHolding = false; 
-                    triggerHitVisuals(note.lane, 'PERFECT'); // Visual flourish on release
-                }
-                onScoreUpdate({...scoreRef.current});
-            }
+        // Holding Effect
+        if (note.isHolding && !isFrozen && Math.random() > 0.6) {
+            const p = particlePoolRef.current.get();
+            p.reset((startX + note.lane * laneW + laneW / 2), hitLineY, theme.secondaryColor);
+            particlesRef.current.push(p);
         }
-        
+
         const headY = hitLineY - (note.time - gameTime) * speed; 
         
         // Skip drawing if out of view (for non-holding notes)
@@ -1,7 +1,73 @@
 
-import React, { useRef, useEffect, useState } from 'react';
-import { Note, LaneCount, AITheme, NoteLane } from '../../types';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Note, LaneCount, AITheme, NoteLane, TimingPoint, SectionInfo, OnsetBand } from '../../types';
 import { SnapDivisor, EditorTool } from '../../hooks/useChartEditor';
+import { getBeatDuration, getGridLines } from '../../utils/timing';
+import { moveNotes } from '../../utils/patternTransforms';
+import { WaveformData, Spectrogram, pickPeakLevel, getPeakRange } from '../../utils/waveform';
+
+// Pointer travel below this is a click, not a drag
+const DRAG_THRESHOLD_PX = 4;
+
+// Audio strips left of the lanes, clear of the measure labels
+const STRIP_MARGIN = 48;
+const STRIP_GAP = 6;
+const WAVEFORM_WIDTH = 64;
+const SPECTRO_WIDTH = 48;
+const SPECTRO_TILE_FRAMES = 512; // Spectrogram columns per pre-rendered tile
+
+const ONSET_COLORS: Record<OnsetBand, string> = {
+    kick: '#ff4d6d',
+    snare: '#f9f871',
+    hat: '#00f3ff',
+    vocal: '#bd00ff'
+};
+
+// Black -> purple -> cyan -> white, indexed by spectrogram level
+const SPECTRO_STOPS: [number, number, number][] = [[0, 0, 0], [90, 0, 140], [0, 200, 255], [255, 255, 255]];
+const SPECTRO_PALETTE = Array.from({ length: 256 }, (_, v) => {
+    const pos = (v / 255) * (SPECTRO_STOPS.length - 1);
+    const i = Math.min(SPECTRO_STOPS.length - 2, Math.floor(pos));
+    const f = pos - i;
+    return SPECTRO_STOPS[i].map((c, k) => Math.round(c + (SPECTRO_STOPS[i + 1][k] - c) * f));
+});
+
+interface SpectrogramTile {
+    startFrame: number;
+    frames: number;
+    image: HTMLCanvasElement; // One pixel per bin and frame; later frames on top, like the timeline
+}
+
+const renderSpectrogramTiles = (spectrogram: Spectrogram): SpectrogramTile[] => {
+    const { bins, data } = spectrogram;
+    const totalFrames = data.length / bins;
+    const tiles: SpectrogramTile[] = [];
+    for (let startFrame = 0; startFrame < totalFrames; startFrame += SPECTRO_TILE_FRAMES) {
+        const frames = Math.min(SPECTRO_TILE_FRAMES, totalFrames - startFrame);
+        const image = document.createElement('canvas');
+        image.width = bins;
+        image.height = frames;
+        const ctx = image.getContext('2d');
+        if (!ctx) continue;
+        const pixels = ctx.createImageData(bins, frames);
+        for (let f = 0; f < frames; f++) {
+            const row = frames - 1 - f;
+            for (let b = 0; b < bins; b++) {
+                const [r, g, bl] = SPECTRO_PALETTE[data[(startFrame + f) * bins + b]];
+                const o = (row * bins + b) * 4;
+                pixels.data[o] = r; pixels.data[o + 1] = g; pixels.data[o + 2] = bl; pixels.data[o + 3] = 255;
+            }
+        }
+        ctx.putImageData(pixels, 0, 0);
+        tiles.push({ startFrame, frames, image });
+    }
+    return tiles;
+};
+
+type DragState =
+    | { kind: 'CREATE'; startTime: number; startLane: number; currentY: number }
+    | { kind: 'BOX'; startX: number; startY: number; currentX: number; currentY: number; additive: boolean }
+    | { kind: 'MOVE'; anchor: Note; startX: number; startY: number; currentX: number; currentY: number };
 
 interface EditorCanvasProps {
     notes: Note[];
@@ -9,7 +75,7 @@ interface EditorCanvasProps {
     duration: number;
     laneCount: LaneCount;
     theme: AITheme;
-    bpm: number;
+    timingPoints: TimingPoint[];
     snapDivisor: SnapDivisor;
     zoomLevel: number; 
     activeTool: EditorTool;
@@ -21,6 +87,19 @@ interface EditorCanvasProps {
     onNoteClick: (id: string, multi: boolean) => void;
     onNoteRightClick: (id: string) => void;
     getSnapTime: (time: number) => number; // Helper from hook
+
+    // Selection (SELECT tool): drag on empty track = box, drag a selected note = move,
+    // double-click = whole section, Alt+click = whole lane. Shift / Ctrl add to the selection.
+    sections?: SectionInfo[];
+    onSelectBox?: (start: number, end: number, laneFrom: number, laneTo: number, additive: boolean) => void;
+    onSelectSection?: (time: number, additive: boolean) => void;
+    onSelectLane?: (lane: number, additive: boolean) => void;
+    onMoveSelection?: (timeDelta: number, laneDelta: number) => void;
+
+    // Audio strips; nothing is drawn until the waveform worker has finished
+    waveform?: WaveformData | null;
+    showWaveform?: boolean; // Waveform and onset markers
+    showSpectrogram?: boolean;
     
     // Live Recording
     activeRecordingLanes?: { [key: number]: number };
@@ -31,9 +110,11 @@ interface EditorCanvasProps {
 }
 
 export const EditorCanvas: React.FC<EditorCanvasProps> = ({
-    notes, currentTime, duration, laneCount, theme, bpm, snapDivisor, zoomLevel,
+    notes, currentTime, duration, laneCount, theme, timingPoints, snapDivisor, zoomLevel,
     activeTool, selectedNoteIds,
     onSeek, onAddNote, onNoteClick, onNoteRightClick, getSnapTime,
+    sections, onSelectBox, onSelectSection, onSelectLane, onMoveSelection,
+    waveform, showWaveform = true, showSpectrogram = false,
     activeRecordingLanes, recordSnap, aiRegion
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -42,14 +123,12 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
     const [canvasWidth, setCanvasWidth] = useState(0);
 
     // Interaction State
-    const [dragState, setDragState] = useState<{
-        isDragging: boolean;
-        startX: number;
-        startY: number;
-        startTime: number;
-        startLane: number;
-        currentY: number;
-    } | null>(null);
+    const [dragState, setDragState] = useState<DragState | null>(null);
+
+    const spectrogramTiles = useMemo(
+        () => (waveform && showSpectrogram ? renderSpectrogramTiles(waveform.spectrogram) : []),
+        [waveform, showSpectrogram]
+    );
 
     // Configuration
     const PIXELS_PER_SECOND = 200 * zoomLevel;
@@ -66,61 +145,87 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
         if (x < startX || x > startX + TRACK_WIDTH) return -1;
         return Math.floor((x - startX) / LANE_WIDTH);
     };
+    const xToLaneClamped = (x: number) => {
+        const startX = (canvasWidth - TRACK_WIDTH) / 2;
+        return Math.max(0, Math.min(laneCount - 1, Math.floor((x - startX) / LANE_WIDTH)));
+    };
+
+    const isDragPastThreshold = (d: { startX: number; startY: number; currentX: number; currentY: number }) =>
+        Math.hypot(d.currentX - d.startX, d.currentY - d.startY) >= DRAG_THRESHOLD_PX;
+
+    // Snapped offset of a move drag: the grabbed note lands on the grid, the rest follow it
+    const getMoveDelta = (d: Extract<DragState, { kind: 'MOVE' }>) => {
+        const rawTime = d.anchor.time + (yToTime(d.currentY) - yToTime(d.startY));
+        return {
+            timeDelta: getSnapTime(rawTime) - d.anchor.time,
+            laneDelta: Math.round((d.currentX - d.startX) / LANE_WIDTH)
+        };
+    };
+
+    const getPointer = (e: React.MouseEvent) => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+    };
+
+    const findNoteAt = (x: number, y: number) => notes.find(n => {
+        const ny = timeToY(n.time);
+        const startX = (canvasWidth - TRACK_WIDTH) / 2 + n.lane * LANE_WIDTH;
+        // Check Head
+        const hitHead = x >= startX && x <= startX + LANE_WIDTH && y >= ny - 10 && y <= ny + 10;
+        // Check Body (if hold)
+        let hitBody = false;
+        if (n.duration > 0) {
+            const tailY = timeToY(n.time + n.duration);
+            // Note: time flows up visually (Y decreases as Time increases), 
+            // BUT our formula is: y = hit - (t - curr)*pps.
+            // Larger time = Smaller Y (Higher on screen).
+            // So Head is at ny, Tail is at tailY (smaller value).
+            // Rect is from tailY to ny.
+            hitBody = x >= startX + 4 && x <= startX + LANE_WIDTH - 4 && y >= tailY && y <= ny;
+        }
+        return hitHead || hitBody;
+    });
 
     // --- Interaction Handlers ---
     const handleMouseDown = (e: React.MouseEvent) => {
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
+        const pointer = getPointer(e);
+        if (!pointer) return;
+        const { x, y } = pointer;
 
         const rawTime = yToTime(y);
         const lane = xToLane(x);
+        const additive = e.ctrlKey || e.shiftKey || e.metaKey;
         
         // Find clicked note
-        const clickedNote = notes.find(n => {
-            const ny = timeToY(n.time);
-            const startX = (canvasWidth - TRACK_WIDTH) / 2 + n.lane * LANE_WIDTH;
-            // Check Head
-            const hitHead = x >= startX && x <= startX + LANE_WIDTH && y >= ny - 10 && y <= ny + 10;
-            // Check Body (if hold)
-            let hitBody = false;
-            if (n.duration > 0) {
-                const tailY = timeToY(n.time + n.duration);
-                // Note: time flows up visually (Y decreases as Time increases), 
-                // BUT our formula is: y = hit - (t - curr)*pps.
-                // Larger time = Smaller Y (Higher on screen).
-                // So Head is at ny, Tail is at tailY (smaller value).
-                // Rect is from tailY to ny.
-                hitBody = x >= startX + 4 && x <= startX + LANE_WIDTH - 4 && y >= tailY && y <= ny;
-            }
-            return hitHead || hitBody;
-        });
+        const clickedNote = findNoteAt(x, y);
 
         if (e.button === 0) { // Left Click
             if (activeTool === 'ADD' && lane >= 0) {
                 if (clickedNote) {
                     // If clicking existing note in Add mode, treat as selection to avoid accidental overlaps
-                    onNoteClick(clickedNote.id, e.ctrlKey || e.shiftKey);
+                    onNoteClick(clickedNote.id, additive);
                 } else {
                     // Start dragging to create
-                    const snappedTime = getSnapTime(rawTime);
-                    setDragState({
-                        isDragging: true,
-                        startX: x,
-                        startY: y,
-                        startTime: snappedTime,
-                        startLane: lane,
-                        currentY: y
-                    });
+                    setDragState({ kind: 'CREATE', startTime: getSnapTime(rawTime), startLane: lane, currentY: y });
+                }
+            } else if (activeTool === 'DELETE') {
+                if (clickedNote) onNoteRightClick(clickedNote.id);
+                else onSeek(rawTime);
+            } else if (activeTool === 'SELECT') {
+                if (clickedNote) {
+                    const isSelected = selectedNoteIds.has(clickedNote.id);
+                    if (additive && isSelected) {
+                        onNoteClick(clickedNote.id, true); // Modifier click on a selected note removes it
+                        return;
+                    }
+                    // Grabbing an unselected note selects it first; the drag then moves the whole selection
+                    if (!isSelected) onNoteClick(clickedNote.id, additive);
+                    setDragState({ kind: 'MOVE', anchor: clickedNote, startX: x, startY: y, currentX: x, currentY: y });
+                } else if (e.altKey && lane >= 0 && onSelectLane) {
+                    onSelectLane(lane, additive);
+                } else {
+                    setDragState({ kind: 'BOX', startX: x, startY: y, currentX: x, currentY: y, additive });
                 }
-            } else if (activeTool === 'SELECT' || activeTool === 'DELETE') {
-                 if (clickedNote) {
-                    if (activeTool === 'DELETE') onNoteRightClick(clickedNote.id);
-                    else onNoteClick(clickedNote.id, e.ctrlKey || e.shiftKey);
-                 } else {
-                     onSeek(rawTime); // Seek on empty space
-                 }
             }
         } else if (e.button === 2) { // Right Click
             if (clickedNote) {
@@ -130,17 +235,19 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (!dragState || !dragState.isDragging) return;
+        if (!dragState) return;
+        const pointer = getPointer(e);
+        if (!pointer) return;
         
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
-        const y = e.clientY - rect.top;
-        
-        setDragState(prev => prev ? { ...prev, currentY: y } : null);
+        setDragState(prev => {
+            if (!prev) return null;
+            if (prev.kind === 'CREATE') return { ...prev, currentY: pointer.y };
+            return { ...prev, currentX: pointer.x, currentY: pointer.y };
+        });
     };
 
     const handleMouseUp = (e: React.MouseEvent) => {
-        if (dragState && activeTool === 'ADD') {
+        if (dragState?.kind === 'CREATE' && activeTool === 'ADD') {
             const rawEndTime = yToTime(dragState.currentY);
             // Ensure end time is after start time for holds
             let duration = 0;
@@ -162,13 +269,37 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
             
             // Threshold for creating a hold vs a tap
             // If dragged significantly (> 1/16th beat or > 20px), make it a hold
-            const isHold = duration > (60/bpm)/8; 
+            const isHold = duration > getBeatDuration(timingPoints, dragState.startTime)/8; 
             
             onAddNote(dragState.startTime, dragState.startLane, isHold ? duration : 0);
+        } else if (dragState?.kind === 'BOX') {
+            if (isDragPastThreshold(dragState)) {
+                onSelectBox?.(
+                    yToTime(dragState.startY), yToTime(dragState.currentY),
+                    xToLaneClamped(dragState.startX), xToLaneClamped(dragState.currentX),
+                    dragState.additive
+                );
+            } else {
+                onSeek(yToTime(dragState.startY)); // A plain click on empty space still seeks
+            }
+        } else if (dragState?.kind === 'MOVE') {
+            if (isDragPastThreshold(dragState)) {
+                const { timeDelta, laneDelta } = getMoveDelta(dragState);
+                if (timeDelta !== 0 || laneDelta !== 0) onMoveSelection?.(timeDelta, laneDelta);
+            } else if (!e.ctrlKey && !e.shiftKey && !e.metaKey) {
+                onNoteClick(dragState.anchor.id, false); // Click without drag narrows the selection to this note
+            }
         }
         setDragState(null);
     };
 
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        if (activeTool !== 'SELECT' || !onSelectSection) return;
+        const pointer = getPointer(e);
+        if (!pointer || findNoteAt(pointer.x, pointer.y)) return;
+        onSelectSection(yToTime(pointer.y), e.ctrlKey || e.shiftKey || e.metaKey);
+    };
+
     // --- Render Loop ---
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -204,19 +335,66 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
             ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
         }
 
-        // 2. Grid
         const startTime = yToTime(height);
         const endTime = yToTime(0);
-        const beatInterval = 60 / bpm;
-        const snapInterval = beatInterval / (snapDivisor / 4);
-        const firstBeat = Math.floor(startTime / snapInterval) * snapInterval;
+
+        // 1.5 Audio strips (right to left: waveform, spectrogram)
+        if (waveform) {
+            let stripRight = startX - STRIP_MARGIN;
+
+            if (showWaveform) {
+                const x = stripRight - WAVEFORM_WIDTH;
+                const center = x + WAVEFORM_WIDTH / 2;
+                const half = WAVEFORM_WIDTH / 2 - 2;
+                ctx.fillStyle = '#0b0b0b'; ctx.fillRect(x, 0, WAVEFORM_WIDTH, height);
+
+                const level = pickPeakLevel(waveform.levels, PIXELS_PER_SECOND);
+                ctx.fillStyle = theme.primaryColor;
+                ctx.globalAlpha = 0.55;
+                for (let y = 0; y < height; y++) {
+                    const range = getPeakRange(level, yToTime(y + 1), yToTime(y));
+                    if (!range) continue;
+                    const left = center + range[0] * half;
+                    ctx.fillRect(left, y, Math.max(1, center + range[1] * half - left), 1);
+                }
+                ctx.globalAlpha = 1;
+
+                // Onset markers: band colour, stronger detections more opaque
+                for (const onset of waveform.onsets) {
+                    if (onset.time < startTime || onset.time > endTime) continue;
+                    const y = timeToY(onset.time);
+                    ctx.globalAlpha = 0.35 + onset.confidence * 0.65;
+                    ctx.fillStyle = ONSET_COLORS[onset.band];
+                    ctx.fillRect(x + WAVEFORM_WIDTH - 10, y - 1, 10, 2);
+                    ctx.fillRect(startX - 4, y - 0.5, 4, 1); // Tick on the track edge
+                }
+                ctx.globalAlpha = 1;
+                stripRight = x - STRIP_GAP;
+            }
+
+            if (showSpectrogram) {
+                const x = stripRight - SPECTRO_WIDTH;
+                const fps = waveform.spectrogram.framesPerSecond;
+                ctx.fillStyle = '#000'; ctx.fillRect(x, 0, SPECTRO_WIDTH, height);
+                for (const tile of spectrogramTiles) {
+                    const tileStart = tile.startFrame / fps;
+                    const tileEnd = (tile.startFrame + tile.frames) / fps;
+                    if (tileEnd < startTime || tileStart > endTime) continue;
+                    const top = timeToY(tileEnd);
+                    ctx.drawImage(tile.image, x, top, SPECTRO_WIDTH, timeToY(tileStart) - top);
+                }
+            }
+        }
+
+        // 2. Grid
+        const gridLines = getGridLines(timingPoints, startTime, endTime, Math.max(1, snapDivisor / 4));
         
         ctx.textAlign = 'right'; ctx.font = '10px monospace';
 
-        for (let t = firstBeat; t <= endTime; t += snapInterval) {
+        for (const { time: t, kind } of gridLines) {
             const y = timeToY(t);
-            const isMeasure = Math.abs((t / (beatInterval * 4)) % 1) < 0.01;
-            const isBeat = Math.abs((t / beatInterval) % 1) < 0.01;
+            const isMeasure = kind === 'measure';
+            const isBeat = kind === 'beat';
 
             if (isMeasure) { ctx.strokeStyle = '#666'; ctx.lineWidth = 2; }
             else if (isBeat) { ctx.strokeStyle = '#444'; ctx.lineWidth = 1; }
@@ -250,6 +428,23 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
             ctx.fillText("AI 视窗", startX + TRACK_WIDTH + 10, regionYEnd - 5);
         }
 
+        // 2.6 Section boundaries (double-click selects a section)
+        if (sections) {
+            ctx.font = 'bold 9px sans-serif';
+            ctx.textAlign = 'left';
+            for (const section of sections) {
+                const y = timeToY(section.startTime);
+                if (y < 0 || y > height) continue;
+                ctx.strokeStyle = 'rgba(0, 243, 255, 0.25)';
+                ctx.lineWidth = 1;
+                ctx.setLineDash([4, 4]);
+                ctx.beginPath(); ctx.moveTo(startX, y); ctx.lineTo(startX + TRACK_WIDTH, y); ctx.stroke();
+                ctx.setLineDash([]);
+                ctx.fillStyle = 'rgba(0, 243, 255, 0.6)';
+                ctx.fillText(section.type.toUpperCase(), startX + TRACK_WIDTH + 10, y - 3);
+            }
+        }
+
         // 3. Notes
         const renderNoteObj = (note: Note, isSelected: boolean, isGhost: boolean = false) => {
             const headY = timeToY(note.time);
@@ -303,7 +498,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
         notes.forEach(n => renderNoteObj(n, selectedNoteIds.has(n.id)));
 
         // 4. Drag Preview (Ghost Note)
-        if (dragState && activeTool === 'ADD') {
+        if (dragState?.kind === 'CREATE' && activeTool === 'ADD') {
             const rawEndTime = yToTime(dragState.currentY);
             let duration = 0;
             if (rawEndTime > dragState.startTime) {
@@ -328,6 +523,28 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
             renderNoteObj(ghostNote, false, true);
         }
 
+        // 4.5 Move preview: the selection at its snapped destination
+        if (dragState?.kind === 'MOVE' && isDragPastThreshold(dragState)) {
+            const { timeDelta, laneDelta } = getMoveDelta(dragState);
+            const selected = notes.filter(n => selectedNoteIds.has(n.id));
+            moveNotes(selected, timeDelta, laneDelta, laneCount).forEach(n => renderNoteObj(n, false, true));
+        }
+
+        // 4.6 Selection box
+        if (dragState?.kind === 'BOX' && isDragPastThreshold(dragState)) {
+            const bx = Math.min(dragState.startX, dragState.currentX);
+            const by = Math.min(dragState.startY, dragState.currentY);
+            const bw = Math.abs(dragState.currentX - dragState.startX);
+            const bh = Math.abs(dragState.currentY - dragState.startY);
+            ctx.fillStyle = 'rgba(0, 243, 255, 0.08)';
+            ctx.fillRect(bx, by, bw, bh);
+            ctx.strokeStyle = 'rgba(0, 243, 255, 0.8)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([6, 3]);
+            ctx.strokeRect(bx, by, bw, bh);
+            ctx.setLineDash([]);
+        }
+
         // 5. Recording Preview
         if (activeRecordingLanes) {
             Object.entries(activeRecordingLanes).forEach(([laneStr, rawStartTime]) => {
@@ -358,7 +575,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
         ctx.font = 'bold 12px sans-serif'; ctx.fillStyle = '#ff0044'; ctx.textAlign = 'right';
         ctx.fillText("判定线", startX - 25, HIT_LINE_Y + 4);
 
-    }, [notes, currentTime, canvasHeight, canvasWidth, laneCount, theme, bpm, snapDivisor, zoomLevel, selectedNoteIds, dragState, activeRecordingLanes, aiRegion]);
+    }, [notes, currentTime, canvasHeight, canvasWidth, laneCount, theme, timingPoints, snapDivisor, zoomLevel, selectedNoteIds, dragState, activeRecordingLanes, aiRegion, sections, waveform, showWaveform, showSpectrogram, spectrogramTiles]);
 
     return (
         <div ref={containerRef} className="w-full h-full bg-[#050505] relative overflow-hidden cursor-crosshair">
@@ -367,6 +584,8 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                 onMouseDown={handleMouseDown}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
+                onMouseLeave={() => setDragState(null)}
+                onDoubleClick={handleDoubleClick}
                 onContextMenu={(e) => e.preventDefault()}
                 className="block"
             />
@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Bot, Repeat } from 'lucide-react';
+import GameCanvas from '../GameCanvas';
+import { Note, AITheme, LaneCount, SongStructure, GameStatus, GameModifier, ScoreState } from '../../types';
+import { createEmptyScore } from '../../utils/judgementEngine';
+
+interface TestPlayOverlayProps {
+    audioBuffer: AudioBuffer;
+    notes: Note[]; // The chart as currently edited, unsaved changes included
+    structure?: SongStructure; // With the editor's timing points, so beat effects follow them
+    theme: AITheme;
+    laneCount: LaneCount;
+    keyBindings: string[];
+    audioOffset: number;
+    scrollSpeed: number;
+    startTime: number;
+    endTime?: number; // Set when looping a range: the run restarts at `startTime` after it
+    auto: boolean;
+    onExit: () => void;
+}
+
+/**
+ * Full-screen GameCanvas over the editor. The editor stays mounted underneath, so leaving
+ * (Esc, the close button or the end of the song) returns to it with every edit intact.
+ */
+export const TestPlayOverlay: React.FC<TestPlayOverlayProps> = ({
+    audioBuffer, notes, structure, theme, laneCount, keyBindings, audioOffset, scrollSpeed,
+    startTime, endTime, auto, onExit
+}) => {
+    const [session, setSession] = useState(0); // Bumped to restart a loop
+    const [score, setScore] = useState<ScoreState>(() => createEmptyScore());
+    const isLooping = endTime !== undefined;
+
+    // Only the notes of the played window: anything earlier would count as a miss at the start
+    const playNotes = useMemo(
+        () => notes.filter(n => n.time >= startTime - 0.001 && (endTime === undefined || n.time <= endTime + 0.001)),
+        [notes, startTime, endTime]
+    );
+    const modifiers = useMemo(() => (auto ? [GameModifier.Auto] : []), [auto]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code === 'Escape') {
+                e.preventDefault();
+                onExit();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onExit]);
+
+    const handleEnd = () => {
+        if (isLooping) {
+            setScore(createEmptyScore());
+            setSession(s => s + 1);
+        } else {
+            onExit();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[90] bg-black animate-fade-in">
+            <GameCanvas
+                key={session}
+                status={GameStatus.Playing}
+                audioBuffer={audioBuffer}
+                notes={playNotes}
+                structure={structure}
+                theme={theme}
+                audioOffset={audioOffset}
+                scrollSpeed={scrollSpeed}
+                keyBindings={keyBindings}
+                modifiers={modifiers}
+                laneCount={laneCount}
+                startTime={startTime}
+                endTime={endTime}
+                onScoreUpdate={setScore}
+                onGameEnd={handleEnd}
+            />
+
+            <div className="absolute top-4 left-4 right-4 flex justify-between items-start pointer-events-none">
+                <div className="flex items-center gap-2 bg-black/60 border border-white/10 rounded-full px-4 py-1.5 text-[10px] font-bold text-gray-300">
+                    <span className="text-neon-blue">试玩</span>
+                    <span className="font-mono">
+                        {startTime.toFixed(2)}s{isLooping && ` - ${endTime!.toFixed(2)}s`}
+                    </span>
+                    {auto && <span className="flex items-center gap-1 text-neon-purple"><Bot className="w-3 h-3" /> 自动</span>}
+                    {isLooping && <span className="flex items-center gap-1"><Repeat className="w-3 h-3" /> 第 {session + 1} 遍</span>}
+                    <span className="font-mono text-gray-500">
+                        P {score.perfect} · G {score.good} · M {score.miss}
+                    </span>
+                </div>
+                <button
+                    onClick={onExit}
+                    className="pointer-events-auto flex items-center gap-1 bg-black/60 border border-white/10 rounded-full px-3 py-1.5 text-[10px] font-bold text-gray-300 hover:text-white hover:border-white/30 transition-colors"
+                >
+                    <X className="w-3 h-3" /> 返回编辑器 (Esc)
+                </button>
+            </div>
+        </div>
+    );
+};
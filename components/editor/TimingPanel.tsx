@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Crosshair, Hand, RotateCcw } from 'lucide-react';
+import { TimingPoint } from '../../types';
+import { getTimingPointAt, estimateTapBpm, MIN_BPM, MAX_BPM, MAX_METER } from '../../utils/timing';
+
+interface TimingPanelProps {
+    timingPoints: TimingPoint[]; // Sorted
+    currentTime: number;
+    onAdd: () => void;
+    onUpdate: (index: number, updates: Partial<TimingPoint>) => void;
+    onDelete: (index: number) => void;
+    onSetOffset: (offset: number) => void;
+    onApplyBpm: (bpm: number) => void;
+    onSeek: (time: number) => void;
+}
+
+// Commits on blur / Enter: re-sorting or clamping on every keystroke would fight the typing
+const CommitInput: React.FC<{ value: number; step: number; min?: number; max?: number; onCommit: (value: number) => void; className?: string }> = ({
+    value, step, min, max, onCommit, className
+}) => (
+    <input
+        key={value}
+        type="number" step={step} min={min} max={max}
+        defaultValue={value}
+        onBlur={(e) => {
+            const next = Number(e.target.value);
+            if (e.target.value !== '' && Number.isFinite(next) && next !== value) onCommit(next);
+            else e.target.value = String(value);
+        }}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={`w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs font-mono text-white outline-none focus:border-neon-blue ${className || ''}`}
+    />
+);
+
+export const TimingPanel: React.FC<TimingPanelProps> = ({
+    timingPoints, currentTime, onAdd, onUpdate, onDelete, onSetOffset, onApplyBpm, onSeek
+}) => {
+    const tapsRef = useRef<number[]>([]);
+    const [tapBpm, setTapBpm] = useState<number | null>(null);
+
+    const activePoint = getTimingPointAt(timingPoints, currentTime);
+    const offsetMs = Math.round(timingPoints[0].time * 1000);
+
+    const handleTap = () => {
+        const taps = [...tapsRef.current, performance.now()].slice(-32);
+        tapsRef.current = taps;
+        setTapBpm(estimateTapBpm(taps));
+    };
+
+    const resetTaps = () => {
+        tapsRef.current = [];
+        setTapBpm(null);
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Global Offset */}
+            <div className="space-y-2">
+                <div className="text-xs text-gray-500 font-bold uppercase tracking-wider">全局偏移</div>
+                <div className="flex gap-2 items-center">
+                    <CommitInput value={offsetMs} step={1} onCommit={(ms) => onSetOffset(ms / 1000)} className="flex-1" />
+                    <span className="text-[10px] text-gray-500">ms</span>
+                </div>
+                <div className="grid grid-cols-5 gap-1.5">
+                    {[-10, -1, 1, 10].map(delta => (
+                        <button
+                            key={delta}
+                            onClick={() => onSetOffset((offsetMs + delta) / 1000)}
+                            className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-mono font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                        >
+                            {delta > 0 ? `+${delta}` : delta}
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => onSetOffset(currentTime)}
+                        className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-gray-300 hover:bg-white/10 hover:text-white transition-colors flex items-center justify-center"
+                        title="把第一个小节线移到播放头"
+                    >
+                        <Crosshair className="w-3 h-3" />
+                    </button>
+                </div>
+                <p className="text-[10px] text-gray-600 leading-relaxed">移动整个节拍网格，已放置的音符位置不变。</p>
+            </div>
+
+            {/* Tap BPM */}
+            <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                    <div className="text-xs text-gray-500 font-bold uppercase tracking-wider">敲击测速</div>
+                    <button onClick={resetTaps} className="text-gray-600 hover:text-white transition-colors" title="重置">
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleTap}
+                        className="flex-1 py-4 bg-white/5 border border-white/10 rounded-xl text-gray-300 hover:border-neon-blue/40 active:bg-neon-blue/20 transition-colors flex flex-col items-center justify-center gap-1"
+                    >
+                        <Hand className="w-4 h-4" />
+                        <span className="text-lg font-black font-mono text-white">{tapBpm !== null ? tapBpm.toFixed(1) : '--'}</span>
+                        <span className="text-[10px] text-gray-500">{tapBpm !== null ? '继续点击可提高精度' : '跟着节拍点击'}</span>
+                    </button>
+                </div>
+                <button
+                    onClick={() => tapBpm !== null && onApplyBpm(tapBpm)}
+                    disabled={tapBpm === null}
+                    className="w-full py-2 bg-neon-blue/10 border border-neon-blue/30 rounded-lg text-[10px] font-bold text-neon-blue hover:bg-neon-blue/20 transition-colors disabled:opacity-30"
+                >
+                    应用到当前段落 ({activePoint.time.toFixed(3)}s)
+                </button>
+            </div>
+
+            {/* Timing Points */}
+            <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                    <div className="text-xs text-gray-500 font-bold uppercase tracking-wider">Timing Points</div>
+                    <span className="text-[10px] text-gray-600 font-mono">{timingPoints.length}</span>
+                </div>
+                <div className="grid grid-cols-[1fr_1fr_3rem_auto] gap-1.5 text-[10px] text-gray-500 px-1">
+                    <span>时间 (秒)</span><span>BPM</span><span>拍/节</span><span className="w-12" />
+                </div>
+                {timingPoints.map((point, index) => (
+                    <div
+                        key={`${index}-${point.time}`}
+                        className={`grid grid-cols-[1fr_1fr_3rem_auto] gap-1.5 items-center p-1 rounded-lg border ${point === activePoint ? 'border-neon-blue/40 bg-neon-blue/5' : 'border-transparent'}`}
+                    >
+                        <CommitInput value={point.time} step={0.001} min={0} onCommit={(time) => onUpdate(index, { time: Math.max(0, time) })} />
+                        <CommitInput value={point.bpm} step={0.1} min={MIN_BPM} max={MAX_BPM} onCommit={(bpm) => onUpdate(index, { bpm })} />
+                        <CommitInput value={point.meter} step={1} min={1} max={MAX_METER} onCommit={(meter) => onUpdate(index, { meter })} />
+                        <div className="flex gap-1 w-12">
+                            <button onClick={() => onSeek(point.time)} className="p-1 text-gray-500 hover:text-white transition-colors" title="跳转">
+                                <Crosshair className="w-3 h-3" />
+                            </button>
+                            <button
+                                onClick={() => onDelete(index)}
+                                disabled={timingPoints.length <= 1}
+                                className="p-1 text-gray-500 hover:text-red-400 transition-colors disabled:opacity-20"
+                                title="删除"
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+                <button
+                    onClick={onAdd}
+                    className="w-full py-2 bg-white/5 border border-dashed border-white/10 rounded-lg text-[10px] font-bold text-gray-400 hover:bg-white/10 hover:text-white transition-colors flex items-center justify-center gap-1"
+                >
+                    <Plus className="w-3 h-3" /> 在播放头添加变速点
+                </button>
+                <p className="text-[10px] text-gray-600 leading-relaxed">每个 timing point 从一个小节线开始。吸附与网格都跟随这里的设置，保存后游戏中的节拍效果也随之对齐。</p>
+            </div>
+        </div>
+    );
+};
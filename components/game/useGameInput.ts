@@ -1,21 +1,23 @@
 
 import React, { useEffect, MutableRefObject } from 'react';
-import { GameStatus, LaneCount } from '../../types';
+import { GameStatus, LaneCount, InputSource } from '../../types';
 
 interface UseGameInputProps {
     status: GameStatus;
+    disabled?: boolean; // Replay playback: live input must not touch lane state
     laneCountRef: MutableRefObject<LaneCount>;
     keysRef: MutableRefObject<string[]>;
     keyStateRef: MutableRefObject<boolean[]>;
     laneWidthRef: MutableRefObject<number>;
     startXRef: MutableRefObject<number>;
     activeTouchesRef: MutableRefObject<Map<number, number>>;
-    onHit: (lane: number) => void;
-    onRelease: (lane: number) => void;
+    onHit: (lane: number, source: InputSource) => void;
+    onRelease: (lane: number, source: InputSource) => void;
 }
 
 export const useGameInput = ({
     status,
+    disabled,
     laneCountRef,
     keysRef,
     keyStateRef,
@@ -29,21 +31,21 @@ export const useGameInput = ({
     // --- Keyboard Input ---
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (status !== GameStatus.Playing) return;
+            if (status !== GameStatus.Playing || disabled) return;
             
             const keyIndex = keysRef.current.indexOf(e.key.toLowerCase());
             if (keyIndex !== -1 && !keyStateRef.current[keyIndex]) {
                 keyStateRef.current[keyIndex] = true;
-                onHit(keyIndex);
+                onHit(keyIndex, 'key');
             }
         };
 
         const handleKeyUp = (e: KeyboardEvent) => {
-            if (status !== GameStatus.Playing) return;
+            if (status !== GameStatus.Playing || disabled) return;
             const keyIndex = keysRef.current.indexOf(e.key.toLowerCase());
             if (keyIndex !== -1) {
                 keyStateRef.current[keyIndex] = false;
-                onRelease(keyIndex);
+                onRelease(keyIndex, 'key');
             }
         };
 
@@ -53,7 +55,7 @@ export const useGameInput = ({
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [status]); // Only re-bind when status changes (play/pause)
+    }, [status, disabled]); // Only re-bind on play/pause or when a replay takes over input
 
     // --- Touch Input Helpers ---
     const getLaneFromTouchX = (touchX: number) => {
@@ -69,7 +71,7 @@ export const useGameInput = ({
     const engageLane = (lane: number) => {
         if (lane < 0 || lane >= laneCountRef.current) return;
         keyStateRef.current[lane] = true;
-        onHit(lane);
+        onHit(lane, 'touch');
     };
 
     const disengageLane = (lane: number) => {
@@ -78,13 +80,13 @@ export const useGameInput = ({
         const isStillHeld = Array.from(activeTouchesRef.current.values()).includes(lane);
         if (!isStillHeld) {
             keyStateRef.current[lane] = false;
-            onRelease(lane);
+            onRelease(lane, 'touch');
         }
     };
 
     // --- Global Touch Handler ---
     const handleGlobalTouch = (e: React.TouchEvent) => {
-        if (status !== GameStatus.Playing) return;
+        if (status !== GameStatus.Playing || disabled) return;
         if (e.cancelable && e.type !== 'touchstart') {
             e.preventDefault();
         }
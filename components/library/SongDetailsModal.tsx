@@ -3,6 +3,8 @@ import React from 'react';
 import { X, Disc, Music, Trophy, Play, Edit3, Clock, Zap, Star } from 'lucide-react';
 import { SavedSong } from '../../types';
 import { calculateAccuracy } from '../../utils/scoring';
+import { getChart } from '../../utils/chartUtils';
+import { formatBpm } from '../../utils/timing';
 
 interface SongDetailsModalProps {
     song: SavedSong;
@@ -18,8 +20,11 @@ const formatTime = (seconds: number) => {
 };
 
 export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClose, onStart, onEdit }) => {
-    const accuracy = song.bestResult 
-        ? calculateAccuracy(song.bestResult.perfect, song.bestResult.good, song.notes.length)
+    // Undefined for a song whose charts were all deleted or that was imported without any
+    const chart = getChart(song);
+    const bestResult = chart?.bestResult;
+    const accuracy = chart && bestResult
+        ? calculateAccuracy(bestResult.perfect, bestResult.good, chart.notes.length)
         : 0;
 
     const themeColor = song.theme?.primaryColor || '#00f3ff';
@@ -86,10 +91,10 @@ export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClos
                         <div className="flex flex-wrap gap-2 mb-4">
                             <span className="px-3 py-1 rounded-full bg-white/10 border border-white/5 text-[10px] font-bold text-white uppercase tracking-wider backdrop-blur-md flex items-center gap-1.5">
                                 <Zap className="w-3 h-3 text-yellow-400" />
-                                {song.difficultyRating.toFixed(1)} Difficulty
+                                {chart ? chart.difficultyRating.toFixed(1) : '—'} Difficulty
                             </span>
                             <span className="px-3 py-1 rounded-full bg-white/10 border border-white/5 text-[10px] font-bold text-white uppercase tracking-wider backdrop-blur-md">
-                                {song.laneCount} KEY
+                                {chart ? chart.laneCount : '—'} KEY
                             </span>
                         </div>
                         <h1 className="text-3xl md:text-5xl font-black text-white leading-tight mb-2 tracking-tight line-clamp-2 drop-shadow-lg">
@@ -112,14 +117,14 @@ export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClos
                         <div className="bg-black/30 backdrop-blur-md rounded-2xl p-4 border border-white/5 flex flex-col justify-between">
                             <Zap className="w-5 h-5 text-gray-500 mb-2" />
                             <div>
-                                <div className="text-xl font-bold text-white">{Math.round(song.structure.bpm)}</div>
+                                <div className="text-xl font-bold text-white">{formatBpm(song.structure)}</div>
                                 <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">BPM</div>
                             </div>
                         </div>
                         <div className="bg-black/30 backdrop-blur-md rounded-2xl p-4 border border-white/5 flex flex-col justify-between">
                             <Music className="w-5 h-5 text-gray-500 mb-2" />
                             <div>
-                                <div className="text-xl font-bold text-white">{song.notes.length}</div>
+                                <div className="text-xl font-bold text-white">{chart ? chart.notes.length : 0}</div>
                                 <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">Notes</div>
                             </div>
                         </div>
@@ -131,11 +136,11 @@ export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClos
                             <Trophy className="w-24 h-24 text-white" />
                         </div>
                         
-                        {song.bestResult ? (
+                        {bestResult ? (
                             <>
                                 <div className="relative">
                                     <div className="text-5xl md:text-6xl font-black italic text-transparent bg-clip-text bg-gradient-to-b from-white to-gray-400 drop-shadow-lg relative z-10">
-                                        {song.bestResult.rank}
+                                        {bestResult.rank}
                                     </div>
                                     <div className="absolute inset-0 blur-xl opacity-50 bg-white/20"></div>
                                 </div>
@@ -144,11 +149,11 @@ export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClos
                                 
                                 <div className="space-y-1">
                                     <div className="text-2xl md:text-3xl font-black text-white tracking-tighter">
-                                        {song.bestResult.score.toLocaleString()}
+                                        {bestResult.score.toLocaleString()}
                                     </div>
                                     <div className="flex gap-4 text-xs font-bold text-gray-400">
                                         <span className="flex items-center gap-1"><TargetIcon/> {accuracy}%</span>
-                                        <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-500"/> {song.bestResult.maxCombo}x</span>
+                                        <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-500"/> {bestResult.maxCombo}x</span>
                                     </div>
                                 </div>
                             </>
@@ -173,7 +178,8 @@ export const SongDetailsModal: React.FC<SongDetailsModalProps> = ({ song, onClos
                         )}
                         <button 
                             onClick={() => onStart(song)} 
-                            className="flex-1 py-4 md:py-5 rounded-2xl bg-white text-black font-black text-lg uppercase tracking-[0.2em] hover:bg-neon-blue transition-all shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:shadow-[0_0_50px_rgba(0,243,255,0.6)] hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-3 group relative overflow-hidden"
+                            disabled={!chart}
+                            className="flex-1 disabled:opacity-40 disabled:pointer-events-none py-4 md:py-5 rounded-2xl bg-white text-black font-black text-lg uppercase tracking-[0.2em] hover:bg-neon-blue transition-all shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:shadow-[0_0_50px_rgba(0,243,255,0.6)] hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-3 group relative overflow-hidden"
                         >
                             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/50 to-transparent -translate-x-full group-hover:animate-shine"></div>
                             <Play className="w-6 h-6 fill-current" />
@@ -0,0 +1,102 @@
+
+import React, { useState } from 'react';
+import { Archive, X, Loader2, GitMerge, SkipForward, RefreshCw, AlertTriangle } from 'lucide-react';
+import { RestorePlan, RestoreStrategy } from '../../services/backupService';
+
+interface BackupRestoreModalProps {
+    plan: RestorePlan;
+    onCancel: () => void;
+    onConfirm: (strategy: RestoreStrategy, restoreSettings: boolean) => Promise<void>;
+}
+
+const STRATEGY_OPTIONS: { id: RestoreStrategy, label: string, desc: string, icon: any }[] = [
+    { id: 'MERGE', label: '合并', desc: '保留本地谱面，补充备份中独有的难度，成绩取最高', icon: GitMerge },
+    { id: 'SKIP', label: '跳过', desc: '本地已存在的歌曲保持不变', icon: SkipForward },
+    { id: 'OVERWRITE', label: '覆盖', desc: '用备份中的谱面与成绩替换本地歌曲', icon: RefreshCw },
+];
+
+export const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({ plan, onCancel, onConfirm }) => {
+    const [strategy, setStrategy] = useState<RestoreStrategy>('MERGE');
+    const [restoreSettings, setRestoreSettings] = useState(true);
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    const conflicts = plan.items.filter(i => i.existing);
+    const newCount = plan.items.length - conflicts.length;
+
+    const handleConfirm = async () => {
+        setIsRestoring(true);
+        try {
+            await onConfirm(strategy, restoreSettings);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+            <div className="bg-[#0f172a] border border-white/20 rounded-2xl p-6 w-full max-w-md shadow-2xl relative max-h-[90vh] flex flex-col">
+                <button onClick={onCancel} className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors"><X className="w-5 h-5"/></button>
+                <h3 className="text-xl font-black text-white mb-1 flex items-center gap-2"><Archive className="w-5 h-5 text-neon-blue"/> 恢复备份</h3>
+                <p className="text-xs text-gray-500 mb-4">备份时间：{new Date(plan.createdAt).toLocaleString()}</p>
+
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                    <div className="bg-white/5 border border-white/10 rounded-xl p-3 text-center">
+                        <div className="text-2xl font-black text-white">{newCount}</div>
+                        <div className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">新歌曲</div>
+                    </div>
+                    <div className={`border rounded-xl p-3 text-center ${conflicts.length > 0 ? 'bg-yellow-500/5 border-yellow-500/20' : 'bg-white/5 border-white/10'}`}>
+                        <div className={`text-2xl font-black ${conflicts.length > 0 ? 'text-yellow-400' : 'text-white'}`}>{conflicts.length}</div>
+                        <div className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">已存在</div>
+                    </div>
+                </div>
+
+                {conflicts.length > 0 && (
+                    <div className="mb-4 flex-1 min-h-0 flex flex-col">
+                        <div className="text-xs font-bold text-gray-400 mb-2 flex items-center gap-1"><AlertTriangle className="w-3 h-3 text-yellow-400"/> 以下歌曲的音频与本地一致：</div>
+                        <div className="overflow-y-auto custom-scrollbar max-h-32 bg-black/30 rounded-xl border border-white/5 p-2 space-y-1 mb-3">
+                            {conflicts.map(({ entry, existing }) => (
+                                <div key={entry.song.id} className="text-xs text-gray-300 truncate">
+                                    {entry.song.title} <span className="text-gray-600">— {existing!.title !== entry.song.title ? `本地：${existing!.title}` : entry.song.artist}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            {STRATEGY_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.id}
+                                    onClick={() => setStrategy(opt.id)}
+                                    className={`w-full flex items-start gap-3 p-3 rounded-xl border text-left transition-colors ${strategy === opt.id ? 'bg-neon-blue/10 border-neon-blue/50' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                                >
+                                    <opt.icon className={`w-4 h-4 mt-0.5 shrink-0 ${strategy === opt.id ? 'text-neon-blue' : 'text-gray-500'}`} />
+                                    <div>
+                                        <div className={`text-sm font-bold ${strategy === opt.id ? 'text-white' : 'text-gray-300'}`}>{opt.label}</div>
+                                        <div className="text-[11px] text-gray-500">{opt.desc}</div>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {plan.settings ? (
+                    <label className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 cursor-pointer hover:bg-white/10 transition mb-6">
+                        <input type="checkbox" checked={restoreSettings} onChange={e => setRestoreSettings(e.target.checked)} className="w-4 h-4 accent-neon-blue" />
+                        <span className="text-sm font-bold text-gray-300">同时恢复设置 (延迟、流速、键位)</span>
+                    </label>
+                ) : (
+                    <div className="p-3 rounded-xl bg-white/5 border border-white/10 mb-6 text-xs text-gray-500">
+                        备份中的设置无效或已损坏，只会恢复歌曲，当前设置保持不变。
+                    </div>
+                )}
+
+                <div className="flex gap-3">
+                    <button onClick={onCancel} className="flex-1 py-3 bg-white/10 rounded-xl font-bold hover:bg-white/20 transition-colors text-sm">取消</button>
+                    <button onClick={handleConfirm} disabled={isRestoring} className="flex-1 py-3 bg-neon-blue rounded-xl font-bold hover:bg-white hover:text-black text-black shadow-lg transition-colors text-sm flex items-center justify-center gap-2">
+                        {isRestoring && <Loader2 className="w-4 h-4 animate-spin"/>}
+                        开始恢复
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -31,29 +31,31 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ songs, onClose }) =>
             'D': 0 
         };
 
-        const ratings = songs
-            .map(s => {
-                if (!s.bestResult) return 0;
-                return calculateRating(s.difficultyRating, s.bestResult.score);
+        const charts = songs.flatMap(s => s.charts);
+
+        const ratings = charts
+            .map(c => {
+                if (!c.bestResult) return 0;
+                return calculateRating(c.difficultyRating, c.bestResult.score);
             })
             .sort((a, b) => b - a);
         
         const top10 = ratings.slice(0, 10);
         const rating = top10.length > 0 ? top10.reduce((a, b) => a + b, 0) / Math.min(top10.length, 10) : 0;
 
-        songs.forEach(song => {
-            totalPlayCount += (song.playCount || 0);
-            if (song.bestResult) {
-                totalScore += song.bestResult.score;
-                totalNotesHit += (song.bestResult.perfect + song.bestResult.good);
-                totalNotesPossible += song.notes.length;
+        charts.forEach(chart => {
+            totalPlayCount += (chart.playCount || 0);
+            if (chart.bestResult) {
+                totalScore += chart.bestResult.score;
+                totalNotesHit += (chart.bestResult.perfect + chart.bestResult.good);
+                totalNotesPossible += chart.notes.length;
                 
                 // Recalculate rank to ensure consistency with new tier system
                 // (e.g. if DB has old 'S' but score is now 'SS')
-                const { rank } = calculateGrade(song.bestResult.score);
+                const { rank } = calculateGrade(chart.bestResult.score);
                 
                 if (rank !== 'D') clearedSongs++;
-                if (song.bestResult.maxCombo === song.notes.length) fullCombos++;
+                if (chart.bestResult.maxCombo === chart.notes.length) fullCombos++;
                 
                 if (rankCounts[rank] !== undefined) rankCounts[rank]++;
                 else {
@@ -1,7 +1,9 @@
 
-import React, { useState } from 'react';
-import { Settings, X, Keyboard, Volume2, Gauge, Bug, Check, Loader2, AlertTriangle, Key, Monitor, Gamepad2, MousePointer2, RefreshCw } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Settings, X, Keyboard, Volume2, Gauge, Bug, Check, Loader2, AlertTriangle, Key, Monitor, Gamepad2, MousePointer2, RefreshCw, DatabaseBackup, Upload, Trash2 } from 'lucide-react';
 import { KeyConfig } from '../../types';
+import { AIProviderId, AI_PROVIDER_LABELS } from '../../services/aiProvider';
+import { countAICacheEntries, clearAICache } from '../../services/storageService';
 
 interface SettingsModalProps {
     onClose: () => void;
@@ -13,6 +15,8 @@ interface SettingsModalProps {
     openCalibration: () => void;
     isDebugMode: boolean;
     openMetadataDebugger: () => void;
+    aiProviderId: AIProviderId;
+    setAiProviderId: (id: AIProviderId) => void;
     apiKeyStatus: 'valid' | 'missing' | 'checking' | 'invalid';
     customApiKey: string;
     setCustomApiKey: (k: string) => void;
@@ -22,6 +26,9 @@ interface SettingsModalProps {
     setRebindingKey: (k: { mode: 4 | 6; index: number } | null) => void;
     hasEnvKey: boolean;
     onRestartTutorial?: () => void; // New Prop
+    onBackupLibrary?: () => void;
+    onRestoreLibrary?: (file: File) => void;
+    isBackupBusy?: boolean;
 }
 
 type SettingsTab = 'GAMEPLAY' | 'CONTROLS' | 'SYSTEM';
@@ -31,13 +38,25 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     keyConfig, setKeyConfig,
     audioOffset, openCalibration,
     isDebugMode, openMetadataDebugger,
+    aiProviderId, setAiProviderId,
     apiKeyStatus, customApiKey, setCustomApiKey,
     handleSaveSettings, validationError,
     rebindingKey, setRebindingKey, hasEnvKey,
-    onRestartTutorial
+    onRestartTutorial, onBackupLibrary, onRestoreLibrary, isBackupBusy
 }) => {
     
     const [activeTab, setActiveTab] = useState<SettingsTab>('GAMEPLAY');
+    const restoreInputRef = useRef<HTMLInputElement>(null);
+    const [aiCacheCount, setAiCacheCount] = useState<number | null>(null);
+
+    useEffect(() => {
+        countAICacheEntries().then(setAiCacheCount).catch(() => setAiCacheCount(null));
+    }, []);
+
+    const handleClearAICache = async () => {
+        await clearAICache();
+        setAiCacheCount(0);
+    };
 
     const TabButton = ({ id, icon: Icon, label }: { id: SettingsTab, icon: any, label: string }) => (
         <button 
@@ -242,6 +261,44 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                          )}
                                      </div>
 
+                                     {onBackupLibrary && onRestoreLibrary && (
+                                         <div className="border-t border-white/5 pt-6 space-y-4">
+                                             <SectionHeader title="数据管理" />
+                                             <p className="text-xs text-gray-500 leading-relaxed">
+                                                 备份包含全部歌曲、谱面、成绩、收藏以及延迟/流速/键位设置。恢复时将按音频内容识别已存在的歌曲。
+                                             </p>
+                                             <div className="grid grid-cols-2 gap-3">
+                                                 <button 
+                                                     onClick={onBackupLibrary}
+                                                     disabled={isBackupBusy}
+                                                     className="py-4 bg-white/5 border border-white/10 hover:bg-white/10 text-white text-xs font-bold rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                                                 >
+                                                     {isBackupBusy ? <Loader2 className="w-4 h-4 animate-spin"/> : <DatabaseBackup className="w-4 h-4"/>}
+                                                     备份全部
+                                                 </button>
+                                                 <button 
+                                                     onClick={() => restoreInputRef.current?.click()}
+                                                     disabled={isBackupBusy}
+                                                     className="py-4 bg-white/5 border border-white/10 hover:bg-white/10 text-white text-xs font-bold rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                                                 >
+                                                     <Upload className="w-4 h-4"/>
+                                                     从备份恢复
+                                                 </button>
+                                             </div>
+                                             <input 
+                                                 type="file" 
+                                                 ref={restoreInputRef} 
+                                                 className="hidden" 
+                                                 accept=".nfbak" 
+                                                 onChange={(e) => {
+                                                     const file = e.target.files?.[0];
+                                                     e.target.value = '';
+                                                     if (file) onRestoreLibrary(file);
+                                                 }} 
+                                             />
+                                         </div>
+                                     )}
+
                                      <div className="border-t border-white/5 pt-6 space-y-4">
                                          <SectionHeader title="其他选项" />
                                          
@@ -255,6 +312,32 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                              </button>
                                          )}
 
+                                         <button 
+                                             onClick={handleClearAICache}
+                                             disabled={!aiCacheCount}
+                                             className="w-full py-4 bg-white/5 border border-white/10 hover:bg-white/10 text-white text-xs font-bold rounded-xl transition-all flex items-center justify-center gap-2 uppercase tracking-wide disabled:opacity-40 disabled:cursor-not-allowed"
+                                         >
+                                             <Trash2 className="w-4 h-4"/> 
+                                             清空 AI 分析缓存{aiCacheCount !== null && ` (${aiCacheCount} 条)`}
+                                         </button>
+
+                                         {isDebugMode && (
+                                             <div className="space-y-2">
+                                                 <div className="text-xs font-bold text-gray-500">AI 后端</div>
+                                                 <div className="flex gap-2">
+                                                     {(Object.keys(AI_PROVIDER_LABELS) as AIProviderId[]).map(id => (
+                                                         <button
+                                                             key={id}
+                                                             onClick={() => setAiProviderId(id)}
+                                                             className={`flex-1 py-3 rounded-xl text-xs font-bold border transition-all ${aiProviderId === id ? 'bg-white text-black border-white' : 'bg-black text-gray-500 border-white/10 hover:border-white/30'}`}
+                                                         >
+                                                             {AI_PROVIDER_LABELS[id]}
+                                                         </button>
+                                                     ))}
+                                                 </div>
+                                             </div>
+                                         )}
+
                                          {isDebugMode && (
                                              <button 
                                                  onClick={openMetadataDebugger}
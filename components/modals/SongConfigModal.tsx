@@ -1,10 +1,12 @@
 
 import React, { useState, useEffect } from 'react';
-import { Music, X, Check, Bug, BrainCircuit, Mic2, AlertTriangle, RefreshCw, Layers, Zap } from 'lucide-react';
+import { Music, X, Check, Bug, BrainCircuit, Mic2, AlertTriangle, RefreshCw, Layers, Zap, Hash } from 'lucide-react';
 import { BeatmapDifficulty, LaneCount, PlayStyle } from '../../types';
+import { DIFFICULTY_LADDER } from '../../utils/beatmapGenerator';
 
 interface SongConfigModalProps {
     file: File;
+    targetSongTitle?: string; // Set when adding a difficulty to an existing song
     onCancel: () => void;
     onConfirm: (options?: { empty?: boolean }) => void;
     laneCount: LaneCount;
@@ -13,8 +15,12 @@ interface SongConfigModalProps {
     setPlayStyle: (s: PlayStyle) => void;
     difficulty: number | null; // Changed from BeatmapDifficulty to number (1-20)
     setDifficulty: (d: number) => void;
+    ladder: boolean; // Generate every DIFFICULTY_LADDER level instead of `difficulty`
+    setLadder: (b: boolean) => void;
     features: { normal: boolean; holds: boolean; catch: boolean };
     setFeatures: (f: any) => void;
+    seed: string; // Blank = random
+    setSeed: (s: string) => void;
     isDebugMode: boolean;
     skipAI: boolean;
     setSkipAI: (b: boolean) => void;
@@ -25,6 +31,10 @@ interface SongConfigModalProps {
     useProModel?: boolean;
     setUseProModel?: (b: boolean) => void;
 
+    // Ignore cached AI analysis of this audio and ask again
+    bypassAiCache?: boolean;
+    setBypassAiCache?: (b: boolean) => void;
+
     // Error Handling props
     errorState?: { hasError: boolean, type: string, message: string | null };
     resetError?: () => void;
@@ -38,14 +48,17 @@ const STYLE_PRESETS = [
 ];
 
 export const SongConfigModal: React.FC<SongConfigModalProps> = ({
-    file, onCancel, onConfirm,
+    file, targetSongTitle, onCancel, onConfirm,
     laneCount, setLaneCount,
     difficulty, setDifficulty,
+    ladder, setLadder,
     features, setFeatures,
+    seed, setSeed,
     isDebugMode, skipAI, setSkipAI,
     aiOptions, setAiOptions,
     errorState, resetError,
-    useProModel, setUseProModel
+    useProModel, setUseProModel,
+    bypassAiCache, setBypassAiCache
 }) => {
     
     const [mode, setMode] = useState<'AUTO' | 'MANUAL'>('AUTO');
@@ -161,8 +174,8 @@ export const SongConfigModal: React.FC<SongConfigModalProps> = ({
                              <Music className="w-6 h-6 text-neon-blue" />
                          </div>
                          <div>
-                             <h1 className="text-xl font-black text-white tracking-tight uppercase">配置工程</h1>
-                             <div className="text-xs text-gray-500 font-mono mt-0.5 max-w-[200px] truncate">{file.name}</div>
+                             <h1 className="text-xl font-black text-white tracking-tight uppercase">{targetSongTitle ? '新增难度' : '配置工程'}</h1>
+                             <div className="text-xs text-gray-500 font-mono mt-0.5 max-w-[200px] truncate">{targetSongTitle || file.name}</div>
                          </div>
                      </div>
                      <button onClick={onCancel} className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-full">
@@ -239,7 +252,7 @@ export const SongConfigModal: React.FC<SongConfigModalProps> = ({
                                          </div>
                                      </div>
                                      
-                                     <div className="relative h-12 flex items-center group">
+                                     <div className={`relative h-12 flex items-center group transition-opacity ${ladder ? 'opacity-30 pointer-events-none' : ''}`}>
                                          <div className="absolute inset-0 bg-white/5 rounded-xl border border-white/5 group-hover:border-white/10 transition-colors"></div>
                                          <div 
                                             className="absolute left-2 right-2 h-2 rounded-full overflow-hidden bg-gray-800"
@@ -262,6 +275,19 @@ export const SongConfigModal: React.FC<SongConfigModalProps> = ({
                                          <span>专家</span>
                                          <span>大师</span>
                                      </div>
+
+                                     <button
+                                         onClick={() => setLadder(!ladder)}
+                                         className={`w-full p-3 rounded-xl border transition-all flex items-center justify-between ${ladder ? 'bg-neon-blue/10 border-neon-blue/50' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                                     >
+                                         <div className="text-left">
+                                             <div className={`text-sm font-bold ${ladder ? 'text-white' : 'text-gray-400'}`}>完整难度阶梯</div>
+                                             <div className="text-[10px] text-gray-500">一次生成 {DIFFICULTY_LADDER.map(d => `Lv.${d.level}`).join(' / ')}，自动校准实际难度</div>
+                                         </div>
+                                         <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${ladder ? 'border-neon-blue bg-neon-blue text-black' : 'border-gray-600'}`}>
+                                             {ladder && <Check className="w-4 h-4" />}
+                                         </div>
+                                     </button>
                                  </div>
 
                                  {/* Style Presets */}
@@ -303,6 +329,22 @@ export const SongConfigModal: React.FC<SongConfigModalProps> = ({
                                      </div>
                                  </div>
 
+                                 {/* Seed */}
+                                 <div className="space-y-2">
+                                     <h3 className="text-sm font-bold text-white uppercase tracking-wider flex items-center gap-2">
+                                         <Hash className="w-4 h-4 text-gray-400"/> 随机种子
+                                     </h3>
+                                     <input
+                                         type="text"
+                                         inputMode="numeric"
+                                         value={seed}
+                                         onChange={e => setSeed(e.target.value.replace(/\D/g, ''))}
+                                         placeholder="留空则随机"
+                                         className="w-full bg-black/40 border border-white/10 rounded-lg px-4 py-2 text-sm font-mono text-white placeholder-gray-600 focus:border-neon-blue/50 outline-none"
+                                     />
+                                     <p className="text-[10px] text-gray-600">相同歌曲、参数与种子将生成完全相同的谱面</p>
+                                 </div>
+
                                  {/* Pro Model Toggle */}
                                  {setUseProModel && (
                                      <div className="space-y-2 mt-2">
@@ -326,6 +368,19 @@ export const SongConfigModal: React.FC<SongConfigModalProps> = ({
                                      </div>
                                  )}
 
+                                 {/* Re-analyse instead of reusing the cached answer for this audio */}
+                                 {setBypassAiCache && !targetSongTitle && !skipAI && (
+                                     <div className={`p-4 rounded-xl border transition-colors cursor-pointer mt-4 ${bypassAiCache ? 'bg-neon-blue/10 border-neon-blue/30' : 'bg-white/5 border-white/10'}`} onClick={() => setBypassAiCache(!bypassAiCache)}>
+                                         <div className="flex items-center gap-3">
+                                             <RefreshCw className={`w-4 h-4 ${bypassAiCache ? 'text-neon-blue' : 'text-gray-500'}`} />
+                                             <div className="flex-1">
+                                                 <div className={`text-xs font-bold ${bypassAiCache ? 'text-neon-blue' : 'text-gray-400'}`}>重新 AI 分析 (忽略缓存)</div>
+                                                 <div className="text-[10px] text-gray-500">同一音频的分析结果会被缓存，开启后重新请求并覆盖</div>
+                                             </div>
+                                         </div>
+                                     </div>
+                                 )}
+
                                  {/* Debug / Skip AI */}
                                  {isDebugMode && (
                                      <div className={`p-4 rounded-xl border transition-colors cursor-pointer mt-4 ${skipAI ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-white/5 border-white/10'}`} onClick={() => setSkipAI(!skipAI)}>
@@ -1,33 +1,74 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import { EditorCanvas } from '../editor/EditorCanvas';
-import { useChartEditor, EditorTool, SnapDivisor } from '../../hooks/useChartEditor';
-import { SavedSong, AITheme, NoteType, KeyConfig } from '../../types';
-import { Play, Pause, Save, LogOut, Plus, Trash2, MousePointer, Magnet, Clock, ChevronDown, Layers, Music, Settings2, AlertTriangle, X, Circle, Mic, Sparkles, Send, Bot, Zap, AudioWaveform, Lock } from 'lucide-react';
+import { TimingPanel } from '../editor/TimingPanel';
+import { TestPlayOverlay } from '../editor/TestPlayOverlay';
+import { useChartEditor, EditorTool, SnapDivisor, NoteKind } from '../../hooks/useChartEditor';
+import { SavedSong, AITheme, NoteType, KeyConfig, TimingPoint, DEFAULT_THEME } from '../../types';
+import { Play, Pause, Save, LogOut, Plus, Trash2, MousePointer, Magnet, Clock, ChevronDown, Layers, Music, Settings2, AlertTriangle, X, Circle, Mic, Sparkles, Send, Bot, Zap, AudioWaveform, Lock, Undo2, Redo2, History, Copy, Scissors, ClipboardPaste, Gamepad2, Repeat } from 'lucide-react';
 import { saveSong, getSongById } from '../../services/storageService';
-import { generatePatternWithGemini } from '../../services/geminiService';
 import { useAppSettings } from '../../hooks/useAppSettings';
+import { useWaveform } from '../../hooks/useWaveform';
 import { sliceAudioBufferToWavBase64 } from '../../utils/fileUtils';
 import { getAudioBufferSlice, preprocessAudioData, computeOnsets } from '../../utils/audioAnalyzer';
+import { getChart, getChartStructure, updateChart } from '../../utils/chartUtils';
+import { calculateDifficultyRating } from '../../utils/beatmapGenerator';
+import { snapTime, getBeatDuration, formatBpm, getTimingPoints } from '../../utils/timing';
+import { validatePatternInstructions, logRepairs } from '../../utils/aiValidation';
+import { PatternTransform } from '../../utils/patternTransforms';
+import { MAX_HISTORY } from '../../utils/editHistory';
 
 interface EditorScreenProps {
     song: SavedSong;
+    chartId?: string | null; // Chart being edited; defaults to the hardest one
     onExit: () => void;
     onSaveSuccess: () => void;
     keyConfig: KeyConfig;
 }
 
-export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSaveSuccess, keyConfig }) => {
+// Selection transforms offered in the properties panel
+const PATTERN_ACTIONS: { label: string; transform: PatternTransform }[] = [
+    { label: '镜像', transform: { kind: 'MIRROR' } },
+    { label: '← 左移', transform: { kind: 'SHIFT', offset: -1 } },
+    { label: '右移 →', transform: { kind: 'SHIFT', offset: 1 } },
+    { label: '随机', transform: { kind: 'SHUFFLE' } },
+    { label: '拉伸 ×2', transform: { kind: 'STRETCH', ratio: 2 } },
+    { label: '压缩 ×½', transform: { kind: 'STRETCH', ratio: 0.5 } },
+    { label: '倒放', transform: { kind: 'REVERSE' } },
+    { label: '转长条', transform: { kind: 'TO_HOLDS' } },
+    { label: '转单点', transform: { kind: 'TO_TAPS' } },
+];
+
+// Select-by-type buttons in the properties panel
+const KIND_FILTERS: { label: string; kind: NoteKind }[] = [
+    { label: '单点', kind: 'NORMAL' },
+    { label: 'Catch', kind: 'CATCH' },
+    { label: '长条', kind: 'HOLD' },
+];
+
+export const EditorScreen: React.FC<EditorScreenProps> = ({ song, chartId, onExit, onSaveSuccess, keyConfig }) => {
+    
+    // Resolve once: the chart must not switch under the editor if the song object refreshes.
+    // App only opens the editor once getChart has found a chart (see handleEditSong)
+    const [chart] = useState(() => getChart(song, chartId)!);
+    const laneCount = chart.laneCount;
     
     const [audioBuffer, setAudioBuffer] = React.useState<AudioBuffer | null>(null);
     const [showExitConfirm, setShowExitConfirm] = useState(false);
-    const [activeTab, setActiveTab] = useState<'PROPS' | 'COPILOT'>('PROPS');
+    const [showWaveform, setShowWaveform] = useState(true);
+    const [showSpectrogram, setShowSpectrogram] = useState(false);
+    const [activeTab, setActiveTab] = useState<'PROPS' | 'TIMING' | 'COPILOT' | 'HISTORY'>('PROPS');
     
     // AI Copilot State
     const [aiPrompt, setAiPrompt] = useState("");
     const [aiIsLoading, setAiIsLoading] = useState(false);
     const [aiTargetBeats, setAiTargetBeats] = useState(16); // Slider controlled
-    const { customApiKey, apiKeyStatus } = useAppSettings();
+    const { aiProvider, isAiReady, audioOffset, scrollSpeed } = useAppSettings();
+
+    // Test-play: the edited chart in GameCanvas from the playhead, or looping the selected span
+    const [testPlay, setTestPlay] = useState<{ start: number; end?: number; returnTime: number } | null>(null);
+    const [testAuto, setTestAuto] = useState(false);
+    const [testLoop, setTestLoop] = useState(false);
 
     // Recording State
     const [isRecording, setIsRecording] = useState(false);
@@ -55,7 +96,7 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
         load();
     }, [song.id]);
 
-    const handleSave = async (newNotes: any[]) => {
+    const handleSave = async (newNotes: any[], timingPoints: TimingPoint[]) => {
         const fullSong = await getSongById(song.id);
         
         if (!fullSong) {
@@ -63,24 +104,28 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
             return;
         }
 
-        const updatedSong = { 
-            ...fullSong, 
+        const updatedSong = updateChart(fullSong, chart.id, c => ({
+            ...c,
             notes: newNotes,
-            audioData: fullSong.audioData 
-        };
+            timingPoints,
+            difficultyRating: newNotes.length > 0 ? calculateDifficultyRating(newNotes, fullSong.duration) : 0
+        }));
         
         await saveSong(updatedSong);
         onSaveSuccess();
     };
 
     const editor = useChartEditor({
-        initialNotes: song.notes,
+        initialNotes: chart.notes,
         audioBuffer: audioBuffer,
         structure: song.structure,
-        laneCount: song.laneCount,
+        initialTimingPoints: getTimingPoints(getChartStructure(song, chart)),
+        laneCount: laneCount,
         onSave: handleSave
     });
 
+    const { waveform, isLoading: waveformLoading } = useWaveform(song.id, audioBuffer);
+
     // --- Unsaved Changes Protection ---
     useEffect(() => {
         const handleBeforeUnload = (e: BeforeUnloadEvent) => {
@@ -108,15 +153,16 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
 
 
     // Helper: Get visual AI region
-    const beatDuration = 60 / editor.bpm;
-    const snappedStartTime = Math.round(editor.currentTime / beatDuration) * beatDuration;
+    // The AI works in beats of the tempo section under the playhead
+    const snappedStartTime = snapTime(editor.timingPoints, editor.currentTime, 1);
+    const beatDuration = getBeatDuration(editor.timingPoints, snappedStartTime);
     // Clamp to audio duration
     const maxDuration = (audioBuffer?.duration || 60) - snappedStartTime;
     const effectiveAiDuration = Math.min(aiTargetBeats * beatDuration, maxDuration);
     const aiEndTime = snappedStartTime + effectiveAiDuration;
     
     const isLongDurationMode = effectiveAiDuration > 25.0;
-    const isApiValid = apiKeyStatus === 'valid';
+    const isApiValid = isAiReady;
 
     // --- AI Copilot Handlers ---
     const handleAiGenerate = async (overridePrompt?: string) => {
@@ -143,8 +189,8 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                 
                 // For Programmatic Alignment (DSP) - ALWAYS ENABLED
                 const slice = getAudioBufferSlice(audioBuffer, snappedStartTime, effectiveAiDuration);
-                const { lowData, fullData } = await preprocessAudioData(slice);
-                const rawOnsets = computeOnsets(lowData, fullData, slice.sampleRate);
+                const { monoData } = await preprocessAudioData(slice);
+                const rawOnsets = computeOnsets(monoData, slice.sampleRate);
                 // Convert relative slice time to absolute song time
                 absoluteOnsets = rawOnsets.map(o => ({ ...o, time: snappedStartTime + o.time }));
             }
@@ -168,71 +214,76 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                     beatOffset: Number(((n.time - snappedStartTime) / beatDuration).toFixed(2))
                 }));
 
-            const result = await generatePatternWithGemini(
-                promptToUse,
-                {
-                    bpm: editor.bpm,
-                    laneCount: song.laneCount,
-                    beatCount: Math.ceil(effectiveAiDuration / beatDuration),
+            const beatCount = Math.ceil(effectiveAiDuration / beatDuration);
+            const result = await aiProvider.generatePattern({
+                prompt: promptToUse,
+                params: {
+                    bpm: 60 / beatDuration,
+                    laneCount: laneCount,
+                    beatCount,
                     startTime: snappedStartTime
                 },
-                {
+                context: {
                     audioBase64: audioContextBase64,
                     precedingNotes: precedingNotes,
                     existingNotesInWindow: existingNotesInWindow,
                     structure: song.structure
-                },
-                customApiKey
-            );
+                }
+            });
 
-            // Execute Instructions sequentially
-            if (result.instructions && result.instructions.length > 0) {
-                
-                for (const instr of result.instructions) {
-                    if (instr.type === 'CLEAR') {
-                        // Delete notes in range, optionally filtering by targetLanes
-                        editor.deleteNotesInRange(snappedStartTime, aiEndTime, instr.lanes);
-                    } 
-                    else if (instr.type === 'ADD' && instr.notes) {
-                        const notesToAdd: { time: number, lane: number, duration: number }[] = [];
+            const { value: instructions, repairs } = validatePatternInstructions(result.instructions, laneCount, beatCount);
+            logRepairs("Copilot", repairs);
+
+            // Execute Instructions sequentially, as a single undo step
+            if (instructions.length > 0) {
+                const summary = promptToUse.length > 24 ? `${promptToUse.slice(0, 24)}…` : promptToUse;
+                editor.runAsGroup(`AI 副驾驶: ${summary}`, () => {
+                    for (const instr of instructions) {
+                        if (instr.type === 'CLEAR') {
+                            // Delete notes in range, optionally filtering by targetLanes
+                            editor.deleteNotesInRange(snappedStartTime, aiEndTime, instr.lanes);
+                        } 
+                        else if (instr.type === 'ADD' && instr.notes) {
+                            const notesToAdd: { time: number, lane: number, duration: number }[] = [];
                         
-                        for (const n of instr.notes) {
-                            let time = snappedStartTime + (n.beatOffset * beatDuration);
+                            for (const n of instr.notes) {
+                                let time = snappedStartTime + (n.beatOffset * beatDuration);
                             
-                            // Programmatic Alignment Logic (Always On)
-                            if (absoluteOnsets.length > 0) {
-                                // Find closest onset within tolerance (150ms)
-                                const snapWindow = 0.15;
-                                let bestOnset = null;
-                                let minDiff = snapWindow;
-
-                                for (const onset of absoluteOnsets) {
-                                    const diff = Math.abs(onset.time - time);
-                                    if (diff < minDiff) {
-                                        minDiff = diff;
-                                        bestOnset = onset;
+                                // Programmatic Alignment Logic (Always On)
+                                if (absoluteOnsets.length > 0) {
+                                    // Find closest onset within tolerance (150ms)
+                                    const snapWindow = 0.15;
+                                    let bestOnset = null;
+                                    let minDiff = snapWindow;
+
+                                    for (const onset of absoluteOnsets) {
+                                        const diff = Math.abs(onset.time - time);
+                                        if (diff < minDiff) {
+                                            minDiff = diff;
+                                            bestOnset = onset;
+                                        }
                                     }
-                                }
 
-                                if (bestOnset) {
-                                    time = bestOnset.time;
+                                    if (bestOnset) {
+                                        time = bestOnset.time;
+                                    }
                                 }
-                            }
                             
-                            // Additional Safety: Clamp time to selected region
-                            if (time < snappedStartTime) time = snappedStartTime;
-                            if (time > aiEndTime) continue; // Skip if snapped outside
-
-                            notesToAdd.push({
-                                time,
-                                lane: n.lane,
-                                duration: n.duration * beatDuration
-                            });
-                        }
+                                // Additional Safety: Clamp time to selected region
+                                if (time < snappedStartTime) time = snappedStartTime;
+                                if (time > aiEndTime) continue; // Skip if snapped outside
+
+                                notesToAdd.push({
+                                    time,
+                                    lane: n.lane,
+                                    duration: n.duration * beatDuration
+                                });
+                            }
                         
-                        editor.bulkAddNotes(notesToAdd);
+                            editor.bulkAddNotes(notesToAdd);
+                        }
                     }
-                }
+                });
             }
         } catch (error) {
             console.error("Copilot Error:", error);
@@ -242,9 +293,49 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
         }
     };
 
+    // --- Edit Shortcuts (undo/redo, clipboard) ---
+    // Registered once; the ref always points at the latest editor so selection and playhead are current
+    const editorRef = useRef(editor);
+    editorRef.current = editor;
+    const isTestPlayingRef = useRef(false);
+    isTestPlayingRef.current = testPlay !== null;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isTestPlayingRef.current) return;
+            // Text fields keep their own native undo and clipboard
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const current = editorRef.current;
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) current.redo();
+                else current.undo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                current.redo();
+            } else if (key === 'c') {
+                e.preventDefault();
+                current.copySelected();
+            } else if (key === 'x') {
+                e.preventDefault();
+                current.cutSelected();
+            } else if (key === 'v') {
+                e.preventDefault();
+                current.pasteAtPlayhead();
+            } else if (key === 'a') {
+                e.preventDefault();
+                current.selectAll();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
     // --- Live Recording Logic ---
     useEffect(() => {
-        const currentKeys = song.laneCount === 4 ? keyConfig.k4 : keyConfig.k6;
+        const currentKeys = laneCount === 4 ? keyConfig.k4 : keyConfig.k6;
 
         const handleKeyDown = (e: KeyboardEvent) => {
             if (!isRecording || !editor.isPlaying || e.repeat) return;
@@ -293,7 +384,7 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [isRecording, editor.isPlaying, keyConfig, song.laneCount, recordSnap]);
+    }, [isRecording, editor.isPlaying, keyConfig, laneCount, recordSnap]);
 
 
     const handleExitRequest = () => {
@@ -304,6 +395,26 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
         }
     };
 
+    const startTestPlay = () => {
+        if (!audioBuffer || isRecording) return;
+        if (editor.isPlaying) editor.togglePlay();
+        const selected = editor.notes.filter(n => editor.selectedNoteIds.has(n.id));
+        if (testLoop && selected.length > 0) {
+            const start = Math.min(...selected.map(n => n.time));
+            const lastEnd = Math.max(...selected.map(n => n.time + n.duration));
+            // One beat of tail so the last note isn't cut off before the loop restarts
+            const end = Math.min(audioBuffer.duration, lastEnd + getBeatDuration(editor.timingPoints, lastEnd));
+            setTestPlay({ start, end, returnTime: editor.currentTime });
+        } else {
+            setTestPlay({ start: editor.currentTime, returnTime: editor.currentTime });
+        }
+    };
+
+    const exitTestPlay = () => {
+        if (testPlay) editor.seek(testPlay.returnTime);
+        setTestPlay(null);
+    };
+
     const toggleRecording = () => {
         if (isRecording) {
             setIsRecording(false);
@@ -425,10 +536,54 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                     >
                         {editor.isPlaying ? <Pause className="w-4 h-4 fill-current"/> : <Play className="w-4 h-4 fill-current ml-0.5"/>}
                     </button>
+
+                    {/* Test-play */}
+                    <div className="flex items-center gap-1 bg-black/30 p-1 rounded-full border border-white/5">
+                        <button
+                            onClick={startTestPlay}
+                            disabled={!audioBuffer || isRecording}
+                            className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+                            title={testLoop ? '循环试玩选中范围 (无选中时从播放头开始)' : '从播放头开始试玩'}
+                        >
+                            <Gamepad2 className="w-3.5 h-3.5" /> 试玩
+                        </button>
+                        <button
+                            onClick={() => setTestAuto(!testAuto)}
+                            className={`p-1.5 rounded-full border transition-all ${testAuto ? 'bg-neon-purple/20 border-neon-purple text-neon-purple' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+                            title={`自动演奏: ${testAuto ? '开' : '关'}`}
+                        >
+                            <Bot className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={() => setTestLoop(!testLoop)}
+                            className={`p-1.5 rounded-full border transition-all ${testLoop ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+                            title={`循环选中范围: ${testLoop ? '开' : '关'}`}
+                        >
+                            <Repeat className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
                 </div>
 
                 {/* Right: Info & Save */}
                 <div className="flex items-center gap-4 min-w-[200px] justify-end">
+                     <div className="flex items-center gap-1">
+                         <button
+                            onClick={editor.undo}
+                            disabled={!editor.canUndo}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                            title="撤销 (Ctrl+Z)"
+                         >
+                             <Undo2 className="w-4 h-4" />
+                         </button>
+                         <button
+                            onClick={editor.redo}
+                            disabled={!editor.canRedo}
+                            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                            title="重做 (Ctrl+Shift+Z)"
+                         >
+                             <Redo2 className="w-4 h-4" />
+                         </button>
+                     </div>
                      <div className="flex items-center gap-2 text-xs font-mono text-gray-400 bg-black/30 px-3 py-1.5 rounded-lg border border-white/5">
                          <Clock className="w-3 h-3"/>
                          <span className="w-12 text-right">{editor.currentTime.toFixed(3)}s</span>
@@ -458,6 +613,13 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                         >
                             <Settings2 className="w-3 h-3" /> 属性
                         </button>
+                        <button 
+                            onClick={() => setActiveTab('TIMING')}
+                            className={`px-4 py-3 text-xs font-black uppercase tracking-widest flex items-center justify-center gap-2 border-b-2 transition-all ${activeTab === 'TIMING' ? 'text-neon-blue border-neon-blue' : 'text-gray-600 border-transparent hover:text-gray-400'}`}
+                            title="节拍网格"
+                        >
+                            <Clock className="w-3 h-3" />
+                        </button>
                         <button 
                             onClick={() => setActiveTab('COPILOT')}
                             className={`flex-1 py-3 text-xs font-black uppercase tracking-widest flex items-center justify-center gap-2 border-b-2 transition-all ${activeTab === 'COPILOT' ? 'text-neon-purple border-neon-purple' : 'text-gray-600 border-transparent hover:text-gray-400'}`}
@@ -465,6 +627,13 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                             <Sparkles className="w-3 h-3" /> AI Copilot 
                             <span className="bg-neon-purple/20 text-neon-purple border border-neon-purple/50 px-1.5 py-0.5 rounded text-[8px] font-bold">BETA</span>
                         </button>
+                        <button 
+                            onClick={() => setActiveTab('HISTORY')}
+                            className={`px-4 py-3 text-xs font-black uppercase tracking-widest flex items-center justify-center gap-2 border-b-2 transition-all ${activeTab === 'HISTORY' ? 'text-neon-blue border-neon-blue' : 'text-gray-600 border-transparent hover:text-gray-400'}`}
+                            title="历史记录"
+                        >
+                            <History className="w-3 h-3" />
+                        </button>
                     </div>
                     
                     <div className="p-4 space-y-6 overflow-y-auto custom-scrollbar flex-1 relative">
@@ -496,11 +665,11 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                                                     />
                                                 </div>
                                                 <div>
-                                                    <label className="text-[10px] text-gray-400 block mb-1">轨道 (0-{song.laneCount-1})</label>
+                                                    <label className="text-[10px] text-gray-400 block mb-1">轨道 (0-{laneCount-1})</label>
                                                     <input 
-                                                        type="number" min="0" max={song.laneCount-1}
+                                                        type="number" min="0" max={laneCount-1}
                                                         value={singleNote.lane}
-                                                        onChange={(e) => editor.updateNote(singleNote.id, { lane: Math.min(song.laneCount-1, Math.max(0, Number(e.target.value))) as any })}
+                                                        onChange={(e) => editor.updateNote(singleNote.id, { lane: Math.min(laneCount-1, Math.max(0, Number(e.target.value))) as any })}
                                                         className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs font-mono text-white outline-none focus:border-neon-blue"
                                                     />
                                                 </div>
@@ -553,6 +722,104 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                                         </div>
                                     )}
 
+                                    {/* Selection Filters (Shift-click adds to the selection) */}
+                                    <div className="space-y-2">
+                                        <div className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">选择</div>
+                                        <div className="grid grid-cols-3 gap-1.5">
+                                            <button
+                                                onClick={editor.selectAll}
+                                                className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                                                title="Ctrl+A"
+                                            >
+                                                全选
+                                            </button>
+                                            <button
+                                                onClick={(e) => editor.selectSectionAt(editor.currentTime, e.shiftKey)}
+                                                disabled={!song.structure?.sections.length}
+                                                className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30"
+                                                title="选中播放头所在段落 (也可在轨道空白处双击)"
+                                            >
+                                                当前段落
+                                            </button>
+                                            <button
+                                                onClick={editor.clearSelection}
+                                                disabled={editor.selectedNoteIds.size === 0}
+                                                className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30"
+                                            >
+                                                清除
+                                            </button>
+                                        </div>
+                                        <div className="flex gap-1.5">
+                                            {Array.from({ length: laneCount }, (_, lane) => (
+                                                <button
+                                                    key={lane}
+                                                    onClick={(e) => editor.selectLane(lane, e.shiftKey)}
+                                                    className="flex-1 py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-mono font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                                                    title={`选中轨道 ${lane + 1} (也可 Alt+点击轨道)`}
+                                                >
+                                                    {lane + 1}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="grid grid-cols-3 gap-1.5">
+                                            {KIND_FILTERS.map(filter => (
+                                                <button
+                                                    key={filter.kind}
+                                                    onClick={(e) => editor.selectByKind(filter.kind, e.shiftKey)}
+                                                    className="py-1.5 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                                                >
+                                                    {filter.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {/* Clipboard */}
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <button
+                                            onClick={editor.copySelected}
+                                            disabled={editor.selectedNoteIds.size === 0}
+                                            className="py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 flex items-center justify-center gap-1"
+                                            title="Ctrl+C"
+                                        >
+                                            <Copy className="w-3 h-3" /> 复制
+                                        </button>
+                                        <button
+                                            onClick={editor.cutSelected}
+                                            disabled={editor.selectedNoteIds.size === 0}
+                                            className="py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 flex items-center justify-center gap-1"
+                                            title="Ctrl+X"
+                                        >
+                                            <Scissors className="w-3 h-3" /> 剪切
+                                        </button>
+                                        <button
+                                            onClick={editor.pasteAtPlayhead}
+                                            disabled={editor.clipboardSize === 0}
+                                            className="py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 flex items-center justify-center gap-1"
+                                            title="Ctrl+V：粘贴到播放头 (按当前吸附对齐)"
+                                        >
+                                            <ClipboardPaste className="w-3 h-3" /> 粘贴{editor.clipboardSize > 0 && ` (${editor.clipboardSize})`}
+                                        </button>
+                                    </div>
+
+                                    {/* Pattern Transforms */}
+                                    {editor.selectedNoteIds.size > 0 && (
+                                        <div className="space-y-2">
+                                            <div className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">变换选中项</div>
+                                            <div className="grid grid-cols-4 gap-1.5">
+                                                {PATTERN_ACTIONS.map(action => (
+                                                    <button
+                                                        key={action.label}
+                                                        onClick={() => editor.transformSelected(action.transform)}
+                                                        className="py-2 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-300 hover:bg-neon-blue/10 hover:border-neon-blue/40 hover:text-white transition-colors"
+                                                    >
+                                                        {action.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+
                                     {editor.selectedNoteIds.size > 0 && (
                                         <button 
                                             onClick={editor.deleteSelected} 
@@ -573,7 +840,7 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                                             <Mic className="w-3 h-3" /> 录制中
                                         </h3>
                                         <p className="text-[10px] text-gray-400 leading-relaxed">
-                                            按下对应轨道键 ({song.laneCount === 4 ? 'D F J K' : 'S D F J K L'}) 实时输入。<br/>
+                                            按下对应轨道键 ({laneCount === 4 ? 'D F J K' : 'S D F J K L'}) 实时输入。<br/>
                                             <span className="text-white">长按</span>自动生成长条。<br/>
                                             当前吸附：<span className={recordSnap ? 'text-neon-blue' : 'text-gray-500'}>{recordSnap ? '开启' : '关闭'}</span>
                                         </p>
@@ -593,22 +860,87 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                                         onChange={(e) => editor.setZoomLevel(Number(e.target.value))}
                                         className="w-full accent-neon-blue h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"
                                     />
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button
+                                            onClick={() => setShowWaveform(v => !v)}
+                                            className={`py-1.5 rounded-lg text-[10px] font-bold border transition-colors ${showWaveform ? 'bg-neon-blue/10 border-neon-blue/40 text-neon-blue' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+                                            title="波形与检测到的节奏点"
+                                        >
+                                            波形
+                                        </button>
+                                        <button
+                                            onClick={() => setShowSpectrogram(v => !v)}
+                                            className={`py-1.5 rounded-lg text-[10px] font-bold border transition-colors ${showSpectrogram ? 'bg-neon-blue/10 border-neon-blue/40 text-neon-blue' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+                                        >
+                                            频谱
+                                        </button>
+                                    </div>
                                 </div>
 
                                 {/* Song Info (Read-only) */}
                                 <div className="bg-white/5 p-3 rounded-xl border border-white/5 space-y-2 mt-4">
                                     <div className="flex justify-between items-center">
                                         <span className="text-xs text-gray-400">BPM</span>
-                                        <span className="text-sm font-mono font-bold text-white">{Math.round(song.structure.bpm)}</span>
+                                        <span className="text-sm font-mono font-bold text-white">{formatBpm({ bpm: editor.bpm, timingPoints: editor.timingPoints })}</span>
                                     </div>
                                     <div className="flex justify-between items-center">
                                         <span className="text-xs text-gray-400">轨道数</span>
-                                        <span className="text-sm font-bold text-white">{song.laneCount} Key</span>
+                                        <span className="text-sm font-bold text-white">{laneCount} Key</span>
                                     </div>
                                 </div>
                             </>
                         )}
 
+                        {/* === TIMING TAB === */}
+                        {activeTab === 'TIMING' && (
+                            <TimingPanel
+                                timingPoints={editor.timingPoints}
+                                currentTime={editor.currentTime}
+                                onAdd={editor.addTimingPoint}
+                                onUpdate={editor.updateTimingPoint}
+                                onDelete={editor.deleteTimingPoint}
+                                onSetOffset={editor.setGridOffset}
+                                onApplyBpm={editor.setBpmAtPlayhead}
+                                onSeek={editor.seek}
+                            />
+                        )}
+
+                        {/* === HISTORY TAB === */}
+                        {activeTab === 'HISTORY' && (
+                            <div className="space-y-3 animate-fade-in">
+                                <div className="flex justify-between items-center">
+                                    <div className="text-xs text-gray-500 font-bold uppercase tracking-wider">历史记录</div>
+                                    <span className="text-[10px] text-gray-600 font-mono">{editor.history.past.length} / {editor.history.past.length + editor.history.future.length}</span>
+                                </div>
+                                <div className="space-y-1">
+                                    {/* Row i restores the state after i steps; row 0 is the chart as opened, or the oldest kept state once the history was trimmed */}
+                                    {[null, ...editor.history.past, ...editor.history.future].map((command, i) => {
+                                        const isCurrent = i === editor.history.past.length;
+                                        const isUndone = i > editor.history.past.length;
+                                        return (
+                                            <button
+                                                key={command ? command.id : 'initial'}
+                                                onClick={() => editor.jumpToHistory(i)}
+                                                className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs text-left border transition-colors
+                                                    ${isCurrent ? 'bg-neon-blue/10 border-neon-blue/40 text-white' : 'border-transparent hover:bg-white/5'}
+                                                    ${isUndone ? 'text-gray-600 italic' : isCurrent ? '' : 'text-gray-300'}`}
+                                            >
+                                                <span className="truncate">{command ? command.label : editor.history.baseId ? `更早的步骤已丢弃 (最多保留 ${MAX_HISTORY} 步)` : '打开谱面'}</span>
+                                                {command && (
+                                                    <span className="text-[10px] font-mono text-gray-600 shrink-0">
+                                                        {new Date(command.timestamp).toLocaleTimeString()}
+                                                    </span>
+                                                )}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                <div className="text-[10px] text-gray-600 leading-relaxed">
+                                    点击任意一步即可回到该状态。Ctrl+Z 撤销 · Ctrl+Shift+Z 重做
+                                </div>
+                            </div>
+                        )}
+
                         {/* === COPILOT TAB === */}
                         {activeTab === 'COPILOT' && (
                             <div className="space-y-6 animate-fade-in h-full flex flex-col relative">
@@ -706,7 +1038,7 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                     </div>
                     
                     <div className="p-4 border-t border-white/5 text-[10px] text-gray-600 text-center">
-                        左键创建/选择 • 右键删除 • 拖拽创建长条
+                        左键创建/选择 • 右键删除 • 拖拽创建长条 • 框选 / 拖动选中项移动 • 双击选段落
                     </div>
                 </div>
 
@@ -716,9 +1048,9 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                         notes={editor.notes}
                         currentTime={editor.currentTime}
                         duration={audioBuffer?.duration || 60}
-                        laneCount={song.laneCount}
+                        laneCount={laneCount}
                         theme={song.theme || { primaryColor: '#00f3ff', secondaryColor: '#bd00ff', catchColor: '#f9f871' } as AITheme}
-                        bpm={song.structure.bpm}
+                        timingPoints={editor.timingPoints}
                         snapDivisor={editor.snapDivisor}
                         zoomLevel={editor.zoomLevel}
                         activeTool={editor.activeTool}
@@ -728,11 +1060,24 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                         onNoteClick={editor.toggleSelection}
                         onNoteRightClick={editor.deleteNote}
                         getSnapTime={editor.getSnapTime}
+                        sections={song.structure?.sections}
+                        onSelectBox={editor.selectInBox}
+                        onSelectSection={editor.selectSectionAt}
+                        onSelectLane={editor.selectLane}
+                        onMoveSelection={editor.moveSelected}
+                        waveform={waveform}
+                        showWaveform={showWaveform}
+                        showSpectrogram={showSpectrogram}
                         activeRecordingLanes={activeRecordingLanes.current}
                         recordSnap={recordSnap}
                         // Pass visual region to canvas
                         aiRegion={activeTab === 'COPILOT' ? { start: snappedStartTime, end: aiEndTime } : undefined}
                      />
+                     {waveformLoading && (showWaveform || showSpectrogram) && (
+                         <div className="absolute top-4 left-4 bg-black/60 border border-white/10 text-gray-400 text-[10px] font-bold px-3 py-1 rounded-full flex items-center gap-2 pointer-events-none">
+                             <AudioWaveform className="w-3 h-3 animate-pulse" /> 波形生成中...
+                         </div>
+                     )}
                      {isRecording && (
                          <div className="absolute top-4 right-4 bg-red-500 text-white text-xs font-bold px-3 py-1 rounded-full animate-pulse shadow-lg pointer-events-none">
                              REC
@@ -741,6 +1086,24 @@ export const EditorScreen: React.FC<EditorScreenProps> = ({ song, onExit, onSave
                 </div>
             </div>
 
+            {/* Test-play Overlay */}
+            {testPlay && audioBuffer && (
+                <TestPlayOverlay
+                    audioBuffer={audioBuffer}
+                    notes={editor.notes}
+                    structure={{ sections: [], ...song.structure, bpm: editor.bpm, timingPoints: editor.timingPoints }}
+                    theme={song.theme || DEFAULT_THEME}
+                    laneCount={laneCount}
+                    keyBindings={laneCount === 4 ? keyConfig.k4 : keyConfig.k6}
+                    audioOffset={audioOffset}
+                    scrollSpeed={scrollSpeed}
+                    startTime={testPlay.start}
+                    endTime={testPlay.end}
+                    auto={testAuto}
+                    onExit={exitTestPlay}
+                />
+            )}
+
             {/* Exit Confirmation Modal */}
             {showExitConfirm && (
                 <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
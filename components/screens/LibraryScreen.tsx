@@ -2,8 +2,13 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { Upload, Trash2, Download, CheckSquare, Music, Clock, Zap, Plus, Trophy, Disc, Info, X, Calendar, Loader2, AlertTriangle, Heart, SortAsc, ChevronDown, Type, Search } from 'lucide-react';
 import { SavedSong } from '../../types';
-import { deleteSong, updateSongMetadata, exportSongAsZip, toggleFavorite } from '../../services/storageService';
+import { deleteSong, updateSongMetadata, exportSongAsZip, exportSongAsOsz, exportSongAsSm, toggleFavorite } from '../../services/storageService';
 import { calculateAccuracy, calculateRating } from '../../utils/scoring';
+import { getChart, getSongMaxRating } from '../../utils/chartUtils';
+
+// Best potential a song offers across all of its charts
+const getSongRating = (song: SavedSong) => song.charts.reduce((max, c) => 
+    c.bestResult ? Math.max(max, calculateRating(c.difficultyRating, c.bestResult.score)) : max, 0);
 
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
@@ -57,6 +62,7 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
   const [showExportModal, setShowExportModal] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [includeHistory, setIncludeHistory] = useState(true);
+  const [exportFormat, setExportFormat] = useState<'NFZ' | 'OSZ' | 'SM'>('NFZ');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const audioInputRef = useRef<HTMLInputElement>(null);
@@ -86,12 +92,9 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
           switch (sortOption) {
               case 'DATE_NEW': return b.createdAt - a.createdAt;
               case 'TITLE_ASC': return a.title.localeCompare(b.title);
-              case 'DIFFICULTY_DESC': return b.difficultyRating - a.difficultyRating;
-              case 'DIFFICULTY_ASC': return a.difficultyRating - b.difficultyRating;
-              case 'RATING_DESC': 
-                  const valA = a.bestResult ? calculateRating(a.difficultyRating, a.bestResult.score) : 0;
-                  const valB = b.bestResult ? calculateRating(b.difficultyRating, b.bestResult.score) : 0;
-                  return valB - valA;
+              case 'DIFFICULTY_DESC': return getSongMaxRating(b) - getSongMaxRating(a);
+              case 'DIFFICULTY_ASC': return getSongMaxRating(a) - getSongMaxRating(b);
+              case 'RATING_DESC': return getSongRating(b) - getSongRating(a);
               default: return 0;
           }
       });
@@ -100,9 +103,10 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
 
   const playerRating = useMemo(() => {
       const ratings = songs
-          .map(s => {
-              if (!s.bestResult) return 0;
-              return calculateRating(s.difficultyRating, s.bestResult.score);
+          .flatMap(s => s.charts)
+          .map(c => {
+              if (!c.bestResult) return 0;
+              return calculateRating(c.difficultyRating, c.bestResult.score);
           })
           .sort((a, b) => b - a)
           .slice(0, 10);
@@ -164,7 +168,13 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
      setIsExporting(true);
      try {
          const songsToExport = songs.filter(s => selectedIds.has(s.id));
-         for (const song of songsToExport) await exportSongAsZip(song, includeHistory);
+         const warnings: string[] = [];
+         for (const song of songsToExport) {
+             if (exportFormat === 'OSZ') await exportSongAsOsz(song);
+             else if (exportFormat === 'SM') await exportSongAsSm(song, w => warnings.push(`${song.title} - ${w}`));
+             else await exportSongAsZip(song, includeHistory);
+         }
+         if (warnings.length > 0) alert(`导出完成，但有以下限制：\n${warnings.join('\n')}`);
          setShowExportModal(false);
          setSelectedIds(new Set());
          setIsSelectionMode(false);
@@ -310,7 +320,8 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
       <div className="flex-1 overflow-y-auto custom-scrollbar px-4 md:px-6 pb-24">
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
               {processedSongs.map(song => {
-                  const levelInfo = (song as any)._displayLevel || getLevelDisplay(song.difficultyRating);
+                  const levelInfo = (song as any)._displayLevel || getLevelDisplay(getSongMaxRating(song));
+                  const topChart = getChart(song);
                   const secondaryColor = song.theme?.secondaryColor || '#222';
                   
                   return (
@@ -369,6 +380,9 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
                                          >
                                              <span className="font-black italic text-xl text-white drop-shadow-md" style={{ color: levelInfo.color }}>{levelInfo.val}</span>
                                          </div>
+                                         {song.charts.length > 1 && (
+                                             <span className="mt-1 text-[8px] font-bold text-gray-400 uppercase tracking-wider">{song.charts.length} 难度</span>
+                                         )}
                                      </div>
 
                                      {!isSelectionMode && (
@@ -391,14 +405,14 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
                                  </div>
 
                                  {/* Right: Best Result (Isolated) */}
-                                 {!isSelectionMode && song.bestResult && (
+                                 {!isSelectionMode && topChart?.bestResult && (
                                      <div className="pointer-events-auto">
-                                         <div className={`px-2 py-1 rounded-lg backdrop-blur-md border border-white/10 bg-black/60 flex flex-col items-center shadow-lg ${song.bestResult.rank === 'S+' || song.bestResult.rank === 'SS' || song.bestResult.rank === 'OPUS' ? 'border-neon-blue/30' : ''}`}>
-                                             <span className={`text-xl font-black italic drop-shadow-md ${song.bestResult.rank === 'φ' ? 'text-cyan-200' : 'text-white'}`}>
-                                                 {song.bestResult.rank}
+                                         <div className={`px-2 py-1 rounded-lg backdrop-blur-md border border-white/10 bg-black/60 flex flex-col items-center shadow-lg ${topChart.bestResult.rank === 'S+' || topChart.bestResult.rank === 'SS' || topChart.bestResult.rank === 'OPUS' ? 'border-neon-blue/30' : ''}`}>
+                                             <span className={`text-xl font-black italic drop-shadow-md ${topChart.bestResult.rank === 'φ' ? 'text-cyan-200' : 'text-white'}`}>
+                                                 {topChart.bestResult.rank}
                                              </span>
                                              <span className="text-[8px] font-bold text-gray-400">
-                                                 {Math.floor(song.bestResult.score / 10000)}W
+                                                 {Math.floor(topChart.bestResult.score / 10000)}W
                                              </span>
                                          </div>
                                      </div>
@@ -418,7 +432,7 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
 
       {/* Hidden File Inputs */}
       <input type="file" ref={audioInputRef} className="hidden" accept="audio/*,.flac" onChange={onImportAudioClick} />
-      <input type="file" ref={mapInputRef} className="hidden" accept=".json,.nfz" multiple onChange={onImportMapClick} />
+      <input type="file" ref={mapInputRef} className="hidden" accept=".json,.nfz,.osz,.osu,.sm,.ssc,.zip,audio/*" multiple onChange={onImportMapClick} />
 
       {/* Modals */}
       {showExportModal && (
@@ -427,10 +441,27 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
                   <h3 className="text-xl font-black text-white mb-4 flex items-center gap-2"><Download className="w-5 h-5 text-neon-blue"/> 导出乐谱</h3>
                   <div className="mb-6">
                       <p className="text-sm text-gray-300 mb-4">即将导出 {selectedIds.size} 首乐谱。</p>
-                      <label className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 cursor-pointer hover:bg-white/10 transition">
-                          <input type="checkbox" checked={includeHistory} onChange={e => setIncludeHistory(e.target.checked)} className="w-4 h-4 accent-neon-blue" />
-                          <span className="text-sm font-bold text-gray-300">包含历史最佳成绩</span>
-                      </label>
+                      <div className="flex gap-2 mb-3">
+                          {(['NFZ', 'OSZ', 'SM'] as const).map(fmt => (
+                              <button 
+                                  key={fmt}
+                                  onClick={() => setExportFormat(fmt)}
+                                  className={`flex-1 py-2 rounded-xl text-xs font-bold border transition-colors ${exportFormat === fmt ? 'bg-neon-blue/20 border-neon-blue text-neon-blue' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                              >
+                                  {fmt === 'NFZ' ? 'NeonFlow (.nfz)' : fmt === 'OSZ' ? 'osu!mania (.osz)' : 'StepMania (.sm)'}
+                              </button>
+                          ))}
+                      </div>
+                      {exportFormat === 'NFZ' ? (
+                          <label className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10 cursor-pointer hover:bg-white/10 transition">
+                              <input type="checkbox" checked={includeHistory} onChange={e => setIncludeHistory(e.target.checked)} className="w-4 h-4 accent-neon-blue" />
+                              <span className="text-sm font-bold text-gray-300">包含历史最佳成绩</span>
+                          </label>
+                      ) : (
+                          <p className="text-xs text-gray-500">
+                              {exportFormat === 'OSZ' ? '每个难度导出为一个 .osu 谱面' : '所有难度写入同一个 .sm 文件，与音频一起打包为 .zip'}，Catch 音符将转为普通音符。
+                          </p>
+                      )}
                   </div>
                   <div className="flex gap-3">
                       <button onClick={() => setShowExportModal(false)} className="flex-1 py-3 bg-white/10 rounded-xl font-bold hover:bg-white/20 transition-colors text-sm">取消</button>
@@ -1,14 +1,22 @@
 
-import React from 'react';
-import { Disc, Music, Trophy, Play, Edit3, Clock, Zap, Star, ArrowLeft } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Disc, Music, Trophy, Play, Edit3, Clock, Zap, Star, ArrowLeft, Film, Plus, Trash2, Dices } from 'lucide-react';
 import { SavedSong } from '../../types';
+import { getChart, getSortedCharts } from '../../utils/chartUtils';
 import { calculateAccuracy } from '../../utils/scoring';
+import { isReplayPlayable } from '../../utils/replay';
+import { formatBpm } from '../../utils/timing';
 
 interface SongDetailsScreenProps {
     song: SavedSong;
     onBack: () => void;
-    onStart: (song: SavedSong) => void;
-    onEdit?: (song: SavedSong) => void;
+    onStart: (song: SavedSong, chartId: string) => void;
+    onEdit?: (song: SavedSong, chartId: string) => void;
+    onWatchReplay?: (song: SavedSong, chartId: string) => void;
+    onAddChart?: (song: SavedSong) => void;
+    onDeleteChart?: (song: SavedSong, chartId: string) => void;
+    onRerollChart?: (song: SavedSong, chartId: string) => void;
+    initialChartId?: string | null;
 }
 
 const formatTime = (seconds: number) => {
@@ -17,9 +25,22 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBack, onStart, onEdit }) => {
-    const accuracy = song.bestResult 
-        ? calculateAccuracy(song.bestResult.perfect, song.bestResult.good, song.notes.length)
+export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBack, onStart, onEdit, onWatchReplay, onAddChart, onDeleteChart, onRerollChart, initialChartId }) => {
+    const charts = getSortedCharts(song);
+    const [selectedChartId, setSelectedChartId] = useState<string | null>(initialChartId || null);
+
+    // Keep the selection valid when the song's chart set changes (e.g. after a delete)
+    useEffect(() => {
+        if (!selectedChartId || !song.charts.some(c => c.id === selectedChartId)) {
+            setSelectedChartId(getChart(song, initialChartId)?.id || null);
+        }
+    }, [song, initialChartId]);
+
+    const chart = getChart(song, selectedChartId);
+    if (!chart) return null;
+
+    const accuracy = chart.bestResult 
+        ? calculateAccuracy(chart.bestResult.perfect, chart.bestResult.good, chart.notes.length)
         : 0;
 
     const themeColor = song.theme?.primaryColor || '#00f3ff';
@@ -94,10 +115,11 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                         <div className="flex flex-wrap gap-2 mb-4 justify-center md:justify-start">
                             <span className="px-3 py-1 rounded-full bg-white/10 border border-white/5 text-[10px] font-bold text-white uppercase tracking-wider backdrop-blur-md flex items-center gap-1.5">
                                 <Zap className="w-3 h-3 text-yellow-400" />
-                                {song.difficultyRating.toFixed(1)} Difficulty
+                                {chart.difficultyRating.toFixed(1)} Difficulty
+                                {chart.generation && <span className="text-gray-400 normal-case">(目标 Lv.{chart.generation.difficulty})</span>}
                             </span>
                             <span className="px-3 py-1 rounded-full bg-white/10 border border-white/5 text-[10px] font-bold text-white uppercase tracking-wider backdrop-blur-md">
-                                {song.laneCount} KEY
+                                {chart.laneCount} KEY
                             </span>
                         </div>
                         <h1 className="text-3xl md:text-6xl font-black text-white leading-tight mb-2 tracking-tighter drop-shadow-2xl line-clamp-2">
@@ -108,6 +130,49 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                         </p>
                     </div>
 
+                    {/* Chart Selector */}
+                    <div className="flex flex-wrap gap-2 mb-6 justify-center md:justify-start">
+                        {charts.map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => setSelectedChartId(c.id)}
+                                className={`px-3 py-2 rounded-xl border text-xs font-bold uppercase tracking-wider transition-all flex items-center gap-2
+                                    ${c.id === chart.id ? 'bg-white text-black border-white' : 'bg-black/30 text-gray-400 border-white/10 hover:text-white hover:border-white/30'}`}
+                            >
+                                <span>{c.difficultyName}</span>
+                                <span className="font-mono opacity-60">{c.difficultyRating.toFixed(1)}</span>
+                                <span className="opacity-60">{c.laneCount}K</span>
+                            </button>
+                        ))}
+                        {onAddChart && (
+                            <button
+                                onClick={() => onAddChart(song)}
+                                className="px-3 py-2 rounded-xl border border-dashed border-white/20 text-xs font-bold text-gray-400 hover:text-white hover:border-white/40 transition-all flex items-center gap-1.5"
+                                title="为这首歌生成新的难度"
+                            >
+                                <Plus className="w-3.5 h-3.5" /> 新难度
+                            </button>
+                        )}
+                        {onRerollChart && chart.generation && (
+                            <button
+                                onClick={() => onRerollChart(song, chart.id)}
+                                className="px-3 py-2 rounded-xl border border-white/10 text-xs font-bold text-gray-400 hover:text-white hover:border-white/30 transition-all flex items-center gap-1.5"
+                                title={`种子 ${chart.generation.seed} — 用新种子重新生成当前难度`}
+                            >
+                                <Dices className="w-3.5 h-3.5" /> 重随
+                            </button>
+                        )}
+                        {onDeleteChart && charts.length > 1 && (
+                            <button
+                                onClick={() => onDeleteChart(song, chart.id)}
+                                className="px-3 py-2 rounded-xl border border-white/10 text-xs font-bold text-red-400/70 hover:text-red-400 hover:border-red-500/40 transition-all"
+                                title="删除当前难度"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+
                     {/* Stats Grid */}
                     <div className="grid grid-cols-3 gap-3 md:gap-4 mb-8">
                         <div className="bg-black/30 backdrop-blur-md rounded-2xl p-4 border border-white/5 flex flex-col justify-between hover:bg-white/5 transition-colors">
@@ -120,14 +185,14 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                         <div className="bg-black/30 backdrop-blur-md rounded-2xl p-4 border border-white/5 flex flex-col justify-between hover:bg-white/5 transition-colors">
                             <Zap className="w-5 h-5 text-gray-500 mb-2" />
                             <div>
-                                <div className="text-xl font-bold text-white">{Math.round(song.structure.bpm)}</div>
+                                <div className="text-xl font-bold text-white">{formatBpm(song.structure)}</div>
                                 <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">BPM</div>
                             </div>
                         </div>
                         <div className="bg-black/30 backdrop-blur-md rounded-2xl p-4 border border-white/5 flex flex-col justify-between hover:bg-white/5 transition-colors">
                             <Music className="w-5 h-5 text-gray-500 mb-2" />
                             <div>
-                                <div className="text-xl font-bold text-white">{song.notes.length}</div>
+                                <div className="text-xl font-bold text-white">{chart.notes.length}</div>
                                 <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">Notes</div>
                             </div>
                         </div>
@@ -139,11 +204,11 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                             <Trophy className="w-32 h-32 text-white" />
                         </div>
                         
-                        {song.bestResult ? (
+                        {chart.bestResult ? (
                             <>
                                 <div className="relative shrink-0">
                                     <div className="text-6xl md:text-7xl font-black italic text-transparent bg-clip-text bg-gradient-to-b from-white to-gray-400 drop-shadow-lg relative z-10">
-                                        {song.bestResult.rank}
+                                        {chart.bestResult.rank}
                                     </div>
                                     <div className="absolute inset-0 blur-xl opacity-50 bg-white/20"></div>
                                 </div>
@@ -152,12 +217,20 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                                 
                                 <div className="space-y-1 z-10">
                                     <div className="text-3xl md:text-4xl font-black text-white tracking-tighter">
-                                        {song.bestResult.score.toLocaleString()}
+                                        {chart.bestResult.score.toLocaleString()}
                                     </div>
                                     <div className="flex flex-wrap gap-4 text-xs font-bold text-gray-400">
                                         <span className="flex items-center gap-1"><TargetIcon/> {accuracy}% ACC</span>
-                                        <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-500"/> {song.bestResult.maxCombo}x COMBO</span>
+                                        <span className="flex items-center gap-1"><Star className="w-3 h-3 text-yellow-500"/> {chart.bestResult.maxCombo}x COMBO</span>
                                     </div>
+                                    {onWatchReplay && isReplayPlayable(chart.bestResult.replay, chart) && (
+                                        <button 
+                                            onClick={() => onWatchReplay(song, chart.id)}
+                                            className="mt-2 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 border border-white/10 text-[10px] font-bold text-white uppercase tracking-widest flex items-center gap-1.5 transition-colors"
+                                        >
+                                            <Film className="w-3 h-3" /> 观看回放
+                                        </button>
+                                    )}
                                 </div>
                             </>
                         ) : (
@@ -172,7 +245,7 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                     <div className="mt-8 flex gap-4">
                         {onEdit && (
                             <button 
-                                onClick={() => onEdit(song)} 
+                                onClick={() => onEdit(song, chart.id)} 
                                 className="hidden md:flex px-8 py-5 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 text-white font-bold transition-all items-center gap-2 group hover:scale-[1.02]"
                             >
                                 <Edit3 className="w-5 h-5 group-hover:scale-110 transition-transform" />
@@ -180,7 +253,7 @@ export const SongDetailsScreen: React.FC<SongDetailsScreenProps> = ({ song, onBa
                             </button>
                         )}
                         <button 
-                            onClick={() => onStart(song)} 
+                            onClick={() => onStart(song, chart.id)} 
                             className="flex-1 py-5 rounded-2xl bg-white text-black font-black text-xl uppercase tracking-[0.2em] hover:bg-neon-blue transition-all shadow-[0_0_30px_rgba(255,255,255,0.3)] hover:shadow-[0_0_50px_rgba(0,243,255,0.6)] hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-3 group relative overflow-hidden"
                         >
                             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/50 to-transparent -translate-x-full group-hover:animate-shine"></div>
@@ -1,14 +1,15 @@
 
 import React from 'react';
-import { Cpu } from 'lucide-react';
+import { Cpu, X } from 'lucide-react';
 
 interface LoadingScreenProps {
   text: string;
   subText?: string;
   progress?: number; // 0 - 100
+  onCancel?: () => void; // Shows a cancel button when the work can be aborted
 }
 
-export const LoadingScreen: React.FC<LoadingScreenProps> = ({ text, subText, progress }) => {
+export const LoadingScreen: React.FC<LoadingScreenProps> = ({ text, subText, progress, onCancel }) => {
   return (
     <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-[#030304] overflow-hidden select-none cursor-wait">
       
@@ -73,6 +74,15 @@ export const LoadingScreen: React.FC<LoadingScreenProps> = ({ text, subText, pro
                     )}
                 </div>
             </div>
+
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="mt-4 px-6 py-2 rounded-full border border-white/10 bg-white/5 text-xs font-bold text-gray-400 hover:text-white hover:bg-white/10 transition-colors flex items-center gap-2 cursor-pointer"
+                >
+                    <X className="w-3.5 h-3.5" /> 取消
+                </button>
+            )}
         </div>
         
       </div>
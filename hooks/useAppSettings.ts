@@ -1,12 +1,16 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { GoogleGenAI } from "@google/genai";
 import { KeyConfig } from '../types';
+import { BackupSettings } from '../services/backupService';
+import { AIProviderId, createAIProvider } from '../services/aiProvider';
 
 const LS_KEY_API = 'neonflow_api_key';
 const LS_KEY_DEBUG = 'neonflow_debug_mode';
 const LS_KEY_SPEED = 'neonflow_scroll_speed';
 const LS_KEY_BINDINGS = 'neonflow_key_bindings';
+const LS_KEY_OFFSET = 'neonflow_audio_offset';
+const LS_KEY_AI_PROVIDER = 'neonflow_ai_provider';
 
 export const useAppSettings = () => {
     const [scrollSpeed, setScrollSpeed] = useState<number>(5.0);
@@ -22,10 +26,11 @@ export const useAppSettings = () => {
     const [apiKeyStatus, setApiKeyStatus] = useState<'valid' | 'missing' | 'checking' | 'invalid'>('missing');
     const [validationError, setValidationError] = useState<string | null>(null);
     const hasEnvKey = !!process.env.API_KEY;
+    const [aiProviderId, setAiProviderIdState] = useState<AIProviderId>('gemini');
 
     // Load Settings
     useEffect(() => {
-        const savedOffset = localStorage.getItem('neonflow_audio_offset');
+        const savedOffset = localStorage.getItem(LS_KEY_OFFSET);
         if (savedOffset) setAudioOffset(Number(savedOffset));
 
         const savedSpeed = localStorage.getItem(LS_KEY_SPEED);
@@ -41,6 +46,9 @@ export const useAppSettings = () => {
         const debug = localStorage.getItem(LS_KEY_DEBUG);
         if (debug === 'true') setIsDebugMode(true);
 
+        const savedProvider = localStorage.getItem(LS_KEY_AI_PROVIDER);
+        if (savedProvider === 'gemini' || savedProvider === 'mock') setAiProviderIdState(savedProvider);
+
         const storedKey = localStorage.getItem(LS_KEY_API);
         if (storedKey) {
             setCustomApiKey(storedKey);
@@ -89,6 +97,28 @@ export const useAppSettings = () => {
         }
     };
 
+    // Restoring a backup replaces the gameplay settings wholesale
+    const applyBackupSettings = (settings: BackupSettings) => {
+        setAudioOffset(settings.audioOffset);
+        setScrollSpeed(settings.scrollSpeed);
+        setKeyConfig(settings.keyConfig);
+        localStorage.setItem(LS_KEY_OFFSET, String(settings.audioOffset));
+        localStorage.setItem(LS_KEY_SPEED, String(settings.scrollSpeed));
+        localStorage.setItem(LS_KEY_BINDINGS, JSON.stringify(settings.keyConfig));
+    };
+
+    const setAiProviderId = (id: AIProviderId) => {
+        setAiProviderIdState(id);
+        localStorage.setItem(LS_KEY_AI_PROVIDER, id);
+    };
+
+    const aiProvider = useMemo(
+        () => createAIProvider(aiProviderId, customApiKey.trim() || process.env.API_KEY || ""),
+        [aiProviderId, customApiKey]
+    );
+    // Providers that need no key (the mock) are usable right away
+    const isAiReady = !aiProvider.requiresApiKey || apiKeyStatus === 'valid';
+
     const toggleDebugMode = () => {
         const newState = !isDebugMode;
         setIsDebugMode(newState);
@@ -103,7 +133,9 @@ export const useAppSettings = () => {
         isDebugMode, toggleDebugMode,
         customApiKey, setCustomApiKey,
         apiKeyStatus, validationError,
+        aiProviderId, setAiProviderId, aiProvider, isAiReady,
         validateKey, handleSaveSettings,
+        applyBackupSettings,
         hasEnvKey
     };
 };
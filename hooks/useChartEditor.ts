@@ -1,29 +1,70 @@
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { Note, SongStructure, NoteLane, LaneCount, NoteType } from '../types';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Note, SongStructure, NoteLane, LaneCount, NoteType, TimingPoint } from '../types';
+import { snapTime, getBeatDuration, getTimingPointAt, getDominantBpm, normalizeTimingPoints } from '../utils/timing';
+import { createRng, createSeed } from '../utils/random';
+import {
+    ClipboardNote, PatternTransform, TRANSFORM_LABELS,
+    toClipboard, fromClipboard, applyTransform, moveNotes, isSamePosition
+} from '../utils/patternTransforms';
+import {
+    NoteDiff, EditHistory, EMPTY_HISTORY, EMPTY_DIFF,
+    applyDiff, invertDiff, composeDiffs, isEmptyDiff, pushCommand, sealHistory, undoStep, redoStep, getDiffTargets, getHeadCommandId
+} from '../utils/editHistory';
 
 export type EditorTool = 'SELECT' | 'ADD' | 'DELETE' | 'HOLD';
 export type SnapDivisor = 1 | 2 | 4 | 8 | 16 | 32;
+export type NoteKind = 'NORMAL' | 'CATCH' | 'HOLD'; // Selection filter; HOLD = any note with a duration
+
+// History labels for updateNote
+const NOTE_FIELD_LABELS: Record<string, string> = { time: '时间', lane: '轨道', type: '类型', duration: '时长' };
 
 interface UseChartEditorProps {
     initialNotes: Note[];
     audioBuffer: AudioBuffer | null;
     structure: SongStructure | undefined;
+    initialTimingPoints: TimingPoint[];
     laneCount: LaneCount;
-    onSave: (notes: Note[]) => void;
+    onSave: (notes: Note[], timingPoints: TimingPoint[]) => void;
 }
 
 export const useChartEditor = ({
     initialNotes,
     audioBuffer,
     structure,
+    initialTimingPoints,
     laneCount,
     onSave
 }: UseChartEditorProps) => {
     // -- Data State --
-    const [notes, setNotes] = useState<Note[]>(JSON.parse(JSON.stringify(initialNotes)));
+    const [notes, setNotes] = useState<Note[]>(() => JSON.parse(JSON.stringify(initialNotes)));
     const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
-    const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+    const [clipboard, setClipboard] = useState<ClipboardNote[]>([]);
+    // Timing edits are not part of the note history; they only mark the chart dirty until saved
+    const [timingPoints, setTimingPoints] = useState<TimingPoint[]>(() => normalizeTimingPoints(initialTimingPoints));
+    const [timingDirty, setTimingDirty] = useState(false);
+
+    // -- History State --
+    const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+    const [savedCommandId, setSavedCommandId] = useState(0); // Newest applied command at the last save (0 = none)
+    const notesRef = useRef(notes);
+    const historyRef = useRef(history);
+    const groupRef = useRef<{ diff: NoteDiff } | null>(null);
+    const nextCommandIdRef = useRef(1);
+
+    const replaceNotes = (next: Note[]) => {
+        notesRef.current = next;
+        setNotes(next);
+    };
+    const replaceHistory = (next: EditHistory) => {
+        historyRef.current = next;
+        setHistory(next);
+    };
+
+    // Undoing back to the saved state counts as clean again. Once the stack was trimmed its
+    // bottom is no longer the opened chart, so undoing all the way down stays dirty.
+    const headCommandId = getHeadCommandId(history);
+    const hasUnsavedChanges = headCommandId !== savedCommandId || timingDirty;
     
     // -- Playback State --
     const [isPlaying, setIsPlaying] = useState(false);
@@ -43,14 +84,12 @@ export const useChartEditor = ({
     const animationFrameRef = useRef<number>(0);
 
     // -- Helpers --
-    const bpm = structure?.bpm || 120;
-    const beatDuration = 60 / bpm;
+    const bpm = useMemo(() => getDominantBpm(timingPoints, audioBuffer?.duration || 0), [timingPoints, audioBuffer]);
 
     const getSnapTime = useCallback((time: number) => {
         if (snapDivisor === 32) return time; 
-        const snapInterval = beatDuration / (snapDivisor / 1); 
-        return Math.round(time / snapInterval) * snapInterval;
-    }, [beatDuration, snapDivisor]);
+        return snapTime(timingPoints, time, snapDivisor);
+    }, [timingPoints, snapDivisor]);
 
     // High Precision Time Getter for Recording
     const getExactTime = useCallback(() => {
@@ -131,6 +170,36 @@ export const useChartEditor = ({
     };
 
     // -- Note Manipulation --
+    // Every edit goes through `commit`, which applies a NoteDiff and records it for undo.
+    // notesRef is updated synchronously so several edits in one event (a copilot run) build on each other.
+
+    const commit = (label: string, diff: NoteDiff, mergeKey?: string) => {
+        if (isEmptyDiff(diff)) return;
+        replaceNotes(applyDiff(notesRef.current, diff));
+        if (groupRef.current) {
+            groupRef.current.diff = composeDiffs(groupRef.current.diff, diff);
+            return;
+        }
+        replaceHistory(pushCommand(historyRef.current, { id: nextCommandIdRef.current++, label, diff, mergeKey, timestamp: Date.now() }));
+    };
+
+    /** Runs several edits as one undo step. Nested calls join the outer step. */
+    const runAsGroup = (label: string, edit: () => void) => {
+        if (groupRef.current) {
+            edit();
+            return;
+        }
+        groupRef.current = { diff: EMPTY_DIFF };
+        try {
+            edit();
+        } finally {
+            const { diff } = groupRef.current;
+            groupRef.current = null;
+            if (!isEmptyDiff(diff)) {
+                replaceHistory(pushCommand(historyRef.current, { id: nextCommandIdRef.current++, label, diff, timestamp: Date.now() }));
+            }
+        }
+    };
     
     // Enhanced addNote to support Hold dragging and optional snap
     const addNote = (time: number, lane: number, duration: number = 0, type: NoteType = 'NORMAL', snap: boolean = true) => {
@@ -147,7 +216,7 @@ export const useChartEditor = ({
         }
 
         // Check for exact duplicate
-        const exists = notes.some(n => Math.abs(n.time - startTime) < 0.001 && n.lane === lane);
+        const exists = notesRef.current.some(n => Math.abs(n.time - startTime) < 0.001 && n.lane === lane);
         if (exists) return;
 
         const newNote: Note = {
@@ -160,8 +229,7 @@ export const useChartEditor = ({
             visible: true,
             isHolding: false
         };
-        setNotes(prev => [...prev, newNote]);
-        setHasUnsavedChanges(true);
+        commit(finalDuration > 0 ? '添加长条' : '添加音符', { ...EMPTY_DIFF, added: [newNote] });
     };
 
     const bulkAddNotes = (newNotesData: { time: number, lane: number, duration: number }[]) => {
@@ -176,14 +244,7 @@ export const useChartEditor = ({
             isHolding: false
         }));
 
-        // Merge and sort
-        // FIX: Use functional update to ensure we are appending to the LATEST state (e.g. after a delete operation in same cycle)
-        setNotes(prev => {
-            const combined = [...prev, ...addedNotes].sort((a, b) => a.time - b.time);
-            return combined;
-        });
-        
-        setHasUnsavedChanges(true);
+        commit(`添加 ${addedNotes.length} 个音符`, { ...EMPTY_DIFF, added: addedNotes });
         // Optionally select the newly added notes
         setSelectedNoteIds(new Set(addedNotes.map(n => n.id)));
     };
@@ -191,38 +252,121 @@ export const useChartEditor = ({
     const deleteNotesInRange = (start: number, end: number, targetLanes?: number[]) => {
         const hasLaneFilter = targetLanes && targetLanes.length > 0;
         
-        setNotes(prev => prev.filter(n => {
-            // Check if note is within the time range
-            if (n.time >= start && n.time <= end) {
-                // If specific lanes are targeted, only delete those lanes
-                if (hasLaneFilter) {
-                    return !targetLanes.includes(n.lane); 
-                }
-                // If no lane filter, delete everything in time range
-                return false; 
-            }
-            // Keep notes outside time range
-            return true;
-        }));
+        const removed = notesRef.current.filter(n => {
+            // Only notes within the time range, and only the targeted lanes if any are given
+            if (n.time < start || n.time > end) return false;
+            return hasLaneFilter ? targetLanes.includes(n.lane) : true;
+        });
         
-        setHasUnsavedChanges(true);
+        commit(`清除 ${start.toFixed(2)}s - ${end.toFixed(2)}s`, { ...EMPTY_DIFF, removed });
     };
 
     const deleteSelected = () => {
         if (selectedNoteIds.size === 0) return;
-        setNotes(prev => prev.filter(n => !selectedNoteIds.has(n.id)));
+        const removed = notesRef.current.filter(n => selectedNoteIds.has(n.id));
+        commit(`删除 ${removed.length} 个音符`, { ...EMPTY_DIFF, removed });
         setSelectedNoteIds(new Set());
-        setHasUnsavedChanges(true);
     };
 
     const deleteNote = (id: string) => {
-         setNotes(prev => prev.filter(n => n.id !== id));
-         setHasUnsavedChanges(true);
+        const note = notesRef.current.find(n => n.id === id);
+        if (note) commit('删除音符', { ...EMPTY_DIFF, removed: [note] });
     };
 
     const updateNote = (id: string, updates: Partial<Note>) => {
-        setNotes(prev => prev.map(n => n.id === id ? { ...n, ...updates } : n));
-        setHasUnsavedChanges(true);
+        const before = notesRef.current.find(n => n.id === id);
+        if (!before) return;
+        const fields = Object.keys(updates).sort();
+        const label = `修改${fields.map(f => NOTE_FIELD_LABELS[f] || f).join('/')}`;
+        // Typing into a field edits the same note on every keystroke; keep that as one step
+        commit(label, { ...EMPTY_DIFF, updated: [{ before, after: { ...before, ...updates } }] }, `update:${id}:${fields.join(',')}`);
+    };
+
+    // -- Clipboard & Transforms --
+
+    const getSelectedNotes = () => notesRef.current.filter(n => selectedNoteIds.has(n.id));
+
+    const copySelected = () => {
+        const selected = getSelectedNotes();
+        if (selected.length > 0) setClipboard(toClipboard(selected));
+    };
+
+    const cutSelected = () => {
+        const selected = getSelectedNotes();
+        if (selected.length === 0) return;
+        setClipboard(toClipboard(selected));
+        commit(`剪切 ${selected.length} 个音符`, { ...EMPTY_DIFF, removed: selected });
+        setSelectedNoteIds(new Set());
+    };
+
+    /** Pastes with the first copied note on the snapped playhead; notes landing on existing ones are skipped. */
+    const pasteAtPlayhead = () => {
+        if (clipboard.length === 0) return;
+        const anchor = getSnapTime(currentTime);
+        const songEnd = audioBuffer?.duration ?? Infinity;
+        const pasted = fromClipboard(clipboard, anchor)
+            .filter(n => n.time <= songEnd && !notesRef.current.some(o => isSamePosition(o, n)));
+        if (pasted.length === 0) return;
+        commit(`粘贴 ${pasted.length} 个音符`, { ...EMPTY_DIFF, added: pasted });
+        setSelectedNoteIds(new Set(pasted.map(n => n.id)));
+    };
+
+    // Records changed selected notes as one step. Unselected notes the result lands on are overwritten
+    const commitSelectionChange = (label: string, selected: Note[], transformed: Note[]) => {
+        const before = new Map<string, Note>(selected.map(n => [n.id, n]));
+        const updated = transformed
+            .filter(n => {
+                const b = before.get(n.id)!;
+                return b.time !== n.time || b.lane !== n.lane || b.duration !== n.duration;
+            })
+            .map(after => ({ before: before.get(after.id)!, after }));
+        const removed = notesRef.current.filter(o =>
+            !selectedNoteIds.has(o.id) && transformed.some(n => isSamePosition(o, n))
+        );
+
+        if (updated.length === 0) return;
+        commit(`${label} (${selected.length})`, { ...EMPTY_DIFF, updated, removed });
+    };
+
+    /** Transforms the selection in place. */
+    const transformSelected = (transform: PatternTransform) => {
+        const selected = getSelectedNotes();
+        if (selected.length === 0) return;
+        const transformed = applyTransform(selected, transform, {
+            laneCount,
+            allNotes: notesRef.current,
+            holdLength: time => getBeatDuration(timingPoints, time),
+            rng: createRng(createSeed())
+        });
+        const detail = transform.kind === 'SHIFT' ? ` ${transform.offset > 0 ? '+' : ''}${transform.offset}`
+            : transform.kind === 'STRETCH' ? ` ×${transform.ratio}`
+            : '';
+        commitSelectionChange(`${TRANSFORM_LABELS[transform.kind]}${detail}`, selected, transformed);
+    };
+
+    const moveSelected = (timeDelta: number, laneDelta: number) => {
+        const selected = getSelectedNotes();
+        if (selected.length === 0) return;
+        commitSelectionChange('移动', selected, moveNotes(selected, timeDelta, laneDelta, laneCount));
+    };
+
+    // -- History --
+
+    const applyHistoryStep = (step: ReturnType<typeof undoStep>, undoing: boolean) => {
+        if (!step) return;
+        const diff = undoing ? invertDiff(step.command.diff) : step.command.diff;
+        replaceNotes(applyDiff(notesRef.current, diff));
+        replaceHistory(step.history);
+        setSelectedNoteIds(new Set(getDiffTargets(diff)));
+    };
+
+    const undo = () => applyHistoryStep(undoStep(historyRef.current), true);
+    const redo = () => applyHistoryStep(redoStep(historyRef.current), false);
+
+    /** Undoes or redoes until exactly `pastLength` steps are applied (history panel clicks). */
+    const jumpToHistory = (pastLength: number) => {
+        while (historyRef.current.past.length > pastLength) undo();
+        while (historyRef.current.past.length < pastLength && historyRef.current.future.length > 0) redo();
     };
 
     const toggleSelection = (id: string, multi: boolean) => {
@@ -232,6 +376,75 @@ export const useChartEditor = ({
         setSelectedNoteIds(newSet);
     };
 
+    // `additive` keeps the current selection and adds the matches (Shift / Ctrl held)
+    const selectWhere = (predicate: (note: Note) => boolean, additive: boolean) => {
+        const ids = notesRef.current.filter(predicate).map(n => n.id);
+        setSelectedNoteIds(prev => new Set(additive ? [...prev, ...ids] : ids));
+    };
+
+    /** Rubber band: notes whose head lies inside the time range and lane range (inclusive). */
+    const selectInBox = (start: number, end: number, laneFrom: number, laneTo: number, additive: boolean) => {
+        const [t0, t1] = start <= end ? [start, end] : [end, start];
+        const [l0, l1] = laneFrom <= laneTo ? [laneFrom, laneTo] : [laneTo, laneFrom];
+        selectWhere(n => n.time >= t0 && n.time <= t1 && n.lane >= l0 && n.lane <= l1, additive);
+    };
+
+    /** Everything in the structure section that contains `time`. */
+    const selectSectionAt = (time: number, additive: boolean) => {
+        const section = structure?.sections.find(s => time >= s.startTime && time < s.endTime);
+        if (!section) return;
+        selectWhere(n => n.time >= section.startTime && n.time < section.endTime, additive);
+    };
+
+    const selectLane = (lane: number, additive: boolean) => selectWhere(n => n.lane === lane, additive);
+
+    const selectByKind = (kind: NoteKind, additive: boolean) => selectWhere(n => {
+        if (kind === 'HOLD') return n.duration > 0;
+        return n.duration === 0 && n.type === kind;
+    }, additive);
+
+    const selectAll = () => selectWhere(() => true, false);
+    const clearSelection = () => setSelectedNoteIds(new Set());
+
+    // -- Timing Points --
+    // Indices refer to the sorted `timingPoints` list the panel renders
+
+    const replaceTimingPoints = (next: TimingPoint[]) => {
+        setTimingPoints(normalizeTimingPoints(next));
+        setTimingDirty(true);
+    };
+
+    /** New tempo section at the snapped playhead, continuing the tempo and meter in effect there. */
+    const addTimingPoint = () => {
+        const time = getSnapTime(currentTime);
+        if (timingPoints.some(p => Math.abs(p.time - time) < 0.001)) return;
+        const active = getTimingPointAt(timingPoints, time);
+        replaceTimingPoints([...timingPoints, { ...active, time }]);
+    };
+
+    const updateTimingPoint = (index: number, updates: Partial<TimingPoint>) => {
+        if (!timingPoints[index]) return;
+        replaceTimingPoints(timingPoints.map((p, i) => (i === index ? { ...p, ...updates } : p)));
+    };
+
+    const deleteTimingPoint = (index: number) => {
+        if (timingPoints.length <= 1) return; // The grid needs an origin
+        replaceTimingPoints(timingPoints.filter((_, i) => i !== index));
+    };
+
+    /** Global offset = the first timing point; moving it shifts the whole grid, notes stay where they are. */
+    const setGridOffset = (offset: number) => {
+        const delta = offset - timingPoints[0].time;
+        if (delta === 0) return;
+        replaceTimingPoints(timingPoints.map(p => ({ ...p, time: p.time + delta })));
+    };
+
+    /** Sets the tempo of the section under the playhead (tap-to-BPM). */
+    const setBpmAtPlayhead = (value: number) => {
+        const active = getTimingPointAt(timingPoints, currentTime);
+        updateTimingPoint(timingPoints.indexOf(active), { bpm: value });
+    };
+
     // Cleanup
     useEffect(() => {
         return () => {
@@ -242,9 +455,12 @@ export const useChartEditor = ({
     }, []);
 
     const saveChanges = () => {
-        const sorted = [...notes].sort((a, b) => a.time - b.time);
-        onSave(sorted);
-        setHasUnsavedChanges(false);
+        const sorted = [...notesRef.current].sort((a, b) => a.time - b.time);
+        onSave(sorted, timingPoints);
+        setTimingDirty(false);
+        const saved = sealHistory(historyRef.current);
+        replaceHistory(saved);
+        setSavedCommandId(getHeadCommandId(saved));
     };
 
     return {
@@ -256,7 +472,11 @@ export const useChartEditor = ({
         zoomLevel,
         selectedNoteIds,
         bpm,
+        timingPoints,
         hasUnsavedChanges,
+        history,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
         
         setSnapDivisor,
         setActiveTool,
@@ -271,7 +491,28 @@ export const useChartEditor = ({
         updateNote,
         deleteSelected,
         toggleSelection,
+        selectInBox,
+        selectSectionAt,
+        selectLane,
+        selectByKind,
+        selectAll,
+        clearSelection,
+        moveSelected,
+        addTimingPoint,
+        updateTimingPoint,
+        deleteTimingPoint,
+        setGridOffset,
+        setBpmAtPlayhead,
         saveChanges,
+        runAsGroup,
+        clipboardSize: clipboard.length,
+        copySelected,
+        cutSelected,
+        pasteAtPlayhead,
+        transformSelected,
+        undo,
+        redo,
+        jumpToHistory,
         
         getSnapTime,
         getExactTime
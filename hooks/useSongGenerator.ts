@@ -1,13 +1,20 @@
 
-import React, { useState } from 'react';
-import { preprocessAudioData, computeOnsets, estimateBPM } from '../utils/audioAnalyzer';
-import { generateBeatmap } from '../utils/beatmapGenerator';
-import { analyzeStructureWithGemini, GenerationOptions } from '../services/geminiService';
-import { analyzeMetadataWithGemini, MetadataResult } from '../services/metadataService';
-import { saveSong } from '../services/storageService';
+import React, { useState, useRef, useEffect } from 'react';
+import { DIFFICULTY_LADDER } from '../utils/beatmapGenerator';
+import { AIProvider, AI_METADATA_SOURCES, AI_PROVIDER_LABELS, GenerationOptions, MetadataResult } from '../services/aiProvider';
+import { saveSong, getSongById } from '../services/storageService';
 import { extractCoverArt } from '../utils/audioMetadata';
 import { fileToBase64 } from '../utils/fileUtils'; 
-import { BeatmapDifficulty, LaneCount, PlayStyle, SavedSong, AITheme, DEFAULT_THEME, Note } from '../types';
+import { createChart, getChart, updateChart } from '../utils/chartUtils';
+import { fitBeatGridToBpm } from '../utils/timing';
+import { reconcileSections } from '../utils/structureAnalyzer';
+import { validateMetadata, validateSections, logRepairs } from '../utils/aiValidation';
+import { fingerprintAudio, readCachedAnalysis, writeCachedAnalysis, AICacheTag } from '../services/aiCacheService';
+import { createSeed, deriveSeed, parseSeed } from '../utils/random';
+import { createPipelineWorker, PipelineWorker } from '../services/pipelineService';
+import { isCancelled, throwIfAborted } from '../utils/abort';
+import type { PipelineStage, ChartTarget, AnalysisResult } from '../workers/beatmapWorker';
+import { BeatmapDifficulty, BeatmapChart, LaneCount, PlayStyle, SavedSong, SectionInfo, AITheme, DEFAULT_THEME, ChartGenerationSettings } from '../types';
 
 const fileUtils_fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -18,14 +25,43 @@ const fileUtils_fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
+// Worker stages -> loading screen text and the slice of the progress bar they fill
+const STAGE_PROGRESS: Record<PipelineStage, { text: string; from: number; to: number }> = {
+    mix: { text: "混合声道...", from: 12, to: 13 },
+    onsets: { text: "多频段频谱通量分析...", from: 13, to: 24 },
+    beats: { text: "节拍跟踪与变速检测...", from: 24, to: 25 },
+    structure: { text: "本地曲式分析...", from: 25, to: 28 },
+    generate: { text: "生成谱面并校准难度...", from: 85, to: 94 },
+};
+
+// Finished stages for one pending file. A retry (e.g. after a Gemini failure) resumes from
+// here instead of decoding, analysing and querying metadata all over again. AI stages that fell
+// back to a local guess are left out so the retry asks the AI again.
+interface StageCache {
+    file: File;
+    audio?: { decoded: AudioBuffer; saveBuffer: ArrayBuffer; coverArt?: string };
+    analysis?: AnalysisResult;
+    base64Data?: string;
+    fingerprint?: string; // Decoded-audio hash, the persisted AI cache key
+    metadata?: MetadataResult;
+    structure?: { key: string; sections: SectionInfo[] }; // key = provider + model + prompt version + style that produced it
+}
+
+interface GenerationJob {
+    signal: AbortSignal;
+    pipeline: PipelineWorker;
+    finish: () => void;
+}
+
 export const useSongGenerator = (
-    apiKey: string, 
+    aiProvider: AIProvider, 
     isDebugMode: boolean, 
-    apiKeyStatus: string,
+    isAiReady: boolean, // The provider has what it needs (e.g. a validated key)
     onSuccess: () => void,
     onError?: (errorType: string, message?: string) => void
 ) => {
     const [pendingFile, setPendingFile] = useState<File | null>(null);
+    const [targetSong, setTargetSong] = useState<SavedSong | null>(null); // Existing song receiving a new chart
     const [isConfiguringSong, setIsConfiguringSong] = useState(false);
     const [loadingStage, setLoadingStage] = useState<string>(""); 
     const [loadingSubText, setLoadingSubText] = useState<string>("");
@@ -37,20 +73,82 @@ export const useSongGenerator = (
     const [selectedDifficulty, setSelectedDifficulty] = useState<number | null>(null);
     const [aiOptions, setAiOptions] = useState<GenerationOptions>({}); 
     const [beatmapFeatures, setBeatmapFeatures] = useState({ normal: true, holds: true, catch: true });
+    const [seedInput, setSeedInput] = useState(''); // Blank = random seed
+    const [generateLadder, setGenerateLadder] = useState(false); // One chart per DIFFICULTY_LADDER level instead of selectedDifficulty
     const [skipAI, setSkipAI] = useState(false);
     const [useProModel, setUseProModel] = useState(false);
+    const [bypassAiCache, setBypassAiCache] = useState(false); // Ask the AI again even if an answer is cached (the new one replaces it)
     
     const [errorState, setErrorState] = useState<{ hasError: boolean, type: string, message: string | null }>({ hasError: false, type: '', message: null });
+    const [canCancel, setCanCancel] = useState(false); // A generation job is running and can be aborted
+    const jobRef = useRef<AbortController | null>(null);
+    const stageCacheRef = useRef<StageCache | null>(null);
+
+    const startJob = (): GenerationJob => {
+        jobRef.current?.abort();
+        const controller = new AbortController();
+        jobRef.current = controller;
+        setCanCancel(true);
+        const pipeline = createPipelineWorker((stage, progress) => {
+            const { text, from, to } = STAGE_PROGRESS[stage];
+            setLoadingSubText(text);
+            setLoadingProgress(from + (to - from) * progress);
+        }, controller.signal);
+
+        return {
+            signal: controller.signal,
+            pipeline,
+            finish: () => {
+                pipeline.dispose();
+                if (jobRef.current === controller) {
+                    jobRef.current = null;
+                    setCanCancel(false);
+                }
+            }
+        };
+    };
+
+    // Aborts the running job; whichever stage is pending (decode, Gemini, worker) rejects with CANCELLED
+    const cancelGeneration = () => jobRef.current?.abort();
+
+    // A job outliving the screen that started it would keep Gemini and the worker busy for nothing
+    useEffect(() => () => jobRef.current?.abort(), []);
+
+    // The cache only ever serves the file currently being configured
+    useEffect(() => {
+        if (!pendingFile) stageCacheRef.current = null;
+    }, [pendingFile]);
+
+    const getStageCache = (file: File): StageCache => {
+        if (stageCacheRef.current?.file !== file) stageCacheRef.current = { file };
+        return stageCacheRef.current;
+    };
 
     const onFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
         setPendingFile(file);
+        setTargetSong(null);
+        setSeedInput('');
         setSelectedDifficulty(10); 
         setUseProModel(false);
+        setBypassAiCache(false);
         setIsConfiguringSong(true); 
         event.target.value = '';
     };
+
+    // Opens the config flow for an extra difficulty, reusing the song's stored audio
+    const startAddChart = async (song: SavedSong) => {
+        const fullSong = song.audioData.byteLength > 0 ? song : await getSongById(song.id);
+        if (!fullSong) return;
+        setPendingFile(new File([fullSong.audioData], fullSong.title));
+        setTargetSong(fullSong);
+        setSeedInput('');
+        setSelectedDifficulty(10);
+        setUseProModel(false);
+        setBypassAiCache(false);
+        setIsConfiguringSong(true);
+    };
     
     const resetError = () => setErrorState({ hasError: false, type: '', message: null });
 
@@ -64,51 +162,70 @@ export const useSongGenerator = (
         const file = pendingFile;
         setErrorMessage(null);
         setLoadingProgress(0);
+        const { signal, pipeline, finish } = startJob();
+        const cache = getStageCache(file);
 
         try {
             setLoadingStage("正在读取音频");
-            setLoadingSubText("解析文件数据...");
-            setLoadingProgress(5);
-            
-            await new Promise(resolve => setTimeout(resolve, 50));
+            if (!cache.audio) {
+                setLoadingSubText("解析文件数据...");
+                setLoadingProgress(5);
+                
+                await new Promise(resolve => setTimeout(resolve, 50));
 
-            const arrayBuffer = await file.arrayBuffer();
-            const audioCtxBuffer = arrayBuffer.slice(0); 
-            const saveBuffer = arrayBuffer.slice(0); 
-            const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
-            
-            setLoadingSubText("解码音频流...");
-            setLoadingProgress(10);
-            const decodedBuffer = await audioContext.decodeAudioData(audioCtxBuffer);
+                const arrayBuffer = await file.arrayBuffer();
+                const audioCtxBuffer = arrayBuffer.slice(0); 
+                const saveBuffer = arrayBuffer.slice(0); 
+                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+                
+                setLoadingSubText("解码音频流...");
+                setLoadingProgress(10);
+                try {
+                    const decoded = await audioContext.decodeAudioData(audioCtxBuffer);
+                    throwIfAborted(signal); // Decoding itself can't be interrupted
+                    setLoadingSubText("提取封面...");
+                    cache.audio = { decoded, saveBuffer, coverArt: await extractCoverArt(file) };
+                } finally {
+                    audioContext.close();
+                }
+            } else {
+                setLoadingSubText("复用已解码的音频...");
+            }
+            const { decoded: decodedBuffer, saveBuffer, coverArt } = cache.audio;
             
+            // --- Onsets, beat tracking and local structure, all in the worker ---
             setLoadingStage("音频特征提取");
-            setLoadingSubText("分离低频与动态范围分析...");
-            setLoadingProgress(15);
-            const { lowData, fullData } = await preprocessAudioData(decodedBuffer);
-            
-            // --- Programmatic BPM Estimation ---
-            setLoadingSubText("程序化测算 BPM...");
-            const onsets = computeOnsets(lowData, fullData, decodedBuffer.sampleRate);
-            const dspBpm = estimateBPM(onsets);
-            
-            setLoadingSubText("提取封面...");
-            const coverArt = await extractCoverArt(file);
-            setLoadingProgress(20);
+            setLoadingProgress(12);
+            if (!cache.analysis) cache.analysis = await pipeline.analyze(decodedBuffer);
+            const { onsets, beatGrid, sections: dspSections } = cache.analysis;
+            const dspBpm = beatGrid.bpm;
+            setLoadingProgress(28);
 
             let structure;
             let aiTheme = DEFAULT_THEME;
             let aiMetadata: MetadataResult | undefined;
+            const aiFallbacks: string[] = []; // AI stages that fell back to local guesses, reported once the song is saved
 
-            const isDebugAndNoKey = isDebugMode && apiKeyStatus !== 'valid';
+            const isDebugAndNoKey = isDebugMode && !isAiReady;
             const shouldUseFallback = (skipAI) || isDebugAndNoKey; 
 
-            if (shouldUseFallback) {
+            if (targetSong) {
+                // The song already has structure and theme; a new difficulty never needs the AI again
+                setLoadingStage("复用歌曲分析");
+                setLoadingSubText("沿用已有的结构与主题...");
+                setLoadingProgress(40);
+                structure = targetSong.structure;
+                aiTheme = targetSong.theme;
+            } else if (shouldUseFallback) {
                 setLoadingStage(isEmptyMode ? "创建工程" : "基础分析");
-                setLoadingSubText("应用默认结构配置...");
+                setLoadingSubText("应用本地曲式分析结果...");
                 setLoadingProgress(40);
                 await new Promise(resolve => setTimeout(resolve, 300));
                 
-                structure = { bpm: dspBpm, sections: [{ startTime: 0, endTime: decodedBuffer.duration, type: 'verse', intensity: 0.8, style: 'stream' }] };
+                const sections = dspSections.length > 0
+                    ? dspSections
+                    : [{ startTime: 0, endTime: decodedBuffer.duration, type: 'verse', intensity: 0.8, style: 'stream' }];
+                structure = { bpm: dspBpm, timingPoints: beatGrid.timingPoints, downbeatOffset: beatGrid.downbeatOffset, sections };
                 aiMetadata = { 
                     title: file.name.replace(/\.[^/.]+$/, ""), 
                     artist: "Unknown Artist", 
@@ -117,41 +234,113 @@ export const useSongGenerator = (
                 };
             } else {
                 
-                if (apiKeyStatus === 'valid' && apiKey) {
-                    const base64String = await fileUtils_fileToBase64(file);
-                    const base64Data = base64String.split(',')[1];
+                if (isAiReady) {
+                    // Audio is only base64-encoded when some answer actually has to come from the AI
+                    const getBase64Data = async () => {
+                        if (!cache.base64Data) {
+                            const base64String = await fileUtils_fileToBase64(file);
+                            cache.base64Data = base64String.split(',')[1];
+                        }
+                        return cache.base64Data;
+                    };
+                    if (!cache.fingerprint) cache.fingerprint = await fingerprintAudio(decodedBuffer);
+                    const fingerprint = cache.fingerprint;
                     
                     const structureModel = useProModel ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview';
 
                     // --- Phase 1: Metadata, Theme, BPM (Using DSP as Hint) ---
                     setLoadingStage("智能分析 (1/2)");
-                    setLoadingSubText("正在检索元数据与主题 (Google Search)...");
                     setLoadingProgress(30);
-                    
-                    aiMetadata = await analyzeMetadataWithGemini(
-                        file.name, 
-                        base64Data, 
-                        file.type, 
-                        dspBpm, // Pass the programmatic hint
-                        apiKey
-                    );
+                    if (!cache.metadata) {
+                        const metadataTag: AICacheTag = { provider: aiProvider.id, model: aiProvider.metadataModel, promptVersion: aiProvider.promptVersion };
+                        const cached = bypassAiCache ? undefined : await readCachedAnalysis<MetadataResult>(fingerprint, 'metadata', metadataTag);
+                        if (cached) {
+                            setLoadingSubText("命中分析缓存，跳过元数据检索...");
+                            cache.metadata = cached;
+                            aiMetadata = cached;
+                        } else {
+                            setLoadingSubText(`正在检索元数据与主题 (${AI_METADATA_SOURCES[aiProvider.id]})...`);
+                            const rawMetadata = await aiProvider.analyzeMetadata({
+                                filename: file.name, 
+                                audioBase64: await getBase64Data(), 
+                                mimeType: file.type, 
+                                hintBPM: dspBpm, // Pass the programmatic hint
+                                signal
+                            });
+                            const checked = validateMetadata(rawMetadata, {
+                                title: file.name.replace(/\.[^/.]+$/, ""),
+                                artist: "Unknown Artist",
+                                bpm: dspBpm,
+                                theme: DEFAULT_THEME
+                            });
+                            logRepairs("Metadata", checked.repairs);
+                            aiMetadata = checked.value;
+                            // A failed call comes back as a filename/DSP guess: neither the retry cache nor the
+                            // persisted one may keep it, or the next attempt would never ask the AI again
+                            if (rawMetadata.fromFallback) {
+                                aiFallbacks.push('元数据');
+                            } else {
+                                cache.metadata = checked.value;
+                                await writeCachedAnalysis(fingerprint, 'metadata', metadataTag, checked.value);
+                            }
+                        }
+                    } else {
+                        setLoadingSubText("复用已获取的元数据...");
+                        aiMetadata = cache.metadata;
+                    }
                     
                     aiTheme = aiMetadata.theme; // Theme now comes from Metadata phase
 
                     // --- Phase 2: Structure Analysis Only ---
                     setLoadingStage("智能分析 (2/2)");
-                    setLoadingSubText(`正在规划谱面结构 (${useProModel ? 'Pro' : 'Flash'})...`);
+                    // The Pro / Flash switch only picks a Gemini model; other providers are named as they are
+                    const structureSource = aiProvider.id === 'gemini' ? (useProModel ? 'Pro' : 'Flash') : AI_PROVIDER_LABELS[aiProvider.id];
+                    setLoadingSubText(`正在规划谱面结构 (${structureSource})...`);
                     setLoadingProgress(50);
 
-                    const structResult = await analyzeStructureWithGemini(base64Data, file.type, apiKey, {
-                        ...aiOptions,
-                        modelOverride: structureModel
-                    });
+                    // Difficulty only steers how finely the AI segments; the rating tuner enforces the level,
+                    // so one structure serves every difficulty. Provider, model, prompt or style changes are a miss.
+                    const structureTag: AICacheTag = {
+                        provider: aiProvider.id,
+                        model: structureModel,
+                        promptVersion: aiProvider.promptVersion,
+                        variant: aiOptions.stylePreference || 'Balanced'
+                    };
+                    const structureKey = JSON.stringify(structureTag);
+                    let aiSections: SectionInfo[];
+                    if (cache.structure?.key === structureKey) {
+                        aiSections = cache.structure.sections;
+                    } else {
+                        const cached = bypassAiCache ? undefined : await readCachedAnalysis<SectionInfo[]>(fingerprint, 'structure', structureTag);
+                        if (cached) {
+                            setLoadingSubText("命中分析缓存，跳过结构分析...");
+                            cache.structure = { key: structureKey, sections: cached };
+                            aiSections = cached;
+                        } else {
+                            const structResult = await aiProvider.analyzeStructure({
+                                audioBase64: await getBase64Data(),
+                                mimeType: file.type,
+                                duration: decodedBuffer.duration,
+                                options: { ...aiOptions, modelOverride: structureModel, signal }
+                            });
+                            // Holes the AI left are filled from the local analysis
+                            const checked = validateSections(structResult.sections, decodedBuffer.duration, dspSections);
+                            logRepairs("Structure", checked.repairs);
+                            aiSections = checked.value;
+                            if (structResult.fromFallback) {
+                                aiFallbacks.push('曲式结构');
+                            } else {
+                                cache.structure = { key: structureKey, sections: checked.value };
+                                await writeCachedAnalysis(fingerprint, 'structure', structureTag, checked.value);
+                            }
+                        }
+                    }
                     
-                    // Combine Phase 1 BPM with Phase 2 Sections
+                    // Combine Phase 1 BPM with Phase 2 Sections; the tracked grid follows the AI tempo and the sections are checked against the local analysis
                     structure = {
                         bpm: aiMetadata.bpm, 
-                        sections: structResult.sections
+                        ...fitBeatGridToBpm(beatGrid, aiMetadata.bpm),
+                        sections: reconcileSections(aiSections, dspSections, decodedBuffer.duration)
                     };
                     
                     setLoadingProgress(80);
@@ -160,44 +349,69 @@ export const useSongGenerator = (
                 }
             }
 
-            let finalNotes: Note[] = [];
-            let rating = 0;
+            let charts: BeatmapChart[] = [];
 
             if (!isEmptyMode) {
                 setLoadingStage("谱面生成中");
-                setLoadingSubText(`基于 BPM ${Math.round(structure.bpm)} 与难度 ${selectedDifficulty} 构建...`);
+                setLoadingSubText(`基于 BPM ${Math.round(structure.bpm)} 构建...`);
                 setLoadingProgress(85);
-                await new Promise(resolve => setTimeout(resolve, 50));
 
-                // Recalculate onsets if needed (usually cached is fine, but cleaner to pass)
-                // We reuse 'onsets' from DSP calculation earlier
-                
-                setLoadingSubText("优化手感与连贯性...");
-                setLoadingProgress(90);
-                finalNotes = generateBeatmap(
+                // Same onsets and structure for every chart; a ladder derives one seed per level
+                const baseSeed = parseSeed(seedInput) ?? createSeed();
+                const targets: ChartTarget[] = generateLadder
+                    ? DIFFICULTY_LADDER.map((d, i) => ({ level: d.level, seed: deriveSeed(baseSeed, i) }))
+                    : [{ level: selectedDifficulty!, seed: baseSeed }];
+
+                const generated = await pipeline.generate({
                     onsets,
-                    structure as any,
-                    selectedDifficulty!, 
-                    selectedLaneCount,
-                    selectedPlayStyle,
-                    beatmapFeatures
-                );
-                
-                if (!finalNotes || finalNotes.length === 0) throw new Error("GenerativeFailure");
-                
-                const { calculateDifficultyRating } = await import('../utils/beatmapGenerator');
-                rating = calculateDifficultyRating(finalNotes, decodedBuffer.duration);
+                    structure: structure as any,
+                    targets,
+                    duration: decodedBuffer.duration,
+                    laneCount: selectedLaneCount,
+                    playStyle: selectedPlayStyle,
+                    features: beatmapFeatures
+                });
+
+                charts = generated.filter(g => g.notes.length > 0).map(g => {
+                    const tier = generateLadder ? DIFFICULTY_LADDER.find(d => d.level === g.target)?.name : undefined;
+                    const chart = createChart(g.notes, selectedLaneCount, decodedBuffer.duration, tier);
+                    chart.difficultyRating = g.rating;
+                    chart.generation = {
+                        seed: g.seed,
+                        difficulty: g.target,
+                        playStyle: selectedPlayStyle,
+                        features: beatmapFeatures
+                    };
+                    return chart;
+                });
+                if (charts.length === 0) throw new Error("GenerativeFailure");
+                setLoadingSubText(`难度校准：${generated.map(g => `目标 ${g.target} · 实际 ${g.rating.toFixed(1)}`).join(' / ')}`);
             } else {
                  setLoadingStage("初始化编辑器");
                  setLoadingSubText("准备空白轨道...");
                  setLoadingProgress(90);
                  await new Promise(resolve => setTimeout(resolve, 100));
+                 charts = [createChart([], selectedLaneCount, decodedBuffer.duration)];
             }
 
             setLoadingStage("保存数据");
             setLoadingSubText("写入本地数据库...");
             setLoadingProgress(95);
-            
+
+            if (targetSong) {
+                const latest = await getSongById(targetSong.id);
+                if (!latest) throw new Error("Song not found in DB");
+                await saveSong({ ...latest, charts: [...latest.charts, ...charts] });
+                setLoadingProgress(100);
+                setPendingFile(null);
+                setTargetSong(null);
+                onSuccess();
+                setLoadingStage("");
+                setLoadingSubText("");
+                setLoadingProgress(0);
+                return { success: true, songTitle: latest.title, aiFallbacks };
+            }
+
             const newSong: SavedSong = {
                 id: crypto.randomUUID(),
                 title: aiMetadata?.title || file.name.replace(/\.[^/.]+$/, ""),
@@ -207,11 +421,9 @@ export const useSongGenerator = (
                 createdAt: Date.now(),
                 duration: decodedBuffer.duration,
                 audioData: saveBuffer,
-                notes: finalNotes,
+                charts,
                 structure: structure as any,
-                theme: aiTheme,
-                difficultyRating: rating,
-                laneCount: selectedLaneCount
+                theme: aiTheme
             };
 
             await saveSong(newSong);
@@ -224,14 +436,16 @@ export const useSongGenerator = (
             setLoadingStage("");
             setLoadingSubText("");
             setLoadingProgress(0);
-            return { success: true, songTitle: newSong.title };
+            return { success: true, songTitle: newSong.title, aiFallbacks };
 
         } catch (error: any) {
-            console.error("Error importing song:", error);
             setLoadingStage("");
             setLoadingSubText("");
             setLoadingProgress(0);
             setIsConfiguringSong(true);
+
+            if (isCancelled(error)) return { success: false, error: 'CANCELLED' };
+            console.error("Error importing song:", error);
             
             let type = 'UNKNOWN';
             let msg = error.message;
@@ -253,11 +467,69 @@ export const useSongGenerator = (
 
             setErrorState({ hasError: true, type, message: msg });
             return { success: false, error: type };
+        } finally {
+            finish();
+        }
+    };
+
+    /**
+     * Regenerates an auto-generated chart with its original settings and a new seed.
+     * The old best result no longer matches the notes, so it is dropped.
+     */
+    const rerollChart = async (song: SavedSong, chartId: string): Promise<SavedSong | null> => {
+        const fullSong = await getSongById(song.id);
+        const chart = fullSong ? getChart(fullSong, chartId) : undefined;
+        if (!fullSong || !chart?.generation) return null;
+
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const { signal, pipeline, finish } = startJob();
+        try {
+            setLoadingStage("重新随机谱面");
+            setLoadingSubText("解码音频流...");
+            setLoadingProgress(10);
+            const decodedBuffer = await audioContext.decodeAudioData(fullSong.audioData.slice(0));
+            throwIfAborted(signal);
+            // Structure and grid are already stored with the song; only the onsets feed the generator
+            const onsets = await pipeline.detectOnsets(decodedBuffer);
+
+            const generation: ChartGenerationSettings = { ...chart.generation, seed: createSeed() };
+            const [{ notes, rating }] = await pipeline.generate({
+                onsets,
+                structure: fullSong.structure,
+                targets: [{ level: generation.difficulty, seed: generation.seed }],
+                duration: fullSong.duration,
+                laneCount: chart.laneCount,
+                playStyle: generation.playStyle,
+                features: generation.features
+            });
+            if (notes.length === 0) throw new Error("GenerativeFailure");
+
+            const updated = updateChart(fullSong, chartId, c => ({
+                ...c,
+                notes,
+                difficultyRating: rating,
+                bestResult: undefined,
+                generation
+            }));
+            await saveSong(updated);
+            onSuccess();
+            return updated;
+        } catch (error: any) {
+            if (isCancelled(error)) return null;
+            throw error;
+        } finally {
+            finish();
+            audioContext.close();
+            setLoadingStage("");
+            setLoadingSubText("");
+            setLoadingProgress(0);
         }
     };
 
     return {
         pendingFile, setPendingFile,
+        targetSong, startAddChart, rerollChart,
+        canCancel, cancelGeneration,
         isConfiguringSong, setIsConfiguringSong,
         loadingStage, setLoadingStage,
         loadingSubText, setLoadingSubText,
@@ -270,8 +542,11 @@ export const useSongGenerator = (
         selectedDifficulty, setSelectedDifficulty,
         aiOptions, setAiOptions,
         beatmapFeatures, setBeatmapFeatures,
+        seedInput, setSeedInput,
+        generateLadder, setGenerateLadder,
         skipAI, setSkipAI,
         useProModel, setUseProModel,
+        bypassAiCache, setBypassAiCache,
         errorState, resetError
     };
 };
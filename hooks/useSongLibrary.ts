@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect } from 'react';
-import { getAllSongs, parseSongImport, saveSong } from '../services/storageService';
+import { getAllSongs, parseSongImport, saveSong, isMapFile } from '../services/storageService';
 import { SavedSong } from '../types';
 
 export const useSongLibrary = () => {
@@ -24,24 +24,35 @@ export const useSongLibrary = () => {
     const handleImportMap = async (event: React.ChangeEvent<HTMLInputElement>, setStatus: (s: any) => void, setLoading: (stage: string, sub: string) => void) => {
         const files = event.target.files;
         if (!files || files.length === 0) return;
-        const fileList: File[] = Array.from(files);
+        const allFiles: File[] = Array.from(files);
+        // Audio picked alongside a bare .osu is consumed by that import, not imported on its own
+        const fileList = allFiles.filter(f => isMapFile(f.name));
         event.target.value = '';
         
         // Assume calling component handles status updates to 'Analyzing'
         let successCount = 0;
+        const failures: string[] = [];
+        const warnings: string[] = [];
 
         for (let i = 0; i < fileList.length; i++) {
             const file = fileList[i];
             setLoading("导入谱面", `正在解析 (${i + 1}/${fileList.length}): ${file.name}...`);
             try {
-                const song = await parseSongImport(file);
+                const song = await parseSongImport(file, allFiles, w => warnings.push(`${file.name}: ${w}`));
                 await saveSong(song);
                 successCount++;
             } catch (e: any) {
                 console.error(`Import failed for ${file.name}`, e);
+                failures.push(`${file.name}: ${e?.message || e}`);
             }
         }
         await loadLibrary();
+        if (failures.length > 0) {
+            alert(`${failures.length} 个文件导入失败：\n${failures.join('\n')}`);
+        }
+        if (warnings.length > 0) {
+            alert(`部分内容未能导入：\n${warnings.join('\n')}`);
+        }
     };
 
     return {
@@ -0,0 +1,29 @@
+
+import { useEffect, useState } from 'react';
+import { loadWaveform } from '../services/waveformService';
+import { WaveformData } from '../utils/waveform';
+import { isCancelled } from '../utils/abort';
+
+/** Waveform / spectrogram / onsets of the song being edited; null until ready or if it failed. */
+export const useWaveform = (songId: string, audioBuffer: AudioBuffer | null) => {
+    const [waveform, setWaveform] = useState<WaveformData | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!audioBuffer) return;
+        const controller = new AbortController();
+        setIsLoading(true);
+        loadWaveform(songId, audioBuffer, controller.signal)
+            .then(setWaveform)
+            .catch(e => {
+                if (!isCancelled(e)) console.error("Waveform generation failed", e);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoading(false);
+            });
+        // Leaving the editor mid-computation terminates the worker
+        return () => controller.abort();
+    }, [songId, audioBuffer]);
+
+    return { waveform, isLoading };
+};
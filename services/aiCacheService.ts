@@ -0,0 +1,62 @@
+
+import { getAICacheEntry, putAICacheEntry } from './storageService';
+import type { AICacheRecord } from './migrations';
+
+/**
+ * Persisted AI answers, keyed by a hash of the decoded audio rather than the file, so a
+ * re-import of the same track (renamed, re-tagged) or another difficulty of it skips Gemini.
+ * The key also carries provider, model and prompt version: changing any of them is a miss.
+ * Failures here are logged and treated as a miss; the cache must never break generation.
+ */
+
+export type AICacheKind = AICacheRecord['kind'];
+
+export interface AICacheTag {
+    provider: string;
+    model: string;
+    promptVersion: number;
+    variant?: string; // Request options that change the answer (e.g. style preference)
+}
+
+const toHex = (digest: ArrayBuffer) =>
+    Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/** SHA-256 over the per-channel hashes of the PCM data, sample rate and length. */
+export const fingerprintAudio = async (buffer: AudioBuffer): Promise<string> => {
+    const channelHashes: string[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        channelHashes.push(toHex(await crypto.subtle.digest('SHA-256', buffer.getChannelData(c))));
+    }
+    const summary = new TextEncoder().encode(`${buffer.sampleRate}:${buffer.length}:${channelHashes.join(',')}`);
+    return toHex(await crypto.subtle.digest('SHA-256', summary));
+};
+
+const cacheId = (fingerprint: string, kind: AICacheKind, tag: AICacheTag) =>
+    [fingerprint, kind, tag.provider, tag.model, `v${tag.promptVersion}`, tag.variant || ''].join('|');
+
+export const readCachedAnalysis = async <T>(fingerprint: string, kind: AICacheKind, tag: AICacheTag): Promise<T | undefined> => {
+    try {
+        const entry = await getAICacheEntry<T>(cacheId(fingerprint, kind, tag));
+        return entry?.value;
+    } catch (e) {
+        console.warn("AI cache read failed:", e);
+        return undefined;
+    }
+};
+
+export const writeCachedAnalysis = async <T>(fingerprint: string, kind: AICacheKind, tag: AICacheTag, value: T): Promise<void> => {
+    try {
+        await putAICacheEntry({
+            id: cacheId(fingerprint, kind, tag),
+            fingerprint,
+            kind,
+            provider: tag.provider,
+            model: tag.model,
+            promptVersion: tag.promptVersion,
+            value,
+            createdAt: Date.now()
+        });
+    } catch (e) {
+        console.warn("AI cache write failed:", e);
+    }
+};
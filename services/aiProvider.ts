@@ -0,0 +1,105 @@
+
+import { AITheme, SongStructure } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockAIProvider } from "./mockAIProvider";
+
+/**
+ * Everything the app asks of an AI backend. Gemini is the real implementation; the mock
+ * answers from fixtures so generation and the editor copilot can be exercised offline.
+ * Another LLM backend only has to implement AIProvider and register in createAIProvider.
+ */
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+    gemini: 'Google Gemini',
+    mock: '本地模拟 (离线)'
+};
+
+// Where each provider looks up title / artist / theme, shown on the loading screen
+export const AI_METADATA_SOURCES: Record<AIProviderId, string> = {
+    gemini: 'Google Search',
+    mock: '本地样例'
+};
+
+export interface GenerationOptions {
+    difficultyLevel?: number; // 1-20
+    stylePreference?: string; // 'Balanced' | 'Stream' | 'Tech' | 'Flow'
+    modelOverride?: string; // Allow forcing a model (e.g. Pro)
+    signal?: AbortSignal; // Aborts the request and any pending retry
+}
+
+export interface MetadataResult {
+    title: string;
+    artist: string;
+    album?: string;
+    bpm: number;
+    theme: AITheme;
+    fromFallback?: boolean; // The model gave no usable answer and this is a local guess; never cached
+}
+
+export interface StructureRequest {
+    audioBase64: string;
+    mimeType: string;
+    duration?: number; // Seconds; lets providers that don't listen to the audio size their answer
+    options?: GenerationOptions;
+}
+
+export interface StructureResult {
+    sections: SongStructure['sections'];
+    fromFallback?: boolean; // Placeholder sections, not a model answer; never cached
+}
+
+export interface MetadataRequest {
+    filename: string;
+    audioBase64: string;
+    mimeType: string;
+    hintBPM: number; // Programmatic estimate
+    onRawOutput?: (text: string) => void;
+    signal?: AbortSignal;
+}
+
+export interface PatternRequest {
+    prompt: string;
+    params: {
+        bpm: number;
+        laneCount: number;
+        beatCount: number;
+        startTime?: number;
+    };
+    context: {
+        audioBase64?: string;
+        precedingNotes?: { lane: number, timeDiff: number }[];
+        existingNotesInWindow?: { lane: number, beatOffset: number }[];
+        structure?: SongStructure;
+    };
+    signal?: AbortSignal;
+}
+
+export interface PatternInstruction {
+    type: 'CLEAR' | 'ADD';
+    lanes?: number[];
+    notes?: { beatOffset: number, lane: number, duration: number }[];
+}
+
+export interface PatternResult {
+    instructions: PatternInstruction[];
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    requiresApiKey: boolean;
+    promptVersion: number; // Bump whenever a prompt or response schema changes; cached answers of older versions are ignored
+    metadataModel: string;
+    analyzeStructure: (request: StructureRequest) => Promise<StructureResult>;
+    analyzeMetadata: (request: MetadataRequest) => Promise<MetadataResult>;
+    generatePattern: (request: PatternRequest) => Promise<PatternResult>;
+}
+
+export const createAIProvider = (id: AIProviderId, apiKey: string): AIProvider => {
+    switch (id) {
+        case 'mock': return createMockAIProvider();
+        case 'gemini':
+        default: return createGeminiProvider(apiKey);
+    }
+};
@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { parseBackupSettings, parseBackupManifest, applyLibraryBackup, RestorePlan } from './backupService';
+import { saveSong, getSongById, hashAudio, findSongByAudioHash, backfillAudioHashes } from './storageService';
+import { SCHEMA_VERSION, SONGS_STORE, toSongRecord } from './migrations';
+import { DEFAULT_THEME, SavedSong } from '../types';
+
+const validSettings = {
+    audioOffset: -35,
+    scrollSpeed: 6.5,
+    keyConfig: { k4: ['d', 'f', 'j', 'k'], k6: ['s', 'd', 'f', 'j', 'k', 'l'] }
+};
+
+let audioSeed = 0;
+const makeSong = (overrides: Partial<SavedSong> = {}): SavedSong => ({
+    id: crypto.randomUUID(),
+    title: 'Song',
+    artist: 'Artist',
+    createdAt: 1000,
+    duration: 30,
+    audioData: new Uint8Array([++audioSeed, 2, 3, 4]).buffer, // Distinct audio per song
+    charts: [{ id: 'chart', difficultyName: 'HARD', laneCount: 4, notes: [], difficultyRating: 0, createdAt: 1000 }],
+    structure: { bpm: 120, sections: [] },
+    theme: DEFAULT_THEME,
+    ...overrides
+});
+
+describe('parseBackupSettings', () => {
+    it('accepts settings the app could have written', () => {
+        expect(parseBackupSettings(validSettings)).toEqual(validSettings);
+    });
+
+    it.each([
+        ['missing', undefined],
+        ['offset as text', { ...validSettings, audioOffset: '20' }],
+        ['offset out of range', { ...validSettings, audioOffset: 1e9 }],
+        ['speed not finite', { ...validSettings, scrollSpeed: null }],
+        ['speed out of range', { ...validSettings, scrollSpeed: 0 }],
+        ['missing bindings', { ...validSettings, keyConfig: undefined }],
+        ['short 4K bindings', { ...validSettings, keyConfig: { ...validSettings.keyConfig, k4: ['d', 'f', 'j'] } }],
+        ['duplicate 6K bindings', { ...validSettings, keyConfig: { ...validSettings.keyConfig, k6: ['s', 's', 'f', 'j', 'k', 'l'] } }],
+        ['non-key bindings', { ...validSettings, keyConfig: { ...validSettings.keyConfig, k4: ['d', 'f', 'j', 7] } }]
+    ])('rejects %s', (_, raw) => {
+        expect(parseBackupSettings(raw)).toBeUndefined();
+    });
+});
+
+describe('parseBackupManifest', () => {
+    const manifest = (overrides: Record<string, unknown> = {}) => ({
+        _isNeonFlowBackup: true,
+        version: 1,
+        createdAt: 1000,
+        settings: validSettings,
+        songs: [{ song: { id: 'a', charts: [] }, audioHash: 'abc' }],
+        ...overrides
+    });
+
+    it('accepts a manifest the app could have written', () => {
+        expect(parseBackupManifest(manifest()).songs).toHaveLength(1);
+    });
+
+    it.each([
+        ['not an object', 'backup'],
+        ['unsigned', manifest({ _isNeonFlowBackup: undefined })],
+        ['from a newer app', manifest({ version: 99 })],
+        ['without songs', manifest({ songs: undefined })],
+        ['songs as an object', manifest({ songs: {} })],
+        ['an entry without a hash', manifest({ songs: [{ song: { id: 'a' } }] })],
+        ['an entry without a song', manifest({ songs: [{ audioHash: 'abc' }] })]
+    ])('rejects %s', (_, raw) => {
+        expect(() => parseBackupManifest(raw)).toThrow(/备份/);
+    });
+});
+
+describe('audio hashes', () => {
+    it('are stored with the song and found through the index', async () => {
+        const song = makeSong({ coverArt: 'data:image/png;base64,AAAA' });
+        await saveSong(song);
+        const hash = await hashAudio(song.audioData);
+
+        const found = await findSongByAudioHash(hash);
+        expect(found?.id).toBe(song.id);
+        expect(found?.audioHash).toBe(hash);
+        expect(found?.coverArt).toBe(song.coverArt);
+        expect(found?.audioData.byteLength).toBe(0);
+        expect(await findSongByAudioHash('missing')).toBeUndefined();
+    });
+
+    it('are backfilled for rows saved without one', async () => {
+        const song = makeSong();
+        await saveSong(song);
+        // Strip the hash as a pre-v7 row would lack it
+        const db = await new Promise<IDBDatabase>((resolve, reject) => {
+            const req = indexedDB.open('NeonFlowDB', SCHEMA_VERSION);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(SONGS_STORE, 'readwrite');
+            tx.objectStore(SONGS_STORE).put(toSongRecord({ ...song, audioHash: undefined }));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        db.close();
+
+        const hash = await hashAudio(song.audioData);
+        expect(await findSongByAudioHash(hash)).toBeUndefined();
+        expect(await backfillAudioHashes()).toBe(1);
+        expect((await findSongByAudioHash(hash))?.id).toBe(song.id);
+        expect(await backfillAudioHashes()).toBe(0);
+    });
+});
+
+describe('applyLibraryBackup', () => {
+    const planFor = async (incoming: SavedSong): Promise<RestorePlan> => {
+        const audioHash = await hashAudio(incoming.audioData);
+        const { audioData, ...song } = incoming;
+        return {
+            createdAt: Date.now(),
+            settings: validSettings,
+            items: [{ entry: { song, audioHash }, existing: await findSongByAudioHash(audioHash) }],
+            libraryIds: new Set(),
+            zip: new JSZip()
+        };
+    };
+
+    it('drops the old cover when overwriting with a song that has none', async () => {
+        const mine = makeSong({ title: 'Mine', coverArt: 'data:image/png;base64,OLD' });
+        await saveSong(mine);
+        const theirs: SavedSong = { ...makeSong({ title: 'Theirs', audioData: mine.audioData }), coverArt: undefined };
+
+        const summary = await applyLibraryBackup(await planFor(theirs), 'OVERWRITE');
+        expect(summary.overwritten).toBe(1);
+
+        const restored = await getSongById(mine.id);
+        expect(restored?.title).toBe('Theirs');
+        expect(restored?.coverArt).toBeUndefined();
+        expect(restored?.audioHash).toBe(await hashAudio(mine.audioData));
+        expect([...new Uint8Array(restored!.audioData)]).toEqual([...new Uint8Array(mine.audioData)]);
+    });
+
+    it('keeps the old cover when merging', async () => {
+        const mine = makeSong({ coverArt: 'data:image/png;base64,OLD' });
+        await saveSong(mine);
+        const theirs: SavedSong = { ...makeSong({ audioData: mine.audioData }), coverArt: undefined };
+
+        await applyLibraryBackup(await planFor(theirs), 'MERGE');
+        expect((await getSongById(mine.id))?.coverArt).toBe(mine.coverArt);
+    });
+});
@@ -0,0 +1,249 @@
+
+import JSZip from 'jszip';
+import { BeatmapChart, KeyConfig, SavedSong } from '../types';
+import { getAllSongs, getSongById, saveSong, downloadBlob, hashAudio, findSongByAudioHash, backfillAudioHashes } from './storageService';
+import { migrateSongRecord } from './migrations';
+
+/**
+ * Whole-library backup (.nfbak): every song with its charts, results, play counts and
+ * favourite flag, plus the player's settings. Audio is stored once per content hash,
+ * and the same hash is what restore uses to recognise songs already in the library.
+ */
+
+const BACKUP_FORMAT_VERSION = 1;
+const BACKUP_MANIFEST = 'backup.json';
+
+export interface BackupSettings {
+    audioOffset: number;
+    scrollSpeed: number;
+    keyConfig: KeyConfig;
+}
+
+export type RestoreStrategy = 'MERGE' | 'SKIP' | 'OVERWRITE';
+
+interface BackupSongEntry {
+    song: Omit<SavedSong, 'audioData'>;
+    audioHash: string;
+}
+
+interface BackupManifest {
+    _isNeonFlowBackup: true;
+    version: number;
+    createdAt: number;
+    settings: BackupSettings;
+    songs: BackupSongEntry[];
+}
+
+export interface RestoreItem {
+    entry: BackupSongEntry;
+    existing?: SavedSong; // Library song with identical audio, if any
+}
+
+/** Parsed backup, ready to be applied once the user picks a conflict strategy. */
+export interface RestorePlan {
+    createdAt: number;
+    settings?: BackupSettings; // Missing when the backup's settings are malformed
+    items: RestoreItem[];
+    libraryIds: Set<string>;
+    zip: JSZip;
+}
+
+export interface RestoreSummary {
+    added: number;
+    merged: number;
+    overwritten: number;
+    skipped: number;
+}
+
+// Same bounds the settings screens allow, with some slack for the offset's +/- buttons
+const MAX_AUDIO_OFFSET_MS = 1000;
+const MIN_SCROLL_SPEED = 1;
+const MAX_SCROLL_SPEED = 10;
+
+const isKeyList = (keys: unknown, length: number): keys is string[] =>
+    Array.isArray(keys) && keys.length === length &&
+    keys.every(k => typeof k === 'string' && k.length === 1) &&
+    new Set(keys).size === length;
+
+/** The manifest is user-supplied; settings are only offered for restore if every field is usable. */
+export const parseBackupSettings = (raw: any): BackupSettings | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const { audioOffset, scrollSpeed, keyConfig } = raw;
+    if (typeof audioOffset !== 'number' || !Number.isFinite(audioOffset) || Math.abs(audioOffset) > MAX_AUDIO_OFFSET_MS) return undefined;
+    if (typeof scrollSpeed !== 'number' || !(scrollSpeed >= MIN_SCROLL_SPEED && scrollSpeed <= MAX_SCROLL_SPEED)) return undefined;
+    if (!keyConfig || !isKeyList(keyConfig.k4, 4) || !isKeyList(keyConfig.k6, 6)) return undefined;
+    return {
+        audioOffset,
+        scrollSpeed,
+        keyConfig: { k4: keyConfig.k4.map((k: string) => k.toLowerCase()), k6: keyConfig.k6.map((k: string) => k.toLowerCase()) }
+    };
+};
+
+const isSongEntry = (entry: any): entry is BackupSongEntry =>
+    !!entry && typeof entry === 'object' &&
+    !!entry.song && typeof entry.song === 'object' && typeof entry.song.id === 'string' &&
+    typeof entry.audioHash === 'string' && entry.audioHash.length > 0;
+
+/** Checks the manifest's shape before anything is looked up or written; settings are checked separately. */
+export const parseBackupManifest = (raw: any): BackupManifest => {
+    if (!raw || typeof raw !== 'object' || raw._isNeonFlowBackup !== true) throw new Error("无效的 NeonFlow 备份 (缺少签名)");
+    if (typeof raw.version !== 'number') throw new Error("无效的 NeonFlow 备份 (缺少版本号)");
+    if (raw.version > BACKUP_FORMAT_VERSION) throw new Error("备份版本过新，请更新 NeonFlow 后再试");
+    if (!Array.isArray(raw.songs) || !raw.songs.every(isSongEntry)) throw new Error("无效的 NeonFlow 备份 (歌曲列表已损坏)");
+    return {
+        _isNeonFlowBackup: true,
+        version: raw.version,
+        createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+        settings: raw.settings,
+        songs: raw.songs
+    };
+};
+
+const audioPath = (hash: string) => `audio/${hash}.bin`;
+
+export const exportLibraryBackup = async (settings: BackupSettings): Promise<number> => {
+    const zip = new JSZip();
+    const songs = await getAllSongs();
+    const entries: BackupSongEntry[] = [];
+
+    // One song at a time so only a single audio buffer is held outside the archive
+    for (const listed of songs) {
+        const full = await getSongById(listed.id);
+        if (!full) continue;
+        const audioHash = full.audioHash || await hashAudio(full.audioData);
+        if (!zip.file(audioPath(audioHash))) {
+            zip.file(audioPath(audioHash), full.audioData, { compression: "STORE" });
+        }
+        const { audioData, ...song } = full;
+        entries.push({ song, audioHash });
+    }
+
+    const manifest: BackupManifest = {
+        _isNeonFlowBackup: true,
+        version: BACKUP_FORMAT_VERSION,
+        createdAt: Date.now(),
+        settings,
+        songs: entries
+    };
+    zip.file(BACKUP_MANIFEST, JSON.stringify(manifest));
+
+    const blob = await zip.generateAsync({ type: "blob" });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `NeonFlow-Backup-${date}.nfbak`);
+    return entries.length;
+};
+
+/**
+ * Reads a backup and matches every song against the library by audio hash. Nothing in the library
+ * changes except that songs saved before hashes were stored get theirs filled in.
+ */
+export const readLibraryBackup = async (file: File): Promise<RestorePlan> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (e) {
+        throw new Error("无法读取备份文件：压缩包已损坏");
+    }
+    const manifestFile = zip.file(BACKUP_MANIFEST);
+    if (!manifestFile) throw new Error("无效的 NeonFlow 备份 (缺少 backup.json)");
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await manifestFile.async("string"));
+    } catch (e) {
+        throw new Error("无效的 NeonFlow 备份 (backup.json 已损坏)");
+    }
+    const manifest = parseBackupManifest(raw);
+
+    // Only touch the library once the backup is known to be usable
+    await backfillAudioHashes();
+    const library = await getAllSongs();
+    const items: RestoreItem[] = [];
+    for (const entry of manifest.songs) {
+        items.push({ entry, existing: await findSongByAudioHash(entry.audioHash) });
+    }
+
+    const settings = parseBackupSettings(manifest.settings);
+    if (!settings) console.warn("Backup settings are malformed and will not be restored", manifest.settings);
+
+    return {
+        createdAt: manifest.createdAt,
+        settings,
+        items,
+        libraryIds: new Set(library.map(s => s.id)),
+        zip
+    };
+};
+
+const mergeChart = (mine: BeatmapChart, theirs: BeatmapChart): BeatmapChart => {
+    const best = [mine.bestResult, theirs.bestResult]
+        .filter(Boolean)
+        .sort((a, b) => b!.score - a!.score)[0];
+    return {
+        ...mine,
+        bestResult: best,
+        playCount: Math.max(mine.playCount || 0, theirs.playCount || 0)
+    };
+};
+
+/**
+ * Merge keeps the library's notes and metadata, adds charts only the backup has,
+ * and for shared charts keeps the better result and the higher play count.
+ */
+export const mergeSongs = (existing: SavedSong, incoming: Omit<SavedSong, 'audioData'>): SavedSong => {
+    const incomingById = new Map(incoming.charts.map(c => [c.id, c]));
+    const charts = existing.charts.map(c => incomingById.has(c.id) ? mergeChart(c, incomingById.get(c.id)!) : c);
+    const known = new Set(existing.charts.map(c => c.id));
+    incoming.charts.forEach(c => { if (!known.has(c.id)) charts.push(c); });
+
+    return {
+        ...existing,
+        coverArt: existing.coverArt || incoming.coverArt,
+        isFavorite: existing.isFavorite || incoming.isFavorite,
+        charts
+    };
+};
+
+export const applyLibraryBackup = async (plan: RestorePlan, strategy: RestoreStrategy): Promise<RestoreSummary> => {
+    const summary: RestoreSummary = { added: 0, merged: 0, overwritten: 0, skipped: 0 };
+
+    for (const { entry, existing } of plan.items) {
+        const incoming = migrateSongRecord(entry.song);
+
+        if (existing) {
+            if (strategy === 'SKIP') {
+                summary.skipped++;
+            } else if (strategy === 'MERGE') {
+                await saveSong(mergeSongs(existing, incoming));
+                summary.merged++;
+            } else {
+                // Keep the library id so nothing pointing at the old song breaks; a backup without
+                // a cover must not leave the old one behind
+                await saveSong(
+                    { ...incoming, id: existing.id, audioHash: entry.audioHash, audioData: new ArrayBuffer(0) },
+                    { replaceCover: true }
+                );
+                summary.overwritten++;
+            }
+            continue;
+        }
+
+        const audioFile = plan.zip.file(audioPath(entry.audioHash));
+        if (!audioFile) {
+            console.warn(`Backup is missing audio for ${incoming.title}`);
+            summary.skipped++;
+            continue;
+        }
+        // Ids only collide here if the same song was re-imported with different audio
+        const id = plan.libraryIds.has(incoming.id) ? crypto.randomUUID() : incoming.id;
+        plan.libraryIds.add(id);
+        await saveSong({
+            ...incoming,
+            id,
+            audioData: await audioFile.async("arraybuffer")
+        });
+        summary.added++;
+    }
+
+    return summary;
+};
@@ -0,0 +1,104 @@
+
+import { GoogleGenAI } from "@google/genai";
+import { cancelledError, isCancelled, throwIfAborted } from "../utils/abort";
+
+/**
+ * Plumbing shared by every Gemini call: key resolution, JSON extraction and retries.
+ */
+
+export const getEffectiveKey = (userKey?: string) => {
+  if (userKey && userKey.trim().length > 0) {
+    return userKey.trim();
+  }
+  return process.env.API_KEY || '';
+};
+
+export const createGeminiClient = (apiKey: string) => new GoogleGenAI({ apiKey });
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/** Index just past the object that opens at `start`, honouring strings and escapes; -1 if it never closes. */
+const findObjectEnd = (text: string, start: number): number => {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const c = text[i];
+        if (inString) {
+            if (c === '\\') i++;
+            else if (c === '"') inString = false;
+        } else if (c === '"') {
+            inString = true;
+        } else if (c === '{' || c === '[') {
+            depth++;
+        } else if (c === '}' || c === ']') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return -1;
+};
+
+// Trailing commas are the most common reason an otherwise complete answer fails to parse
+const stripTrailingCommas = (json: string) => json.replace(/,(\s*[}\]])/g, '$1');
+
+/**
+ * Pulls the first JSON object out of a model reply, tolerating prose or code fences around it
+ * and trailing commas inside it.
+ */
+export const parseJsonResponse = (text: string): any => {
+    const cleanStr = text.trim().replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
+
+    for (let start = cleanStr.indexOf('{'); start !== -1; start = cleanStr.indexOf('{', start + 1)) {
+        const end = findObjectEnd(cleanStr, start);
+        if (end === -1) break;
+        const candidate = cleanStr.substring(start, end);
+        try {
+            return JSON.parse(candidate);
+        } catch (parseError) {
+            try {
+                const repaired = JSON.parse(stripTrailingCommas(candidate));
+                console.warn("JSON repaired: removed trailing commas");
+                return repaired;
+            } catch (e) {
+                console.warn("JSON Parse Error:", parseError);
+            }
+        }
+    }
+    throw new Error("Failed to parse JSON response");
+};
+
+export interface GenerateJsonOptions {
+    label: string; // Names the call in retry warnings
+    maxRetries?: number;
+    onRawOutput?: (text: string) => void;
+    signal?: AbortSignal; // Aborts the request and any pending retry
+}
+
+export const generateJsonWithRetry = async (
+    ai: GoogleGenAI,
+    model: string,
+    prompt: { contents: any; config?: any },
+    { label, maxRetries = 3, onRawOutput, signal }: GenerateJsonOptions
+): Promise<any> => {
+    let lastError;
+    for (let i = 0; i < maxRetries; i++) {
+        throwIfAborted(signal);
+        try {
+            const response = await ai.models.generateContent({
+                model: model,
+                contents: prompt.contents,
+                config: { ...prompt.config, abortSignal: signal }
+            });
+
+            if (!response.text) throw new Error("Empty response text");
+            if (onRawOutput) onRawOutput(response.text);
+            return parseJsonResponse(response.text);
+        } catch (e: any) {
+            if (signal?.aborted || isCancelled(e)) throw cancelledError();
+            console.warn(`${label} Attempt ${i+1} failed:`, e);
+            lastError = e;
+            if (i < maxRetries - 1) await sleep(1500 * (i + 1));
+        }
+    }
+    throw lastError;
+};
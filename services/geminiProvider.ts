@@ -0,0 +1,18 @@
+
+import { analyzeStructureWithGemini, generatePatternWithGemini } from "./geminiService";
+import { analyzeMetadataWithGemini, METADATA_MODEL } from "./metadataService";
+import type { AIProvider } from "./aiProvider";
+
+const GEMINI_PROMPT_VERSION = 1;
+
+export const createGeminiProvider = (apiKey: string): AIProvider => ({
+    id: 'gemini',
+    requiresApiKey: true,
+    promptVersion: GEMINI_PROMPT_VERSION,
+    metadataModel: METADATA_MODEL,
+    analyzeStructure: ({ audioBase64, mimeType, options }) =>
+        analyzeStructureWithGemini(audioBase64, mimeType, apiKey, options),
+    analyzeMetadata: ({ filename, audioBase64, mimeType, hintBPM, onRawOutput, signal }) =>
+        analyzeMetadataWithGemini(filename, audioBase64, mimeType, hintBPM, apiKey, onRawOutput, signal),
+    generatePattern: (request) => generatePatternWithGemini(request, apiKey)
+});
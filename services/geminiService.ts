@@ -1,57 +1,9 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { SongStructure } from "../types";
-
-const getEffectiveKey = (userKey?: string) => {
-  if (userKey && userKey.trim().length > 0) {
-    return userKey.trim();
-  }
-  return process.env.API_KEY || '';
-};
-
-export interface GenerationOptions {
-    difficultyLevel?: number; // 1-20
-    stylePreference?: string; // 'Balanced' | 'Stream' | 'Tech' | 'Flow'
-    modelOverride?: string; // Allow forcing a model (e.g. Pro)
-}
-
-const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
-
-const generateWithRetry = async (
-    ai: GoogleGenAI, 
-    model: string, 
-    prompt: any, 
-    maxRetries = 3
-): Promise<any> => {
-    let lastError;
-    for (let i = 0; i < maxRetries; i++) {
-        try {
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: prompt.contents,
-                config: prompt.config
-            });
-            
-            if (response.text) {
-                // Sanitize JSON
-                const text = response.text;
-                const firstBrace = text.indexOf('{');
-                const lastBrace = text.lastIndexOf('}');
-                if (firstBrace !== -1 && lastBrace !== -1) {
-                    return JSON.parse(text.substring(firstBrace, lastBrace + 1));
-                }
-                return JSON.parse(text); 
-            } else {
-                throw new Error("Empty response text");
-            }
-        } catch (e: any) {
-            console.warn(`Gemini Structure Attempt ${i+1} failed:`, e);
-            lastError = e;
-            if (i < maxRetries - 1) await sleep(1500 * (i + 1));
-        }
-    }
-    throw lastError;
-};
+import { isCancelled } from "../utils/abort";
+import { getEffectiveKey, createGeminiClient, generateJsonWithRetry } from "./geminiClient";
+import type { GenerationOptions, PatternRequest, PatternResult, StructureResult } from "./aiProvider";
 
 /**
  * AI 决策层：仅分析歌曲结构 (Structure)
@@ -62,7 +14,7 @@ export const analyzeStructureWithGemini = async (
   mimeType: string,
   userApiKey?: string,
   options: GenerationOptions = {}
-): Promise<{ sections: SongStructure['sections'] }> => {
+): Promise<StructureResult> => {
   
   const apiKey = getEffectiveKey(userApiKey);
 
@@ -77,10 +29,10 @@ export const analyzeStructureWithGemini = async (
   
   if (!apiKey) {
     console.warn("No API Key provided, using DSP fallback.");
-    return { sections: defaultSections };
+    return { sections: defaultSections, fromFallback: true };
   }
 
-  const ai = new GoogleGenAI({ apiKey });
+  const ai = createGeminiClient(apiKey);
   const modelName = options.modelOverride || 'gemini-3-flash-preview';
 
   try {
@@ -217,56 +169,38 @@ export const analyzeStructureWithGemini = async (
     };
 
     try {
-        const data = await generateWithRetry(ai, modelName, promptPayload, 3);
+        const data = await generateJsonWithRetry(ai, modelName, promptPayload, { label: "Gemini Structure", signal: options.signal });
+        
+        if (!data.sections) return { sections: defaultSections, fromFallback: true };
         
-        let sectionsResult = defaultSections;
-        if (data.sections) {
-            sectionsResult = data.sections.map((s: any) => ({
+        return {
+            sections: data.sections.map((s: any) => ({
                 ...s,
                 descriptors: s.descriptors || { flow: 'random', hand_bias: 'balanced', focus: 'melody' }
-            }));
-        }
-        
-        return { sections: sectionsResult };
+            }))
+        };
 
     } catch (e: any) {
+        if (isCancelled(e)) throw e;
         throw new Error("AI_RETRY_EXHAUSTED");
     }
 
   } catch (error: any) {
+    if (isCancelled(error)) throw error;
     console.error("Gemini Analysis Failed:", error);
     if (error.message === "AI_RETRY_EXHAUSTED") throw error;
     throw error;
   }
 };
 
-// ... generatePatternWithGemini logic remains similar but ensures robust return ...
 export const generatePatternWithGemini = async (
-    prompt: string,
-    params: {
-        bpm: number;
-        laneCount: number;
-        beatCount: number; 
-        startTime?: number; 
-    },
-    context: {
-        audioBase64?: string; 
-        precedingNotes?: { lane: number, timeDiff: number }[]; 
-        existingNotesInWindow?: { lane: number, beatOffset: number }[]; 
-        structure?: SongStructure; 
-    },
+    { prompt, context, signal }: PatternRequest,
     userApiKey?: string
-): Promise<{ 
-    instructions: {
-        type: 'CLEAR' | 'ADD';
-        lanes?: number[]; 
-        notes?: { beatOffset: number, lane: number, duration: number }[]; 
-    }[]
-}> => {
+): Promise<PatternResult> => {
     const apiKey = getEffectiveKey(userApiKey);
     if (!apiKey) throw new Error("API Key Missing");
 
-    const ai = new GoogleGenAI({ apiKey });
+    const ai = createGeminiClient(apiKey);
 
     // Build structure info string
     const structureContext = context.structure?.sections.map(s => 
@@ -287,8 +221,7 @@ export const generatePatternWithGemini = async (
     }
     contents.push({ text: `User Prompt: "${prompt}"` });
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+    const data = await generateJsonWithRetry(ai, 'gemini-3-flash-preview', {
         contents: { parts: contents },
         config: {
             systemInstruction: systemInstruction,
@@ -323,10 +256,7 @@ export const generatePatternWithGemini = async (
                 required: ['instructions']
             }
         }
-    });
+    }, { label: "Gemini Pattern", maxRetries: 1, signal });
 
-    if (response.text) {
-        return JSON.parse(response.text);
-    }
-    return { instructions: [] };
+    return { instructions: data.instructions || [] };
 };
@@ -1,79 +1,11 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AITheme, DEFAULT_THEME } from "../types";
+import { Type } from "@google/genai";
+import { DEFAULT_THEME } from "../types";
+import { isCancelled } from "../utils/abort";
+import { getEffectiveKey, createGeminiClient, generateJsonWithRetry } from "./geminiClient";
+import type { MetadataResult } from "./aiProvider";
 
-const getEffectiveKey = (userKey?: string) => {
-  if (userKey && userKey.trim().length > 0) {
-    return userKey.trim();
-  }
-  return process.env.API_KEY || '';
-};
-
-export interface MetadataResult {
-    title: string;
-    artist: string;
-    album?: string;
-    bpm: number;
-    theme: AITheme;
-}
-
-const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
-
-const generateWithRetry = async (
-    ai: GoogleGenAI, 
-    model: string, 
-    prompt: any, 
-    maxRetries = 3,
-    onRawOutput?: (text: string) => void
-): Promise<any> => {
-    let lastError;
-    for (let i = 0; i < maxRetries; i++) {
-        try {
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: prompt.contents,
-                config: prompt.config
-            });
-            
-            if (response.text) {
-                if (onRawOutput) onRawOutput(response.text);
-
-                // Robust JSON Parsing: Find first '{' and last '}'
-                const text = response.text;
-                const firstBrace = text.indexOf('{');
-                const lastBrace = text.lastIndexOf('}');
-                
-                if (firstBrace !== -1 && lastBrace !== -1) {
-                    const jsonStr = text.substring(firstBrace, lastBrace + 1);
-                    try {
-                        const data = JSON.parse(jsonStr);
-                        return data; 
-                    } catch (parseError) {
-                        console.warn("JSON Parse Error:", parseError);
-                    }
-                }
-                
-                // Fallback: try cleaning code blocks
-                let cleanStr = text.trim();
-                if (cleanStr.startsWith('```')) {
-                    cleanStr = cleanStr.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
-                    try {
-                        return JSON.parse(cleanStr);
-                    } catch(e) {}
-                }
-                
-                throw new Error("Failed to parse JSON response");
-            } else {
-                throw new Error("Empty response text");
-            }
-        } catch (e: any) {
-            console.warn(`Metadata Analysis Attempt ${i+1} failed:`, e);
-            lastError = e;
-            if (i < maxRetries - 1) await sleep(1500 * (i + 1));
-        }
-    }
-    throw lastError;
-};
+export const METADATA_MODEL = 'gemini-3-flash-preview';
 
 export const analyzeMetadataWithGemini = async (
   filename: string, 
@@ -81,7 +13,8 @@ export const analyzeMetadataWithGemini = async (
   mimeType: string,
   hintBPM: number, // Programmatic estimate
   userApiKey?: string,
-  onRawOutput?: (text: string) => void
+  onRawOutput?: (text: string) => void,
+  signal?: AbortSignal
 ): Promise<MetadataResult> => {
   
   const apiKey = getEffectiveKey(userApiKey);
@@ -91,13 +24,14 @@ export const analyzeMetadataWithGemini = async (
       title: filename.replace(/\.[^/.]+$/, "").replace(/_/g, " "),
       artist: "Unknown Artist",
       bpm: hintBPM,
-      theme: DEFAULT_THEME
+      theme: DEFAULT_THEME,
+      fromFallback: true
   };
 
   if (!apiKey) return fallbackResult;
 
-  const ai = new GoogleGenAI({ apiKey });
-  const modelName = 'gemini-3-flash-preview'; 
+  const ai = createGeminiClient(apiKey);
+  const modelName = METADATA_MODEL; 
 
   const systemInstruction = `
     你是一位专业的音乐元数据归档专家。
@@ -179,7 +113,7 @@ DSP 估算 BPM: ${hintBPM}
   };
 
   try {
-      const data = await generateWithRetry(ai, modelName, promptPayload, 3, onRawOutput);
+      const data = await generateJsonWithRetry(ai, modelName, promptPayload, { label: "Metadata Analysis", onRawOutput, signal });
       
       // Post-processing to enforce space rule in case AI hallucinates brackets despite prompt
       let cleanTitle = data.identifiedTitle || fallbackResult.title;
@@ -202,6 +136,7 @@ DSP 估算 BPM: ${hintBPM}
       };
 
   } catch (error) {
+      if (isCancelled(error)) throw error; // Cancelling must not be mistaken for "AI found nothing"
       console.error("Gemini Metadata Analysis Failed:", error);
       return fallbackResult;
   }
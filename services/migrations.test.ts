@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+    SCHEMA_VERSION, SONGS_STORE, AUDIO_STORE, COVER_STORE, AI_CACHE_STORE, WAVEFORM_STORE, SONG_INDEXES, AUDIO_HASH_INDEX,
+    migrateSongRecord, getRecordVersion, runUpgrade, toSongRecord, SongRecord, BlobRecord
+} from './migrations';
+import { DEFAULT_THEME } from '../types';
+
+const structure = { bpm: 120, sections: [{ startTime: 0, endTime: 30, type: 'verse', intensity: 0.5, style: 'stream' }] };
+
+const legacyNotes = [
+    { id: 'a', time: 1, lane: 0, duration: 0, hit: false, visible: true, isHolding: false },
+    { id: 'b', time: 1.5, lane: 1, duration: 0.5, hit: false, visible: true, isHolding: false },
+    { id: 'c', time: 2, lane: 2, duration: 0, hit: false, visible: true, isHolding: false, type: 'CATCH' }
+];
+
+const audioBytes = () => new Uint8Array([1, 2, 3, 4]).buffer;
+
+// v1: one flat `notes` array on the song, rating and results beside it
+const v1Record = () => ({
+    id: 'song-v1',
+    title: 'Old Song',
+    artist: 'Someone',
+    createdAt: 1000,
+    duration: 30,
+    audioData: audioBytes(),
+    coverArt: 'data:image/png;base64,AAAA',
+    notes: legacyNotes,
+    difficultyRating: 99, // Stale; recomputed on the way up
+    bestResult: { score: 1234 },
+    playCount: 3,
+    structure,
+    theme: DEFAULT_THEME
+});
+
+// v2: charts, but never stamped with a schemaVersion
+const v2Record = () => ({
+    id: 'song-v2',
+    title: 'Charted Song',
+    artist: 'Someone',
+    createdAt: 2000,
+    duration: 30,
+    audioData: audioBytes(),
+    coverArt: 'data:image/png;base64,BBBB',
+    charts: [{ id: 'chart-1', difficultyName: 'Hard', laneCount: 4, notes: legacyNotes, difficultyRating: 99, createdAt: 2000 }],
+    structure,
+    theme: DEFAULT_THEME
+});
+
+// v3: stamped, ratings current, audio and cover still inline
+const v3Record = () => ({
+    ...v2Record(),
+    id: 'song-v3',
+    charts: [{ id: 'chart-1', difficultyName: 'Hard', laneCount: 4, notes: legacyNotes.map(n => ({ type: 'NORMAL', ...n })), difficultyRating: 7.5, createdAt: 2000 }],
+    schemaVersion: 3
+});
+
+describe('migrateSongRecord', () => {
+    it('tells unversioned records apart by shape', () => {
+        expect(getRecordVersion(v1Record())).toBe(1);
+        expect(getRecordVersion(v2Record())).toBe(2);
+        expect(getRecordVersion(v3Record())).toBe(3);
+    });
+
+    it('moves v1 flat notes into a single chart', () => {
+        const song = migrateSongRecord(v1Record());
+        expect(song.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(song).not.toHaveProperty('notes');
+        expect(song).not.toHaveProperty('difficultyRating');
+        expect(song.charts).toHaveLength(1);
+
+        const [chart] = song.charts;
+        expect(chart.laneCount).toBe(4);
+        expect(chart.notes.map(n => n.type)).toEqual(['NORMAL', 'NORMAL', 'CATCH']);
+        expect(chart.difficultyRating).not.toBe(99);
+        expect(chart.bestResult).toEqual({ score: 1234 });
+        expect(chart.playCount).toBe(3);
+        expect(chart.createdAt).toBe(1000);
+    });
+
+    it('normalizes v2 chart notes and recomputes their rating', () => {
+        const song = migrateSongRecord(v2Record());
+        expect(song.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(song.charts[0].id).toBe('chart-1');
+        expect(song.charts[0].notes.every(n => n.type !== undefined)).toBe(true);
+        expect(song.charts[0].difficultyRating).not.toBe(99);
+    });
+
+    it('only restamps v3 and later records', () => {
+        const record = v3Record();
+        const song = migrateSongRecord(record);
+        expect(song.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(song.charts).toEqual(record.charts);
+
+        const v5 = { ...toSongRecord(song as any), schemaVersion: 5 };
+        expect(migrateSongRecord(v5)).toEqual({ ...v5, schemaVersion: SCHEMA_VERSION });
+    });
+
+    it('rejects records from a newer schema', () => {
+        expect(() => migrateSongRecord({ ...v3Record(), schemaVersion: SCHEMA_VERSION + 1 })).toThrow();
+    });
+});
+
+describe('runUpgrade', () => {
+    let idb: IDBFactory;
+
+    beforeEach(() => {
+        idb = new IDBFactory();
+    });
+
+    const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+    // Lays out the stores exactly as that version of the app created them, then writes raw rows
+    const createLegacyDb = async (version: number, rows: Record<string, any[]>) => {
+        const open = idb.open('NeonFlowDB', version);
+        open.onupgradeneeded = () => {
+            const db = open.result;
+            const songs = db.createObjectStore(SONGS_STORE, { keyPath: 'id' });
+            if (version >= 4) {
+                db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+                db.createObjectStore(COVER_STORE, { keyPath: 'id' });
+                Object.entries(SONG_INDEXES).forEach(([name, keyPath]) => songs.createIndex(name, keyPath, { unique: false }));
+            }
+            if (version >= 5) {
+                db.createObjectStore(AI_CACHE_STORE, { keyPath: 'id' }).createIndex('fingerprint', 'fingerprint', { unique: false });
+            }
+            if (version >= 6) {
+                db.createObjectStore(WAVEFORM_STORE, { keyPath: 'id' });
+            }
+            Object.entries(rows).forEach(([store, values]) => values.forEach(v => open.transaction!.objectStore(store).put(v)));
+        };
+        (await request(open)).close();
+    };
+
+    const openCurrent = () => {
+        const open = idb.open('NeonFlowDB', SCHEMA_VERSION);
+        open.onupgradeneeded = (e) => runUpgrade(open.result, open.transaction!, e.oldVersion);
+        return request(open);
+    };
+
+    const readAll = async <T>(db: IDBDatabase, store: string) =>
+        request(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+
+    it('creates every store and index on a fresh database', async () => {
+        const db = await openCurrent();
+        expect([...db.objectStoreNames].sort()).toEqual([AI_CACHE_STORE, AUDIO_STORE, COVER_STORE, SONGS_STORE, WAVEFORM_STORE].sort());
+        expect([...db.transaction(SONGS_STORE).objectStore(SONGS_STORE).indexNames].sort()).toEqual([...Object.keys(SONG_INDEXES), AUDIO_HASH_INDEX].sort());
+        db.close();
+    });
+
+    it.each([
+        ['v1', v1Record()],
+        ['v2', v2Record()],
+        ['v3', v3Record()]
+    ])('splits a %s row into song, audio and cover records', async (_, legacy) => {
+        await createLegacyDb(3, { [SONGS_STORE]: [legacy] });
+        const db = await openCurrent();
+
+        const [song] = await readAll<SongRecord>(db, SONGS_STORE);
+        expect(song.id).toBe(legacy.id);
+        expect(song.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(song).not.toHaveProperty('audioData');
+        expect(song).not.toHaveProperty('coverArt');
+        expect(song).not.toHaveProperty('notes');
+        expect(song.charts).toHaveLength(1);
+        expect(song.charts[0].notes.every(n => n.type !== undefined)).toBe(true);
+        expect(song.sortKeys).toEqual({ maxRating: song.charts[0].difficultyRating, playCount: expect.any(Number), favorite: 0 });
+
+        const [audio] = await readAll<BlobRecord<ArrayBuffer>>(db, AUDIO_STORE);
+        expect(audio.id).toBe(legacy.id);
+        expect([...new Uint8Array(audio.data)]).toEqual([1, 2, 3, 4]);
+
+        const [cover] = await readAll<BlobRecord<string>>(db, COVER_STORE);
+        expect(cover).toEqual({ id: legacy.id, data: legacy.coverArt });
+        db.close();
+    });
+
+    it.each([4, 5, 6])('restamps v%i rows and leaves their payload stores alone', async (version) => {
+        const song = migrateSongRecord(v3Record());
+        const row = { ...toSongRecord(song), schemaVersion: version };
+        await createLegacyDb(version, {
+            [SONGS_STORE]: [row],
+            [AUDIO_STORE]: [{ id: row.id, data: audioBytes() }],
+            [COVER_STORE]: [{ id: row.id, data: song.coverArt }]
+        });
+        const db = await openCurrent();
+
+        expect([...db.objectStoreNames]).toContain(WAVEFORM_STORE);
+        expect([...db.objectStoreNames]).toContain(AI_CACHE_STORE);
+        expect([...db.transaction(SONGS_STORE).objectStore(SONGS_STORE).indexNames]).toContain(AUDIO_HASH_INDEX);
+        const [stored] = await readAll<SongRecord>(db, SONGS_STORE);
+        expect(stored).toEqual({ ...row, schemaVersion: SCHEMA_VERSION });
+        expect(await readAll(db, AUDIO_STORE)).toHaveLength(1);
+        expect(await readAll(db, COVER_STORE)).toEqual([{ id: row.id, data: song.coverArt }]);
+
+        const byRating = await request(db.transaction(SONGS_STORE).objectStore(SONGS_STORE).index('rating').getAll());
+        expect(byRating.map((r: SongRecord) => r.id)).toEqual([row.id]);
+        db.close();
+    });
+});
@@ -0,0 +1,237 @@
+
+import { SavedSong } from '../types';
+import type { WaveformData } from '../utils/waveform';
+import { calculateDifficultyRating } from '../utils/beatmapGenerator';
+import { migrateLegacySong, normalizeNotes, getSongMaxRating, getSongPlayCount } from '../utils/chartUtils';
+
+/**
+ * Schema history of the `songs` store. Every record carries the `schemaVersion` it was
+ * written with, and the database version always equals the newest schema version.
+ *
+ *   1: single `notes` array on the song (notes before CATCH support have no `type`)
+ *   2: notes / results moved into per-difficulty `charts`
+ *   3: difficulty ratings recomputed once with the current algorithm; `schemaVersion` stamped
+ *   4: audio and cover art moved to their own stores keyed by song id; indexed sort keys on songs
+ *   5: `aiCache` store for AI analysis results keyed by audio fingerprint (song rows unchanged)
+ *   6: `waveforms` store for the editor's precomputed waveform / spectrogram, keyed by song id (song rows unchanged)
+ *   7: `audioHash` index on songs; the hash is written whenever a song is saved with its audio,
+ *      older rows get it from backfillAudioHashes (hashing is async and can't run inside the upgrade)
+ */
+export const SCHEMA_VERSION = 7;
+
+export const SONGS_STORE = 'songs';
+export const AUDIO_STORE = 'audio';
+export const COVER_STORE = 'covers';
+export const AI_CACHE_STORE = 'aiCache';
+export const WAVEFORM_STORE = 'waveforms';
+
+export type SongSortKey = 'createdAt' | 'rating' | 'playCount' | 'favorite';
+
+// Index name -> key path on the stored song row
+export const SONG_INDEXES: Record<SongSortKey, string> = {
+    createdAt: 'createdAt',
+    rating: 'sortKeys.maxRating',
+    playCount: 'sortKeys.playCount',
+    favorite: 'sortKeys.favorite'
+};
+
+export const AUDIO_HASH_INDEX = 'audioHash';
+
+/** Row of the songs store: no audio or cover payload, plus denormalized index keys. */
+export interface SongRecord extends Omit<SavedSong, 'audioData' | 'coverArt'> {
+    sortKeys: {
+        maxRating: number;
+        playCount: number;
+        favorite: 0 | 1; // Booleans are not valid IndexedDB keys
+    };
+}
+
+export interface BlobRecord<T> {
+    id: string;
+    data: T;
+}
+
+/** Row of the aiCache store: one AI answer for one audio fingerprint, tagged with what produced it. */
+export interface AICacheRecord<T = unknown> {
+    id: string; // fingerprint + kind + provider / model / prompt version / options
+    fingerprint: string;
+    kind: 'metadata' | 'structure';
+    provider: string;
+    model: string;
+    promptVersion: number;
+    value: T;
+    createdAt: number;
+}
+
+/** Row of the waveforms store; `data.version` tells whether it is still current. */
+export interface WaveformRecord {
+    id: string; // Song id
+    data: WaveformData;
+    createdAt: number;
+}
+
+interface StoreMigration {
+    version: number;
+    upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+interface RecordMigration {
+    version: number;
+    migrate: (record: any) => any;
+}
+
+// Structural changes (stores, indexes). Run inside `onupgradeneeded` for every version above the old one.
+const STORE_MIGRATIONS: StoreMigration[] = [
+    {
+        version: 1,
+        upgrade: (db) => {
+            if (!db.objectStoreNames.contains(SONGS_STORE)) {
+                db.createObjectStore(SONGS_STORE, { keyPath: 'id' });
+            }
+        }
+    },
+    {
+        version: 4,
+        upgrade: (db, tx) => {
+            db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+            db.createObjectStore(COVER_STORE, { keyPath: 'id' });
+            const songs = tx.objectStore(SONGS_STORE);
+            (Object.keys(SONG_INDEXES) as SongSortKey[]).forEach(name => {
+                songs.createIndex(name, SONG_INDEXES[name], { unique: false });
+            });
+        }
+    },
+    {
+        version: 5,
+        upgrade: (db) => {
+            const cache = db.createObjectStore(AI_CACHE_STORE, { keyPath: 'id' });
+            cache.createIndex('fingerprint', 'fingerprint', { unique: false });
+        }
+    },
+    {
+        version: 6,
+        upgrade: (db) => {
+            db.createObjectStore(WAVEFORM_STORE, { keyPath: 'id' });
+        }
+    },
+    {
+        version: 7,
+        upgrade: (_db, tx) => {
+            // Not unique: the same audio can be imported twice as separate songs
+            tx.objectStore(SONGS_STORE).createIndex(AUDIO_HASH_INDEX, 'audioHash', { unique: false });
+        }
+    }
+];
+
+// Data fixes. Each step receives a record at `version - 1` and returns it at `version`.
+const RECORD_MIGRATIONS: RecordMigration[] = [
+    {
+        version: 2,
+        migrate: (record) => {
+            // v1 rows predating CATCH notes have no `type`; migrateLegacySong normalizes them while building the chart
+            return migrateLegacySong(record);
+        }
+    },
+    {
+        version: 3,
+        migrate: (record: SavedSong) => ({
+            ...record,
+            charts: record.charts.map(chart => {
+                const notes = normalizeNotes(chart.notes);
+                const canRate = notes.length > 0 && record.duration > 0;
+                return { ...chart, notes, difficultyRating: canRate ? calculateDifficultyRating(notes, record.duration) : chart.difficultyRating };
+            })
+        })
+    },
+    {
+        // Layout-only: the payload split happens in putSongRecord when the migrated row is written back
+        version: 4,
+        migrate: (record) => record
+    },
+    {
+        // New store only; song rows are just restamped
+        version: 5,
+        migrate: (record) => record
+    },
+    {
+        version: 6,
+        migrate: (record) => record
+    },
+    {
+        // `audioHash` is backfilled later; rows without it are simply absent from the index
+        version: 7,
+        migrate: (record) => record
+    }
+];
+
+/** Records written before versioning have no `schemaVersion`; their shape tells them apart. */
+export const getRecordVersion = (record: any): number => {
+    if (typeof record.schemaVersion === 'number') return record.schemaVersion;
+    return Array.isArray(record.charts) ? 2 : 1;
+};
+
+/** Brings a stored or imported song record up to the current schema. Current records pass through untouched. */
+export const migrateSongRecord = (record: any): SavedSong => {
+    const from = getRecordVersion(record);
+    if (from > SCHEMA_VERSION) {
+        throw new Error(`数据版本过新 (v${from})，请更新 NeonFlow 后再试`);
+    }
+    let migrated = record;
+    for (const step of RECORD_MIGRATIONS) {
+        if (step.version > from) migrated = step.migrate(migrated);
+    }
+    return { ...migrated, schemaVersion: SCHEMA_VERSION };
+};
+
+export const toSongRecord = (song: SavedSong): SongRecord => {
+    const { audioData, coverArt, ...meta } = song;
+    return {
+        ...meta,
+        schemaVersion: SCHEMA_VERSION,
+        sortKeys: {
+            maxRating: getSongMaxRating(song),
+            playCount: getSongPlayCount(song),
+            favorite: song.isFavorite ? 1 : 0
+        }
+    };
+};
+
+export const fromSongRecord = (record: SongRecord, audioData?: ArrayBuffer, coverArt?: string): SavedSong => {
+    const { sortKeys, ...song } = record;
+    return { ...song, coverArt, audioData: audioData || new ArrayBuffer(0) };
+};
+
+/**
+ * Writes a song across the three stores of `tx`.
+ * Empty audio (a lightweight listing copy) never overwrites stored audio; a missing cover keeps
+ * the stored one unless `replaceCover` is set, in which case it is deleted.
+ */
+export const putSongRecord = (tx: IDBTransaction, song: SavedSong, replaceCover = false): IDBRequest => {
+    if (song.audioData && song.audioData.byteLength > 0) {
+        tx.objectStore(AUDIO_STORE).put({ id: song.id, data: song.audioData } as BlobRecord<ArrayBuffer>);
+    }
+    if (song.coverArt) {
+        tx.objectStore(COVER_STORE).put({ id: song.id, data: song.coverArt } as BlobRecord<string>);
+    } else if (replaceCover) {
+        tx.objectStore(COVER_STORE).delete(song.id);
+    }
+    return tx.objectStore(SONGS_STORE).put(toSongRecord(song));
+};
+
+/** `onupgradeneeded` handler: structural steps first, then a single pass rewriting outdated records. */
+export const runUpgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+    for (const step of STORE_MIGRATIONS) {
+        if (step.version > oldVersion) step.upgrade(db, tx);
+    }
+    if (oldVersion === 0) return; // Fresh database, nothing to rewrite
+
+    tx.objectStore(SONGS_STORE).openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue>).result;
+        if (!cursor) return;
+        if (getRecordVersion(cursor.value) < SCHEMA_VERSION) {
+            // Pre-v4 rows still carry audioData / coverArt inline; putSongRecord moves them out
+            putSongRecord(tx, migrateSongRecord(cursor.value));
+        }
+        cursor.continue();
+    };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createMockAIProvider } from './mockAIProvider';
+import { computeOnsets, trackBeats } from '../utils/audioAnalyzer';
+import { analyzeStructureDSP, reconcileSections } from '../utils/structureAnalyzer';
+import { validateMetadata, validateSections } from '../utils/aiValidation';
+import { fitBeatGridToBpm } from '../utils/timing';
+import { generateBeatmapForRating } from '../utils/beatmapGenerator';
+import { createRng } from '../utils/random';
+import { CANCELLED } from '../utils/abort';
+import { DEFAULT_THEME } from '../types';
+
+const SAMPLE_RATE = 22050;
+const DURATION = 40;
+const BPM = 128;
+
+// Kick on every beat, noise hat on every off-beat, and a louder second half for the sections to find
+const synthesizeTrack = (): Float32Array => {
+    const data = new Float32Array(SAMPLE_RATE * DURATION);
+    const rng = createRng(7);
+    const beat = 60 / BPM;
+    for (let t = 0; t < DURATION; t += beat / 2) {
+        const onBeat = Math.round(t / beat * 2) % 2 === 0;
+        const gain = t < DURATION / 2 ? 0.5 : 1;
+        const start = Math.round(t * SAMPLE_RATE);
+        const length = Math.min(Math.round(0.08 * SAMPLE_RATE), data.length - start);
+        for (let i = 0; i < length; i++) {
+            const decay = Math.exp(-i / (0.015 * SAMPLE_RATE));
+            data[start + i] += gain * decay * (onBeat
+                ? Math.sin(2 * Math.PI * 60 * i / SAMPLE_RATE)
+                : 0.4 * (rng() * 2 - 1));
+        }
+    }
+    return data;
+};
+
+describe('generation through the mock provider', () => {
+    const provider = createMockAIProvider();
+
+    it('runs from audio to a rated chart without a key', async () => {
+        const mono = synthesizeTrack();
+        const onsets = computeOnsets(mono, SAMPLE_RATE);
+        const beatGrid = trackBeats(onsets, DURATION);
+        const dspSections = analyzeStructureDSP(mono, SAMPLE_RATE, onsets, beatGrid.timingPoints, DURATION);
+        expect(onsets.length).toBeGreaterThan(0);
+
+        // Same order and checks as useSongGenerator: metadata with the DSP hint, then structure
+        const rawMetadata = await provider.analyzeMetadata({
+            filename: 'Test_Track.mp3', audioBase64: '', mimeType: 'audio/mpeg', hintBPM: beatGrid.bpm
+        });
+        const metadata = validateMetadata(rawMetadata, { title: 'Test_Track', artist: 'Unknown Artist', bpm: beatGrid.bpm, theme: DEFAULT_THEME });
+        expect(rawMetadata.fromFallback).toBeFalsy();
+        expect(metadata.repairs).toEqual([]);
+        expect(metadata.value.title).toBe('Test Track');
+        expect(metadata.value.bpm).toBe(beatGrid.bpm);
+
+        const structResult = await provider.analyzeStructure({ audioBase64: '', mimeType: 'audio/mpeg', duration: DURATION });
+        const sections = validateSections(structResult.sections, DURATION, dspSections);
+        expect(structResult.fromFallback).toBeFalsy();
+        expect(sections.repairs).toEqual([]);
+        expect(sections.value[0].startTime).toBe(0);
+        expect(sections.value[sections.value.length - 1].endTime).toBe(DURATION);
+
+        const structure = {
+            bpm: metadata.value.bpm,
+            ...fitBeatGridToBpm(beatGrid, metadata.value.bpm),
+            sections: reconcileSections(sections.value, dspSections, DURATION)
+        };
+        expect(structure.timingPoints?.length).toBeGreaterThan(0);
+
+        const features = { normal: true, holds: true, catch: true, seed: 42 };
+        const chart = generateBeatmapForRating(onsets, structure, 8, DURATION, 4, 'THUMB', features);
+        expect(chart.notes.length).toBeGreaterThan(0);
+        expect(Number.isFinite(chart.rating)).toBe(true);
+        expect(chart.notes.every(n => n.time >= 0 && n.time <= DURATION && n.lane >= 0 && n.lane < 4)).toBe(true);
+
+        // The fixtures are deterministic, so the same seed gives the same chart
+        const again = generateBeatmapForRating(onsets, structure, 8, DURATION, 4, 'THUMB', features);
+        expect(again.notes.map(n => [n.time, n.lane])).toEqual(chart.notes.map(n => [n.time, n.lane]));
+    });
+
+    it('rejects with the cancel error when aborted mid-request', async () => {
+        const controller = new AbortController();
+        const pending = provider.analyzeStructure({ audioBase64: '', mimeType: 'audio/mpeg', duration: DURATION, options: { signal: controller.signal } });
+        controller.abort();
+        await expect(pending).rejects.toThrow(CANCELLED);
+    });
+});
@@ -0,0 +1,97 @@
+
+import { SectionInfo } from "../types";
+import { cancelledError } from "../utils/abort";
+import { createRng } from "../utils/random";
+import type { AIProvider, MetadataResult, PatternInstruction } from "./aiProvider";
+
+/**
+ * Offline stand-in for Gemini. Answers are fixtures shaped by the request only, so the same
+ * input always gives the same output and the whole generation / copilot flow runs without a key.
+ */
+
+const MOCK_LATENCY_MS = 400; // Enough for the loading screen and cancel button to be exercised
+const FALLBACK_DURATION = 180;
+
+// Fractions of the song: a typical intro / verse / build / chorus / outro layout
+const STRUCTURE_FIXTURE: (Omit<SectionInfo, 'startTime' | 'endTime'> & { from: number; to: number })[] = [
+    { from: 0, to: 0.08, type: 'intro', intensity: 0.3, style: 'simple', descriptors: { flow: 'linear', hand_bias: 'balanced', focus: 'melody' } },
+    { from: 0.08, to: 0.3, type: 'verse', intensity: 0.5, style: 'stream', descriptors: { flow: 'zigzag', hand_bias: 'alternating', focus: 'vocal' } },
+    { from: 0.3, to: 0.38, type: 'build', intensity: 0.7, style: 'stream', descriptors: { flow: 'linear', hand_bias: 'alternating', focus: 'drum', special_pattern: 'fill' } },
+    { from: 0.38, to: 0.58, type: 'chorus', intensity: 0.9, style: 'jump', descriptors: { flow: 'random', hand_bias: 'balanced', focus: 'drum' } },
+    { from: 0.58, to: 0.75, type: 'verse', intensity: 0.55, style: 'hold', descriptors: { flow: 'slide', hand_bias: 'left_heavy', focus: 'vocal' } },
+    { from: 0.75, to: 0.92, type: 'drop', intensity: 1.0, style: 'stream', descriptors: { flow: 'circular', hand_bias: 'alternating', focus: 'drum' } },
+    { from: 0.92, to: 1, type: 'outro', intensity: 0.3, style: 'simple', descriptors: { flow: 'linear', hand_bias: 'balanced', focus: 'melody' } },
+];
+
+const THEME_FIXTURE: MetadataResult['theme'] = {
+    primaryColor: '#00f3ff',
+    secondaryColor: '#ff00ff',
+    catchColor: '#f9f871',
+    perfectColor: '#39ff14',
+    goodColor: '#00b3ff',
+    moodDescription: 'Mock'
+};
+
+const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(cancelledError());
+    }, { once: true });
+});
+
+// FNV-1a, so each prompt maps to its own but stable pattern
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export const createMockAIProvider = (): AIProvider => ({
+    id: 'mock',
+    requiresApiKey: false,
+    promptVersion: 1,
+    metadataModel: 'fixture',
+
+    analyzeStructure: async ({ duration, options }) => {
+        await wait(options?.signal);
+        const length = duration && duration > 0 ? duration : FALLBACK_DURATION;
+        return {
+            sections: STRUCTURE_FIXTURE.map(({ from, to, ...section }) => ({
+                ...section,
+                startTime: Number((from * length).toFixed(2)),
+                endTime: Number((to * length).toFixed(2))
+            }))
+        };
+    },
+
+    analyzeMetadata: async ({ filename, hintBPM, onRawOutput, signal }) => {
+        await wait(signal);
+        const result: MetadataResult = {
+            title: filename.replace(/\.[^/.]+$/, "").replace(/_/g, " "),
+            artist: "Mock Artist",
+            bpm: hintBPM,
+            theme: THEME_FIXTURE
+        };
+        onRawOutput?.(JSON.stringify(result, null, 2));
+        return result;
+    },
+
+    // Clears the window and lays a staircase or zigzag of 1/2-beat notes, picked by the prompt
+    generatePattern: async ({ prompt, params, signal }) => {
+        await wait(signal);
+        const rng = createRng(hashString(prompt));
+        const zigzag = rng() < 0.5;
+        const lanes = Math.max(1, params.laneCount);
+        const notes: NonNullable<PatternInstruction['notes']> = [];
+        for (let i = 0; i < params.beatCount * 2; i++) {
+            const step = zigzag ? Math.abs(((i + lanes - 1) % (2 * lanes - 2 || 1)) - (lanes - 1)) : i % lanes;
+            notes.push({ beatOffset: i / 2, lane: step, duration: 0 });
+        }
+        return { instructions: [{ type: 'CLEAR' }, { type: 'ADD', notes }] };
+    }
+});
@@ -0,0 +1,98 @@
+
+import { extractChannels } from '../utils/audioAnalyzer';
+import { cancelledError } from '../utils/abort';
+import type { Onset } from '../types';
+import type {
+    WorkerRequest, WorkerResponse, PipelineStage,
+    AnalyzePayload, AnalysisResult, GeneratePayload, GeneratedChart
+} from '../workers/beatmapWorker';
+
+/**
+ * Main-thread handle on the beatmap worker. One job runs at a time; aborting `signal` (or
+ * calling `cancel`) terminates the worker mid-computation and rejects the pending job with CANCELLED.
+ */
+
+export type PipelineProgressHandler = (stage: PipelineStage, progress: number) => void;
+
+export interface PipelineWorker {
+    analyze: (audioBuffer: AudioBuffer) => Promise<AnalysisResult>;
+    detectOnsets: (audioBuffer: AudioBuffer) => Promise<Onset[]>; // Just the onset stage of `analyze`
+    generate: (payload: GeneratePayload) => Promise<GeneratedChart[]>;
+    cancel: () => void;
+    dispose: () => void;
+}
+
+export const createPipelineWorker = (onProgress: PipelineProgressHandler, signal?: AbortSignal): PipelineWorker => {
+    const worker = new Worker(new URL('../workers/beatmapWorker.ts', import.meta.url), { type: 'module' });
+    let pending: { resolve: (response: WorkerResponse) => void; reject: (error: Error) => void } | null = null;
+    let closed = false;
+
+    const fail = (error: Error) => {
+        const job = pending;
+        pending = null;
+        job?.reject(error);
+    };
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const response = e.data;
+        if (response.type === 'PROGRESS') {
+            onProgress(response.stage, response.progress);
+        } else if (response.type === 'ERROR') {
+            fail(new Error(response.error));
+        } else {
+            const job = pending;
+            pending = null;
+            job?.resolve(response);
+        }
+    };
+    worker.onerror = (e: ErrorEvent) => fail(new Error(e.message || "Worker crashed"));
+
+    const run = (request: WorkerRequest, transfer: Transferable[] = []): Promise<WorkerResponse> => {
+        if (closed) return Promise.reject(cancelledError());
+        if (pending) return Promise.reject(new Error("Pipeline busy"));
+        return new Promise((resolve, reject) => {
+            pending = { resolve, reject };
+            worker.postMessage(request, transfer);
+        });
+    };
+
+    const dispose = () => {
+        if (closed) return;
+        closed = true;
+        worker.terminate();
+    };
+
+    const cancel = () => {
+        dispose();
+        fail(cancelledError());
+    };
+    if (signal?.aborted) cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    // AudioBuffer itself can't cross threads; copy the channels out and hand them over
+    const runOnAudio = (type: 'ANALYZE' | 'DETECT_ONSETS', audioBuffer: AudioBuffer) => {
+        const channels = extractChannels(audioBuffer);
+        const payload: AnalyzePayload = { channels, sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration };
+        return run({ type, payload }, channels.map(c => c.buffer));
+    };
+
+    return {
+        analyze: async (audioBuffer) => {
+            const response = await runOnAudio('ANALYZE', audioBuffer);
+            if (response.type !== 'ANALYZED') throw new Error(`Unexpected worker response ${response.type}`);
+            return response.result;
+        },
+        detectOnsets: async (audioBuffer) => {
+            const response = await runOnAudio('DETECT_ONSETS', audioBuffer);
+            if (response.type !== 'ONSETS_DETECTED') throw new Error(`Unexpected worker response ${response.type}`);
+            return response.onsets;
+        },
+        generate: async (payload) => {
+            const response = await run({ type: 'GENERATE', payload });
+            if (response.type !== 'GENERATED') throw new Error(`Unexpected worker response ${response.type}`);
+            return response.charts;
+        },
+        cancel,
+        dispose
+    };
+};
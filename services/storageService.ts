@@ -1,141 +1,256 @@
 
-import { SavedSong } from '../types';
+import { SavedSong, DEFAULT_THEME, LaneCount, Note, TimingPoint } from '../types';
 import JSZip from 'jszip';
 import { calculateDifficultyRating } from '../utils/beatmapGenerator';
 import { extractCoverArt } from '../utils/audioMetadata';
+import { createChart } from '../utils/chartUtils';
+import {
+    SCHEMA_VERSION, SONGS_STORE, AUDIO_STORE, COVER_STORE, AI_CACHE_STORE, WAVEFORM_STORE, AUDIO_HASH_INDEX, SongRecord, SongSortKey, BlobRecord, AICacheRecord, WaveformRecord,
+    migrateSongRecord, runUpgrade, putSongRecord, toSongRecord, fromSongRecord
+} from './migrations';
+import { OsuBeatmap, parseOsuFile, buildOsuFile, guessAudioExtension } from '../utils/osuMania';
+import { parseSimfile, buildSmFile } from '../utils/stepMania';
+import { fileToBase64 } from '../utils/fileUtils';
 
 const DB_NAME = 'NeonFlowDB';
-const STORE_NAME = 'songs';
-const DB_VERSION = 1;
+const DB_VERSION = SCHEMA_VERSION; // See migrations.ts for the schema history
+const ALL_STORES = [SONGS_STORE, AUDIO_STORE, COVER_STORE];
 
 // Helper to open DB
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
+      const req = event.target as IDBOpenDBRequest;
+      runUpgrade(req.result, req.transaction!, event.oldVersion);
     };
     request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
     request.onerror = (event) => reject((event.target as IDBOpenDBRequest).error);
   });
 };
 
-export const saveSong = async (song: SavedSong): Promise<void> => {
+export const hashAudio = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Whenever the audio is part of the save it is hashed again, so `audioHash` always matches the stored audio.
+ * @param options.replaceCover The song's cover replaces the stored one even when it has none (which deletes it).
+ */
+export const saveSong = async (song: SavedSong, options: { replaceCover?: boolean } = {}): Promise<void> => {
+  const toSave = song.audioData?.byteLength > 0 ? { ...song, audioHash: await hashAudio(song.audioData) } : song;
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(song);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    putSongRecord(transaction, toSave, options.replaceCover);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
+/** Full song including its audio, which lives in a separate store and is only read here. */
 export const getSongById = async (id: string): Promise<SavedSong | undefined> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+    const transaction = db.transaction(ALL_STORES, 'readonly');
+    const songReq = transaction.objectStore(SONGS_STORE).get(id);
+    const audioReq = transaction.objectStore(AUDIO_STORE).get(id);
+    const coverReq = transaction.objectStore(COVER_STORE).get(id);
+    transaction.oncomplete = () => {
+        const record = songReq.result as SongRecord | undefined;
+        const audio = audioReq.result as BlobRecord<ArrayBuffer> | undefined;
+        const cover = coverReq.result as BlobRecord<string> | undefined;
+        resolve(record ? fromSongRecord(record, audio?.data, cover?.data) : undefined);
+    };
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const getAllSongs = async (): Promise<SavedSong[]> => {
+/**
+ * Metadata-only listing: audio is never read, `audioData` is an empty buffer on every entry.
+ * Ordered descending by the given index.
+ */
+export const getAllSongs = async (sortBy: SongSortKey = 'createdAt'): Promise<SavedSong[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const songs: SavedSong[] = [];
-    const request = store.openCursor();
-    
-    request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-            const song = cursor.value as SavedSong;
-            
-             if (song.notes) {
-                 song.notes.forEach(note => {
-                     if (!note.type) note.type = 'NORMAL';
-                 });
-             }
-             
-             if (song.notes && song.notes.length > 0 && song.duration > 0) {
-                 const newRating = calculateDifficultyRating(song.notes, song.duration);
-                 if (song.difficultyRating > 20 || Math.abs(song.difficultyRating - newRating) > 1.0) {
-                     song.difficultyRating = newRating;
-                 }
-             }
-
-            // OPTIMIZATION: Create lightweight version
-            const lightSong = { ...song, audioData: new ArrayBuffer(0) };
-            songs.push(lightSong);
-            
-            cursor.continue();
-        } else {
-            songs.sort((a, b) => b.createdAt - a.createdAt);
-            resolve(songs);
-        }
+    const transaction = db.transaction([SONGS_STORE, COVER_STORE], 'readonly');
+    const recordsReq = transaction.objectStore(SONGS_STORE).index(sortBy).getAll();
+    const coversReq = transaction.objectStore(COVER_STORE).getAll();
+
+    transaction.oncomplete = () => {
+        const covers = new Map((coversReq.result as BlobRecord<string>[]).map(c => [c.id, c.data]));
+        const songs = (recordsReq.result as SongRecord[])
+            .reverse()
+            .map(record => fromSongRecord(record, undefined, covers.get(record.id)));
+        resolve(songs);
     };
-    request.onerror = () => reject(request.error);
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
 export const deleteSong = async (id: string): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    // The waveform is derived from the audio and goes with it
+    const stores = [...ALL_STORES, WAVEFORM_STORE];
+    const transaction = db.transaction(stores, 'readwrite');
+    stores.forEach(name => transaction.objectStore(name).delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const toggleFavorite = async (id: string): Promise<boolean> => {
+// Read-modify-write of a song row only; the audio and cover stores are untouched
+const updateSongRecord = async <T>(id: string, update: (song: SavedSong) => T): Promise<T> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = db.transaction(SONGS_STORE, 'readwrite');
+      const store = transaction.objectStore(SONGS_STORE);
       const getReq = store.get(id);
+      let result: T;
       
       getReq.onsuccess = () => {
-          const song = getReq.result as SavedSong;
-          if (song) {
-              song.isFavorite = !song.isFavorite;
-              store.put(song).onsuccess = () => resolve(song.isFavorite || false);
-          } else {
+          if (!getReq.result) {
               reject(new Error("Song not found"));
+              transaction.abort();
+              return;
           }
+          const song = fromSongRecord(getReq.result as SongRecord);
+          try {
+              result = update(song);
+          } catch (e) {
+              reject(e);
+              transaction.abort();
+              return;
+          }
+          store.put(toSongRecord(song));
       };
-      getReq.onerror = () => reject(getReq.error);
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const toggleFavorite = async (id: string): Promise<boolean> => {
+    return updateSongRecord(id, song => {
+        song.isFavorite = !song.isFavorite;
+        return song.isFavorite;
     });
 };
 
 export const updateSongMetadata = async (id: string, title: string, artist: string): Promise<void> => {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const getReq = store.get(id);
-      getReq.onsuccess = () => {
-          const song = getReq.result as SavedSong;
-          if (song) {
-              song.title = title;
-              song.artist = artist;
-              store.put(song).onsuccess = () => resolve();
-          } else {
-              reject(new Error("Song not found"));
-          }
-      };
-      getReq.onerror = () => reject(getReq.error);
+    await updateSongRecord(id, song => {
+        song.title = title;
+        song.artist = artist;
+    });
+};
+
+export const deleteChart = async (songId: string, chartId: string): Promise<void> => {
+    await updateSongRecord(songId, song => {
+        if (song.charts.length <= 1) {
+            throw new Error("Cannot delete the last chart of a song");
+        }
+        song.charts = song.charts.filter(c => c.id !== chartId);
     });
 };
 
+// --- Audio identity (see backupService.ts) ---
+
+/** Listing copy (cover, no audio) of a song whose audio has this hash, if any. */
+export const findSongByAudioHash = async (audioHash: string): Promise<SavedSong | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SONGS_STORE, COVER_STORE], 'readonly');
+    let record: SongRecord | undefined;
+    let coverReq: IDBRequest | undefined;
+    const recordReq = transaction.objectStore(SONGS_STORE).index(AUDIO_HASH_INDEX).get(audioHash);
+    recordReq.onsuccess = () => {
+        record = recordReq.result;
+        if (record) coverReq = transaction.objectStore(COVER_STORE).get(record.id);
+    };
+    transaction.oncomplete = () => {
+        const cover = coverReq?.result as BlobRecord<string> | undefined;
+        resolve(record ? fromSongRecord(record, undefined, cover?.data) : undefined);
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Hashes the audio of songs stored before `audioHash` existed, one song at a time.
+ * Each song's audio is read once; afterwards its row is found through the index.
+ */
+export const backfillAudioHashes = async (): Promise<number> => {
+  const db = await openDB();
+  const missing = await new Promise<string[]>((resolve, reject) => {
+    const transaction = db.transaction(SONGS_STORE, 'readonly');
+    const req = transaction.objectStore(SONGS_STORE).getAll();
+    transaction.oncomplete = () => resolve((req.result as SongRecord[]).filter(r => !r.audioHash).map(r => r.id));
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  let filled = 0;
+  for (const id of missing) {
+    const audio = await new Promise<BlobRecord<ArrayBuffer> | undefined>((resolve, reject) => {
+      const transaction = db.transaction(AUDIO_STORE, 'readonly');
+      const req = transaction.objectStore(AUDIO_STORE).get(id);
+      transaction.oncomplete = () => resolve(req.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+    if (!audio || audio.data.byteLength === 0) continue;
+    const audioHash = await hashAudio(audio.data);
+    await updateSongRecord(id, song => { song.audioHash = audioHash; });
+    filled++;
+  }
+  return filled;
+};
+
+// --- AI analysis cache (see aiCacheService.ts for the keys) ---
+
+const runAICacheRequest = async <T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(AI_CACHE_STORE, mode);
+    const req = request(transaction.objectStore(AI_CACHE_STORE));
+    transaction.oncomplete = () => resolve(req.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAICacheEntry = async <T>(id: string): Promise<AICacheRecord<T> | undefined> =>
+  runAICacheRequest('readonly', store => store.get(id));
+
+export const putAICacheEntry = async (record: AICacheRecord): Promise<void> => {
+  await runAICacheRequest('readwrite', store => store.put(record));
+};
+
+export const countAICacheEntries = async (): Promise<number> =>
+  runAICacheRequest('readonly', store => store.count());
+
+export const clearAICache = async (): Promise<void> => {
+  await runAICacheRequest('readwrite', store => store.clear());
+};
+
+export const getWaveformEntry = async (songId: string): Promise<WaveformRecord | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WAVEFORM_STORE, 'readonly');
+    const req = transaction.objectStore(WAVEFORM_STORE).get(songId);
+    transaction.oncomplete = () => resolve(req.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const putWaveformEntry = async (record: WaveformRecord): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WAVEFORM_STORE, 'readwrite');
+    transaction.objectStore(WAVEFORM_STORE).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 export const exportSongAsZip = async (song: SavedSong, includeHistory: boolean = true) => {
     let fullSong = song;
     if (song.audioData.byteLength === 0) {
@@ -146,13 +261,17 @@ export const exportSongAsZip = async (song: SavedSong, includeHistory: boolean =
 
     const zip = new JSZip();
     
-    const { audioData, bestResult, ...metaData } = fullSong;
+    const { audioData, charts, ...metaData } = fullSong;
     
     const exportData = {
         ...metaData,
-        bestResult: includeHistory ? bestResult : undefined,
+        charts: charts.map(({ bestResult, playCount, ...chart }) => ({
+            ...chart,
+            bestResult: includeHistory ? bestResult : undefined,
+            playCount: includeHistory ? playCount : undefined
+        })),
         _isNeonFlowExport: true,
-        version: 2
+        version: 3
     };
 
     const jsonContent = JSON.stringify(exportData);
@@ -161,19 +280,93 @@ export const exportSongAsZip = async (song: SavedSong, includeHistory: boolean =
     zip.file("audio.bin", fullSong.audioData, { compression: "STORE" });
 
     const blob = await zip.generateAsync({type: "blob"});
-    
+    downloadBlob(blob, `${fullSong.title}.nfz`);
+};
+
+/** Exports every chart of the song as an osu!mania difficulty inside a .osz package. */
+export const exportSongAsOsz = async (song: SavedSong) => {
+    let fullSong = song;
+    if (song.audioData.byteLength === 0) {
+        const fetched = await getSongById(song.id);
+        if (fetched) fullSong = fetched;
+        else throw new Error(`Could not find full audio data for song ${song.id}`);
+    }
+
+    const zip = new JSZip();
+    const audioFilename = `audio.${guessAudioExtension(fullSong.audioData)}`;
+    const usedNames = new Set<string>();
+
+    fullSong.charts.forEach(chart => {
+        // Difficulty names are not unique (e.g. a 4K and a 6K "HARD"), so disambiguate the file names
+        let name = `${fullSong.artist} - ${fullSong.title} [${chart.difficultyName}]`.replace(/[\\/:*?"<>|]/g, '_');
+        if (usedNames.has(name)) name = `${name} (${chart.laneCount}K)`;
+        while (usedNames.has(name)) name = `${name}_`;
+        usedNames.add(name);
+        zip.file(`${name}.osu`, buildOsuFile(fullSong, chart, audioFilename));
+    });
+    zip.file(audioFilename, fullSong.audioData, { compression: "STORE" });
+
+    const blob = await zip.generateAsync({type: "blob"});
+    downloadBlob(blob, `${fullSong.title}.osz`);
+};
+
+/**
+ * Exports the song as a zipped StepMania song folder (.sm plus audio).
+ * @param onWarning Receives what the .sm format could not keep (per-chart timing).
+ */
+export const exportSongAsSm = async (song: SavedSong, onWarning?: (message: string) => void) => {
+    let fullSong = song;
+    if (song.audioData.byteLength === 0) {
+        const fetched = await getSongById(song.id);
+        if (fetched) fullSong = fetched;
+        else throw new Error(`Could not find full audio data for song ${song.id}`);
+    }
+
+    const zip = new JSZip();
+    const folderName = fullSong.title.replace(/[\\/:*?"<>|]/g, '_');
+    const folder = zip.folder(folderName)!;
+    const musicFilename = `audio.${guessAudioExtension(fullSong.audioData)}`;
+    folder.file(`${folderName}.sm`, buildSmFile(fullSong, musicFilename, onWarning));
+    folder.file(musicFilename, fullSong.audioData, { compression: "STORE" });
+
+    const blob = await zip.generateAsync({type: "blob"});
+    downloadBlob(blob, `${folderName}.zip`);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", url);
-    downloadAnchorNode.setAttribute("download", `${fullSong.title}.nfz`); 
+    downloadAnchorNode.setAttribute("download", filename); 
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
     URL.revokeObjectURL(url);
 };
 
-export const parseSongImport = async (file: File): Promise<SavedSong> => {
-    if (file.name.endsWith('.json')) {
+/** Map files the importer understands. Anything else in a multi-file selection is treated as a companion (e.g. the audio of a bare .osu). */
+export const isMapFile = (name: string) => /\.(json|nfz|osz|osu|sm|ssc|zip)$/i.test(name);
+
+/**
+ * @param companions Other files picked in the same dialog; a bare .osu / .sm / .ssc looks up its audio among them.
+ * @param onWarning Receives content that was left out of an otherwise successful import (e.g. StepMania mines).
+ */
+export const parseSongImport = async (file: File, companions: File[] = [], onWarning?: (message: string) => void): Promise<SavedSong> => {
+    const lowerName = file.name.toLowerCase();
+    // osu! formats report their own errors (e.g. unsupported key counts) instead of the generic fallback
+    if (lowerName.endsWith('.osz')) {
+        return parseOszImport(file);
+    }
+    if (lowerName.endsWith('.osu')) {
+        return parseOsuImport(file, companions);
+    }
+    if (lowerName.endsWith('.sm') || lowerName.endsWith('.ssc')) {
+        return parseSimfileImport(file, companions, onWarning);
+    }
+    if (lowerName.endsWith('.zip')) {
+        return parseSimfilePackageImport(file, onWarning);
+    }
+    if (lowerName.endsWith('.json')) {
         return parseLegacyJsonImport(file);
     }
     
@@ -194,22 +387,21 @@ export const parseSongImport = async (file: File): Promise<SavedSong> => {
             throw new Error("缺少谱面签名");
         }
         
-        if (metaData.notes) {
-            metaData.notes.forEach((n: any) => {
-                if (!n.type) n.type = 'NORMAL';
-            });
-        }
+        // v2 and older packages carry a single chart on the song itself
+        const song = migrateSongRecord(metaData);
+        delete (song as any)._isNeonFlowExport;
+        delete (song as any).version;
 
         const audioArrayBuffer = await audioFile.async("arraybuffer");
 
-        let rating = metaData.difficultyRating;
-        if (metaData.notes && metaData.duration) {
-             rating = calculateDifficultyRating(metaData.notes, metaData.duration);
+        if (song.duration) {
+            song.charts.forEach(chart => {
+                if (chart.notes.length > 0) chart.difficultyRating = calculateDifficultyRating(chart.notes, song.duration);
+            });
         }
 
         return {
-            ...metaData,
-            difficultyRating: rating,
+            ...song,
             audioData: audioArrayBuffer,
             id: crypto.randomUUID(),
             createdAt: Date.now()
@@ -246,17 +438,8 @@ const parseLegacyJsonImport = (file: File): Promise<SavedSong> => {
 
                 const audioBuffer = base64ToArrayBuffer(json.audioData);
                 
-                if (json.notes) {
-                    json.notes.forEach((n: any) => {
-                        if (!n.type) n.type = 'NORMAL';
-                    });
-                }
-                
-                const rating = calculateDifficultyRating(json.notes || [], json.duration || 1);
-
                 const song: SavedSong = {
-                    ...json,
-                    difficultyRating: rating,
+                    ...migrateSongRecord(json),
                     id: crypto.randomUUID(),
                     audioData: audioBuffer,
                     createdAt: Date.now()
@@ -271,3 +454,155 @@ const parseLegacyJsonImport = (file: File): Promise<SavedSong> => {
         reader.readAsText(file);
     });
 };
+
+const IMAGE_MIME: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png' };
+
+interface ImportedChart {
+    notes: Note[];
+    laneCount: LaneCount;
+    difficultyName?: string;
+}
+
+const getAudioDuration = async (data: ArrayBuffer): Promise<number | undefined> => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        const buffer = await ctx.decodeAudioData(data.slice(0));
+        return buffer.duration;
+    } catch (e) {
+        console.warn("Could not decode imported audio", e);
+        return undefined;
+    } finally {
+        ctx.close();
+    }
+};
+
+const getBaseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+const readImageEntry = async (entry: JSZip.JSZipObject | undefined): Promise<string | undefined> => {
+    const mime = entry ? IMAGE_MIME[entry.name.split('.').pop()!.toLowerCase()] : undefined;
+    if (!entry || !mime) return undefined;
+    const bytes = await entry.async("arraybuffer");
+    return fileToBase64(new File([bytes], getBaseName(entry.name), { type: mime }));
+};
+
+/** Builds a library entry for charts coming from a third-party format (no AI analysis available). */
+const buildImportedSong = async (
+    meta: { title: string; artist: string; bpm: number; timingPoints: TimingPoint[] },
+    charts: ImportedChart[],
+    audioData: ArrayBuffer,
+    coverArt?: string
+): Promise<SavedSong> => {
+    const lastNoteEnd = charts.reduce((max, c) => c.notes.reduce((mm, n) => Math.max(mm, n.time + n.duration), max), 0);
+    const duration = (await getAudioDuration(audioData)) || lastNoteEnd + 2;
+
+    return {
+        id: crypto.randomUUID(),
+        title: meta.title,
+        artist: meta.artist,
+        coverArt,
+        createdAt: Date.now(),
+        duration,
+        audioData,
+        charts: charts.map(c => createChart(c.notes, c.laneCount, duration, c.difficultyName || undefined)),
+        structure: {
+            bpm: meta.bpm,
+            timingPoints: meta.timingPoints.length > 0 ? meta.timingPoints : undefined,
+            downbeatOffset: meta.timingPoints[0]?.time,
+            sections: [{
+                startTime: 0,
+                endTime: duration,
+                type: 'verse',
+                intensity: 0.8,
+                style: 'stream',
+                descriptors: { flow: 'linear', hand_bias: 'balanced', focus: 'melody' }
+            }]
+        },
+        theme: DEFAULT_THEME
+    };
+};
+
+const toImportedOsuChart = (map: OsuBeatmap): ImportedChart => ({ notes: map.notes, laneCount: map.laneCount, difficultyName: map.version });
+
+const parseOszImport = async (file: File): Promise<SavedSong> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (e) {
+        throw new Error("无法读取 .osz 文件：压缩包已损坏");
+    }
+    const entries = Object.values(zip.files).filter(f => !f.dir);
+    const findEntry = (name: string) => entries.find(f => f.name.toLowerCase() === name.toLowerCase());
+
+    const osuEntries = entries.filter(f => f.name.toLowerCase().endsWith('.osu'));
+    if (osuEntries.length === 0) throw new Error("无效的 .osz 文件 (未找到 .osu 谱面)");
+
+    // Non-mania or unsupported-key difficulties are skipped as long as at least one is usable
+    const maps: OsuBeatmap[] = [];
+    let firstError: Error | null = null;
+    for (const entry of osuEntries) {
+        try {
+            maps.push(parseOsuFile(await entry.async("string")));
+        } catch (e: any) {
+            console.warn(`Skipping ${entry.name}`, e);
+            firstError = firstError || e;
+        }
+    }
+    if (maps.length === 0) throw firstError!;
+
+    // All charts of a song share one audio file
+    const audioName = maps[0].audioFilename;
+    const usable = maps.filter(m => m.audioFilename.toLowerCase() === audioName.toLowerCase());
+    const audioEntry = findEntry(audioName);
+    if (!audioEntry) throw new Error(`.osz 中缺少音频文件：${audioName}`);
+    const audioData = await audioEntry.async("arraybuffer");
+
+    const bgName = usable.find(m => m.backgroundFilename)?.backgroundFilename;
+    const coverArt = await readImageEntry(bgName ? findEntry(bgName) : undefined);
+
+    return buildImportedSong(maps[0], usable.map(toImportedOsuChart), audioData, coverArt);
+};
+
+const parseOsuImport = async (file: File, companions: File[]): Promise<SavedSong> => {
+    const map = parseOsuFile(await file.text());
+    const audioFile = companions.find(f => f.name.toLowerCase() === map.audioFilename.toLowerCase());
+    if (!audioFile) {
+        throw new Error(`缺少音频文件 ${map.audioFilename}：请同时选择该音频，或直接导入 .osz 包`);
+    }
+    return buildImportedSong(map, [toImportedOsuChart(map)], await audioFile.arrayBuffer());
+};
+
+const parseSimfileImport = async (file: File, companions: File[], onWarning?: (message: string) => void): Promise<SavedSong> => {
+    const simfile = parseSimfile(await file.text());
+    const musicName = getBaseName(simfile.musicFilename);
+    const audioFile = companions.find(f => f.name.toLowerCase() === musicName);
+    if (!audioFile) {
+        throw new Error(`缺少音频文件 ${simfile.musicFilename || '(#MUSIC 未设置)'}：请同时选择该音频，或导入打包的 .zip 歌曲文件夹`);
+    }
+    simfile.warnings.forEach(w => onWarning?.(w));
+    return buildImportedSong(simfile, simfile.charts, await audioFile.arrayBuffer());
+};
+
+// A zipped StepMania song folder, as written by exportSongAsSm
+const parseSimfilePackageImport = async (file: File, onWarning?: (message: string) => void): Promise<SavedSong> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (e) {
+        throw new Error("无法读取 .zip 文件：压缩包已损坏");
+    }
+    const entries = Object.values(zip.files).filter(f => !f.dir);
+    const findEntry = (name: string) => entries.find(f => getBaseName(f.name) === getBaseName(name));
+
+    // .ssc supersedes .sm when a folder ships both
+    const simEntry = entries.find(f => f.name.toLowerCase().endsWith('.ssc')) || entries.find(f => f.name.toLowerCase().endsWith('.sm'));
+    if (!simEntry) throw new Error("无效的 .zip 文件 (未找到 .sm / .ssc 谱面)");
+
+    const simfile = parseSimfile(await simEntry.async("string"));
+    const audioEntry = simfile.musicFilename ? findEntry(simfile.musicFilename) : undefined;
+    if (!audioEntry) throw new Error(`压缩包中缺少音频文件：${simfile.musicFilename || '(#MUSIC 未设置)'}`);
+    const audioData = await audioEntry.async("arraybuffer");
+    const coverArt = await readImageEntry(simfile.backgroundFilename ? findEntry(simfile.backgroundFilename) : undefined);
+    simfile.warnings.forEach(w => onWarning?.(w));
+
+    return buildImportedSong(simfile, simfile.charts, audioData, coverArt);
+};
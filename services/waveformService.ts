@@ -0,0 +1,60 @@
+
+import { extractChannels } from '../utils/audioAnalyzer';
+import { cancelledError } from '../utils/abort';
+import { WaveformData, WAVEFORM_VERSION } from '../utils/waveform';
+import { getWaveformEntry, putWaveformEntry } from './storageService';
+import type { WaveformPayload, WaveformResponse } from '../workers/waveformWorker';
+
+/**
+ * Waveform data for the editor: read from the per-song cache, otherwise computed in a
+ * short-lived worker and stored. Cache failures are logged and never block the editor.
+ */
+
+const computeWaveform = (audioBuffer: AudioBuffer, signal?: AbortSignal): Promise<WaveformData> => {
+    if (signal?.aborted) return Promise.reject(cancelledError());
+    const worker = new Worker(new URL('../workers/waveformWorker.ts', import.meta.url), { type: 'module' });
+
+    return new Promise<WaveformData>((resolve, reject) => {
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', cancel);
+        };
+        const cancel = () => {
+            finish();
+            reject(cancelledError());
+        };
+        signal?.addEventListener('abort', cancel, { once: true });
+
+        worker.onmessage = (e: MessageEvent<WaveformResponse>) => {
+            finish();
+            if (e.data.type === 'WAVEFORM') resolve(e.data.data);
+            else reject(new Error(e.data.error));
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            finish();
+            reject(new Error(e.message || "Worker crashed"));
+        };
+
+        // AudioBuffer itself can't cross threads; copy the channels out and hand them over
+        const channels = extractChannels(audioBuffer);
+        const payload: WaveformPayload = { channels, sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration };
+        worker.postMessage(payload, channels.map(c => c.buffer));
+    });
+};
+
+// A song's audio never changes under its id, so only the format version and length are checked
+const isUsable = (data: WaveformData | undefined, audioBuffer: AudioBuffer): data is WaveformData =>
+    !!data && data.version === WAVEFORM_VERSION && Math.abs(data.duration - audioBuffer.duration) < 0.01;
+
+export const loadWaveform = async (songId: string, audioBuffer: AudioBuffer, signal?: AbortSignal): Promise<WaveformData> => {
+    try {
+        const cached = await getWaveformEntry(songId);
+        if (isUsable(cached?.data, audioBuffer)) return cached!.data;
+    } catch (e) {
+        console.warn("Waveform cache read failed", e);
+    }
+
+    const data = await computeWaveform(audioBuffer, signal);
+    putWaveformEntry({ id: songId, data, createdAt: Date.now() }).catch(e => console.warn("Waveform cache write failed", e));
+    return data;
+};
@@ -50,10 +50,14 @@ export interface Note {
 }
 
 // DSP 层输出：原始节奏点
+export type OnsetBand = 'kick' | 'snare' | 'hat' | 'vocal';
+
 export interface Onset {
   time: number;
   energy: number; // 能量值 (0-1)
-  isLowFreq: boolean; // 是否是低频打击 (Kick/Bass)
+  isLowFreq: boolean; // 是否是低频打击 (Kick/Bass)，等价于 band === 'kick'
+  band: OnsetBand; // 谱通量峰值最强的频段
+  confidence: number; // 峰值超出自适应阈值的程度 (0-1)
 }
 
 // 方向一：动态描述符
@@ -65,10 +69,19 @@ export interface MotionDescriptors {
     special_pattern?: 'burst' | 'fill' | 'none';
 }
 
+// 变速节拍网格：每个 timing point 从一个小节线开始，持续到下一个 timing point
+export interface TimingPoint {
+  time: number;  // 秒
+  bpm: number;
+  meter: number; // 每小节拍数
+}
+
 // Gemini 决策层输出：歌曲结构元数据
 export interface SongStructure {
-  bpm: number;
+  bpm: number; // 主 BPM (持续时间最长的速度)，用于显示与 AI 提示
   sections: SectionInfo[];
+  timingPoints?: TimingPoint[]; // 缺省时视为从 downbeatOffset 开始的恒定 bpm 4/4 网格
+  downbeatOffset?: number; // 第一个强拍的时间 (秒)
 }
 
 export interface SectionInfo {
@@ -81,6 +94,23 @@ export interface SectionInfo {
   descriptors: MotionDescriptors; 
 }
 
+// 回放：由 useGameInput 捕获的单条输入事件
+export type InputSource = 'key' | 'touch';
+
+export interface ReplayInputEvent {
+    time: number; // Game time in seconds (already offset-corrected)
+    lane: number;
+    type: 'down' | 'up';
+    source: InputSource;
+}
+
+export interface ReplayData {
+    version: number;
+    laneCount: LaneCount;
+    chartFingerprint: string; // Notes the inputs were recorded against; see utils/replay
+    events: ReplayInputEvent[];
+}
+
 export interface GameResult {
     score: number;
     maxCombo: number;
@@ -91,6 +121,29 @@ export interface GameResult {
     timestamp: number;
     hitHistory?: number[]; // Array of timing offsets in seconds (e.g. -0.02, 0.01)
     modifiers?: GameModifier[];
+    replay?: ReplayData; // 完整输入回放
+}
+
+// 自动生成谱面时使用的参数：同一首歌 + 相同参数 + 相同种子 = 完全相同的谱面
+export interface ChartGenerationSettings {
+  seed: number; // 32 位无符号整数
+  difficulty: number; // 1-20
+  playStyle: PlayStyle;
+  features: { normal: boolean; holds: boolean; catch: boolean };
+}
+
+// 单个难度谱面：一首歌可拥有多个，共享同一份音频
+export interface BeatmapChart {
+  id: string; // UUID
+  difficultyName: string; // e.g. "HARD", or a custom label
+  laneCount: LaneCount;
+  notes: Note[];
+  difficultyRating: number; // Calculated weighted difficulty
+  bestResult?: GameResult; // 历史最佳成绩
+  playCount?: number; // Total times played
+  createdAt: number;
+  generation?: ChartGenerationSettings; // 仅自动生成的谱面有；用于复现与重新随机
+  timingPoints?: TimingPoint[]; // 编辑器中调整过的节拍网格；缺省时沿用歌曲结构的 timing points
 }
 
 export interface SavedSong {
@@ -102,14 +155,12 @@ export interface SavedSong {
   createdAt: number;
   duration: number;
   audioData: ArrayBuffer; // 存储音频原文件
-  notes: Note[]; // 生成的谱面
+  audioHash?: string; // audioData 的 SHA-256，备份恢复据此识别同一首歌
+  charts: BeatmapChart[]; // 所有难度的谱面
   structure: SongStructure; // AI 分析结果
   theme: AITheme; // 生成的主题
-  difficultyRating: number; // Calculated weighted difficulty
-  laneCount: LaneCount;
-  bestResult?: GameResult; // 历史最佳成绩
   isFavorite?: boolean; // P2 Feature: Favorites
-  playCount?: number; // Total times played
+  schemaVersion?: number; // Storage schema the record was written with (see services/migrations.ts)
 }
 
 export interface GameConfig {
@@ -138,6 +189,7 @@ export interface ScoreState {
   miss: number;
   hitHistory: number[]; // Store offsets for histogram
   modifiers: GameModifier[];
+  inputLog?: ReplayInputEvent[]; // Raw input stream, attached when the run ends
 }
 
 export interface AITheme {
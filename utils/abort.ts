@@ -0,0 +1,18 @@
+
+/**
+ * Cancellation shared by the generation pipeline. Every cancelled step rejects with the same
+ * error so callers can tell "the user stopped this" apart from real failures.
+ */
+
+export const CANCELLED = "Cancelled";
+
+export const cancelledError = () => new Error(CANCELLED);
+
+/** True for our own cancellation error and for fetch-style AbortErrors. */
+export const isCancelled = (error: any): boolean => {
+    return error?.message === CANCELLED || error?.name === 'AbortError';
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw cancelledError();
+};
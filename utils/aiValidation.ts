@@ -0,0 +1,353 @@
+
+import { AITheme, DEFAULT_THEME, MotionDescriptors, SectionInfo } from '../types';
+import type { MetadataResult, PatternInstruction } from '../services/aiProvider';
+
+/**
+ * Schema checks for AI answers. Models ignore response schemas often enough that nothing
+ * they return goes straight into the generator or the editor: every validator coerces what
+ * it can, drops what it can't and lists each repair so it shows up in the debug log.
+ */
+
+export interface Validated<T> {
+    value: T;
+    repairs: string[];
+}
+
+const MIN_SECTION_SECONDS = 0.5;
+const GAP_ABSORB_SECONDS = 1;      // Boundary jitter smaller than this just stretches the earlier section
+const MIN_BPM = 40;
+const MAX_BPM = 400;
+
+const SECTION_TYPES: SectionInfo['type'][] = ['intro', 'verse', 'chorus', 'build', 'drop', 'outro'];
+const SECTION_TYPE_ALIASES: Record<string, SectionInfo['type']> = {
+    hook: 'chorus', refrain: 'chorus',
+    prechorus: 'build', buildup: 'build', riser: 'build', bridge: 'build',
+    breakdown: 'verse', interlude: 'verse', instrumental: 'verse', solo: 'verse',
+    climax: 'drop', peak: 'drop',
+    ending: 'outro', end: 'outro', fadeout: 'outro',
+    start: 'intro', opening: 'intro'
+};
+const SECTION_STYLES: SectionInfo['style'][] = ['stream', 'jump', 'hold', 'simple'];
+const FLOWS: MotionDescriptors['flow'][] = ['linear', 'zigzag', 'circular', 'random', 'slide'];
+const HAND_BIASES: MotionDescriptors['hand_bias'][] = ['alternating', 'left_heavy', 'right_heavy', 'balanced'];
+const FOCUSES: MotionDescriptors['focus'][] = ['vocal', 'drum', 'melody', 'bass'];
+const SPECIAL_PATTERNS: NonNullable<MotionDescriptors['special_pattern']>[] = ['burst', 'fill', 'none'];
+
+const DEFAULT_DESCRIPTORS: MotionDescriptors = { flow: 'random', hand_bias: 'balanced', focus: 'melody' };
+
+const toNumber = (value: unknown): number | null => {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const normalizeKey = (value: unknown) =>
+    typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+
+const coerceEnum = <T extends string>(
+    value: unknown, allowed: readonly T[], fallback: T, field: string, repairs: string[], aliases: Record<string, T> = {}
+): T => {
+    const key = normalizeKey(value);
+    const compact = key.replace(/_/g, '');
+    const match = allowed.find(a => a.replace(/_/g, '') === compact);
+    if (match) {
+        if (value !== match) repairs.push(`${field}: "${value}" → "${match}"`);
+        return match;
+    }
+    const alias = aliases[compact];
+    const result = alias || fallback;
+    repairs.push(`${field}: ${value === undefined ? '缺失' : `"${value}"`} → "${result}"`);
+    return result;
+};
+
+/** Intensity is 0-1; models sometimes answer on a 0-10 or 0-100 scale. */
+const coerceIntensity = (value: unknown, field: string, repairs: string[]): number => {
+    let n = toNumber(value);
+    if (n === null) {
+        repairs.push(`${field}: 无效 → 0.5`);
+        return 0.5;
+    }
+    if (n > 1 && n <= 10) n /= 10;
+    else if (n > 10 && n <= 100) n /= 100;
+    const clamped = Math.min(1, Math.max(0, n));
+    if (clamped !== value) repairs.push(`${field}: ${JSON.stringify(value)} → ${clamped}`);
+    return clamped;
+};
+
+const coerceDescriptors = (raw: any, field: string, repairs: string[]): MotionDescriptors => {
+    if (!raw || typeof raw !== 'object') {
+        repairs.push(`${field}: 缺失，使用默认值`);
+        return { ...DEFAULT_DESCRIPTORS };
+    }
+    const descriptors: MotionDescriptors = {
+        flow: coerceEnum(raw.flow, FLOWS, DEFAULT_DESCRIPTORS.flow, `${field}.flow`, repairs),
+        hand_bias: coerceEnum(raw.hand_bias, HAND_BIASES, DEFAULT_DESCRIPTORS.hand_bias, `${field}.hand_bias`, repairs),
+        focus: coerceEnum(raw.focus, FOCUSES, DEFAULT_DESCRIPTORS.focus, `${field}.focus`, repairs)
+    };
+    if (raw.special_pattern !== undefined) {
+        descriptors.special_pattern = coerceEnum(raw.special_pattern, SPECIAL_PATTERNS, 'none', `${field}.special_pattern`, repairs);
+    }
+    return descriptors;
+};
+
+const fallbackSections = (duration: number, reference: SectionInfo[]): SectionInfo[] =>
+    reference.length > 0
+        ? reference
+        : [{ startTime: 0, endTime: duration, type: 'verse', intensity: 0.8, style: 'stream', descriptors: { ...DEFAULT_DESCRIPTORS } }];
+
+/**
+ * Turns whatever came back as `sections` into a sorted, non-overlapping list covering [0, duration].
+ * Short gaps stretch the earlier section; longer ones are filled from `reference` (the local
+ * DSP sections) when given, otherwise by the neighbouring section.
+ */
+export const validateSections = (raw: unknown, duration: number, reference: SectionInfo[] = []): Validated<SectionInfo[]> => {
+    const repairs: string[] = [];
+    if (!Array.isArray(raw)) {
+        repairs.push('sections: 不是数组，已丢弃');
+        return { value: fallbackSections(duration, reference), repairs };
+    }
+
+    const parsed: SectionInfo[] = [];
+    raw.forEach((s: any, i) => {
+        const field = `sections[${i}]`;
+        if (!s || typeof s !== 'object') {
+            repairs.push(`${field}: 不是对象，已丢弃`);
+            return;
+        }
+        let startTime = toNumber(s.startTime);
+        let endTime = toNumber(s.endTime);
+        if (startTime === null || endTime === null) {
+            repairs.push(`${field}: 时间无效，已丢弃`);
+            return;
+        }
+        if (endTime < startTime) {
+            repairs.push(`${field}: 起止时间颠倒，已交换`);
+            [startTime, endTime] = [endTime, startTime];
+        }
+        const clampedStart = Math.max(0, startTime), clampedEnd = Math.min(duration, endTime);
+        if (clampedStart !== startTime || clampedEnd !== endTime) {
+            repairs.push(`${field}: 时间 ${startTime.toFixed(2)}-${endTime.toFixed(2)}s 截断到 0-${duration.toFixed(2)}s`);
+        }
+        if (clampedEnd - clampedStart < MIN_SECTION_SECONDS) {
+            repairs.push(`${field}: 时长不足 ${MIN_SECTION_SECONDS}s，已丢弃`);
+            return;
+        }
+        parsed.push({
+            startTime: clampedStart,
+            endTime: clampedEnd,
+            type: coerceEnum(s.type, SECTION_TYPES, 'verse', `${field}.type`, repairs, SECTION_TYPE_ALIASES),
+            intensity: coerceIntensity(s.intensity, `${field}.intensity`, repairs),
+            style: coerceEnum(s.style, SECTION_STYLES, 'stream', `${field}.style`, repairs),
+            descriptors: coerceDescriptors(s.descriptors, `${field}.descriptors`, repairs)
+        });
+    });
+
+    parsed.sort((a, b) => a.startTime - b.startTime);
+
+    // Overlaps: same-type neighbours merge, otherwise the later section starts where the earlier ends
+    const merged: SectionInfo[] = [];
+    for (const s of parsed) {
+        const prev = merged[merged.length - 1];
+        if (prev && s.startTime < prev.endTime) {
+            if (s.type === prev.type) {
+                repairs.push(`重叠的 ${s.type} 段 ${prev.startTime.toFixed(2)}s / ${s.startTime.toFixed(2)}s 已合并`);
+                prev.endTime = Math.max(prev.endTime, s.endTime);
+                prev.intensity = Math.max(prev.intensity, s.intensity);
+                continue;
+            }
+            if (s.endTime - prev.endTime < MIN_SECTION_SECONDS) {
+                repairs.push(`${s.startTime.toFixed(2)}s 处的 ${s.type} 段被前一段覆盖，已丢弃`);
+                continue;
+            }
+            repairs.push(`${s.type} 段起点 ${s.startTime.toFixed(2)}s 与前一段重叠，移至 ${prev.endTime.toFixed(2)}s`);
+            s.startTime = prev.endTime;
+        }
+        merged.push(s);
+    }
+
+    if (merged.length === 0) {
+        repairs.push('没有可用的段落');
+        return { value: fallbackSections(duration, reference), repairs };
+    }
+
+    // Gaps, including before the first and after the last section
+    const result: SectionInfo[] = [];
+    const fillGap = (start: number, end: number, neighbour: SectionInfo) => {
+        if (end - start < 0.01) return;
+        if (end - start <= GAP_ABSORB_SECONDS || reference.length === 0) {
+            repairs.push(`空隙 ${start.toFixed(2)}-${end.toFixed(2)}s 由相邻段填补`);
+            if (neighbour === merged[0] && result.length === 0) neighbour.startTime = start;
+            else result[result.length - 1].endTime = end;
+            return;
+        }
+        repairs.push(`空隙 ${start.toFixed(2)}-${end.toFixed(2)}s 由本地分析填补`);
+        for (const r of reference) {
+            const from = Math.max(start, r.startTime), to = Math.min(end, r.endTime);
+            if (to - from > 0.01) result.push({ ...r, startTime: from, endTime: to });
+        }
+    };
+
+    let cursor = 0;
+    for (const s of merged) {
+        fillGap(cursor, s.startTime, s);
+        result.push(s);
+        cursor = s.endTime;
+    }
+    fillGap(cursor, duration, merged[merged.length - 1]);
+
+    return { value: result, repairs };
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const coerceColor = (value: unknown, fallback: string, field: string, repairs: string[]): string => {
+    const str = typeof value === 'string' ? value.trim() : '';
+    if (HEX_COLOR.test(str)) return str;
+    if (/^[0-9a-f]{6}$/i.test(str)) {
+        repairs.push(`${field}: 补全 "#"`);
+        return `#${str}`;
+    }
+    repairs.push(`${field}: ${value === undefined ? '缺失' : `"${value}"`} → ${fallback}`);
+    return fallback;
+};
+
+const coerceText = (value: unknown, fallback: string, field: string, repairs: string[]): string => {
+    const str = typeof value === 'string' ? value.trim() : '';
+    if (str) return str;
+    repairs.push(`${field}: 为空 → "${fallback}"`);
+    return fallback;
+};
+
+/** `fallback` supplies the filename title and the DSP tempo for anything unusable. */
+export const validateMetadata = (raw: any, fallback: MetadataResult): Validated<MetadataResult> => {
+    const repairs: string[] = [];
+    if (!raw || typeof raw !== 'object') {
+        repairs.push('元数据: 不是对象，使用回退值');
+        return { value: fallback, repairs };
+    }
+
+    let bpm = toNumber(raw.bpm);
+    if (bpm === null || bpm <= 0) {
+        repairs.push(`bpm: ${raw.bpm === undefined ? '缺失' : `"${raw.bpm}"`} → ${fallback.bpm}`);
+        bpm = fallback.bpm;
+    } else if (bpm < MIN_BPM || bpm > MAX_BPM) {
+        // Usually a half/double-time answer; fold it into range rather than discarding it
+        const original = bpm;
+        while (bpm < MIN_BPM) bpm *= 2;
+        while (bpm > MAX_BPM) bpm /= 2;
+        repairs.push(`bpm: ${original} 超出范围 → ${bpm}`);
+    } else if (bpm !== raw.bpm) {
+        repairs.push(`bpm: "${raw.bpm}" → ${bpm}`);
+    }
+
+    const rawTheme = raw.theme && typeof raw.theme === 'object' ? raw.theme : {};
+    if (rawTheme !== raw.theme) repairs.push('theme: 缺失，使用默认主题');
+    const fallbackTheme: AITheme = fallback.theme || DEFAULT_THEME;
+    const theme: AITheme = {
+        primaryColor: coerceColor(rawTheme.primaryColor, fallbackTheme.primaryColor, 'theme.primaryColor', repairs),
+        secondaryColor: coerceColor(rawTheme.secondaryColor, fallbackTheme.secondaryColor, 'theme.secondaryColor', repairs),
+        catchColor: coerceColor(rawTheme.catchColor, fallbackTheme.catchColor, 'theme.catchColor', repairs),
+        perfectColor: coerceColor(rawTheme.perfectColor, fallbackTheme.perfectColor, 'theme.perfectColor', repairs),
+        goodColor: coerceColor(rawTheme.goodColor, fallbackTheme.goodColor, 'theme.goodColor', repairs),
+        moodDescription: coerceText(rawTheme.moodDescription, fallbackTheme.moodDescription, 'theme.moodDescription', repairs)
+    };
+
+    const album = typeof raw.album === 'string' && raw.album.trim() ? raw.album.trim() : undefined;
+
+    return {
+        value: {
+            title: coerceText(raw.title, fallback.title, 'title', repairs),
+            artist: coerceText(raw.artist, fallback.artist, 'artist', repairs),
+            album,
+            bpm,
+            theme
+        },
+        repairs
+    };
+};
+
+/**
+ * Copilot instructions, checked against the edit window: lanes must exist, notes must start
+ * inside [0, beatCount) and holds may not run past it. Duplicate notes are dropped.
+ */
+export const validatePatternInstructions = (raw: unknown, laneCount: number, beatCount: number): Validated<PatternInstruction[]> => {
+    const repairs: string[] = [];
+    if (!Array.isArray(raw)) {
+        repairs.push('instructions: 不是数组，已丢弃');
+        return { value: [], repairs };
+    }
+
+    const isLane = (lane: unknown): lane is number =>
+        typeof lane === 'number' && Number.isInteger(lane) && lane >= 0 && lane < laneCount;
+
+    const result: PatternInstruction[] = [];
+    raw.forEach((instr: any, i) => {
+        const field = `instructions[${i}]`;
+        const type = normalizeKey(instr?.type).toUpperCase();
+        if (type !== 'CLEAR' && type !== 'ADD') {
+            repairs.push(`${field}: 未知指令 "${instr?.type}"，已丢弃`);
+            return;
+        }
+
+        if (type === 'CLEAR') {
+            const clear: PatternInstruction = { type };
+            if (Array.isArray(instr.lanes)) {
+                const lanes = instr.lanes.map(toNumber).filter(isLane);
+                if (lanes.length !== instr.lanes.length) repairs.push(`${field}.lanes: 移除了不存在的轨道`);
+                // An emptied lane filter would widen CLEAR to every lane, so drop the instruction instead
+                if (lanes.length === 0 && instr.lanes.length > 0) {
+                    repairs.push(`${field}: 没有有效轨道，已丢弃`);
+                    return;
+                }
+                if (lanes.length > 0) clear.lanes = lanes;
+            }
+            result.push(clear);
+            return;
+        }
+
+        if (!Array.isArray(instr.notes)) {
+            repairs.push(`${field}: 缺少 notes，已丢弃`);
+            return;
+        }
+        const seen = new Set<string>();
+        const notes: NonNullable<PatternInstruction['notes']> = [];
+        instr.notes.forEach((n: any, j: number) => {
+            const noteField = `${field}.notes[${j}]`;
+            const beatOffset = toNumber(n?.beatOffset);
+            const lane = toNumber(n?.lane);
+            if (beatOffset === null || beatOffset < 0 || beatOffset >= beatCount) {
+                repairs.push(`${noteField}: beatOffset ${n?.beatOffset} 超出窗口，已丢弃`);
+                return;
+            }
+            if (!isLane(lane)) {
+                repairs.push(`${noteField}: 轨道 ${n?.lane} 不存在，已丢弃`);
+                return;
+            }
+            const key = `${lane}:${beatOffset}`;
+            if (seen.has(key)) {
+                repairs.push(`${noteField}: 重复音符，已丢弃`);
+                return;
+            }
+            seen.add(key);
+
+            let duration = toNumber(n?.duration) ?? 0;
+            const maxDuration = beatCount - beatOffset;
+            if (duration < 0 || duration > maxDuration) {
+                const clamped = Math.min(maxDuration, Math.max(0, duration));
+                repairs.push(`${noteField}: duration ${duration} → ${clamped}`);
+                duration = clamped;
+            }
+            notes.push({ beatOffset, lane, duration });
+        });
+        if (notes.length > 0) result.push({ type, notes });
+    });
+
+    return { value: result, repairs };
+};
+
+/** Writes a validator's repairs to the console as one collapsed group. */
+export const logRepairs = (label: string, repairs: string[]) => {
+    if (repairs.length === 0) return;
+    console.groupCollapsed(`[AI 校验] ${label}: 修复 ${repairs.length} 处`);
+    repairs.forEach(r => console.warn(r));
+    console.groupEnd();
+};
@@ -1,32 +1,115 @@
 
-import { Onset } from '../types';
-
-// 计算均方根 (RMS) 能量 - Pure Math
-const calculateRMS = (data: Float32Array) => {
-  let sum = 0;
-  for (let i = 0; i < data.length; i++) {
-    sum += data[i] * data[i];
-  }
-  return Math.sqrt(sum / data.length);
-};
+import { Onset, OnsetBand, TimingPoint } from '../types';
+import { getDominantBpm } from './timing';
 
 // 移动平均滤波器 - Pure Math
-const calculateMovingAverage = (data: number[], windowSize: number) => {
+const calculateMovingAverage = (data: Float32Array, windowSize: number) => {
   const averages = new Float32Array(data.length);
   const halfWindow = Math.floor(windowSize / 2);
   
+  // Prefix sums keep this O(n) for long songs
+  const prefix = new Float64Array(data.length + 1);
+  for (let i = 0; i < data.length; i++) prefix[i + 1] = prefix[i] + data[i];
+
   for (let i = 0; i < data.length; i++) {
-    let start = Math.max(0, i - halfWindow);
-    let end = Math.min(data.length, i + halfWindow);
-    let sum = 0;
-    for(let j=start; j<end; j++) {
-        sum += data[j];
-    }
-    averages[i] = sum / (end - start);
+    const start = Math.max(0, i - halfWindow);
+    const end = Math.min(data.length, i + halfWindow + 1);
+    averages[i] = (prefix[end] - prefix[start]) / (end - start);
   }
   return averages;
 };
 
+// 原地基 2 FFT (Cooley-Tukey) - Pure Math
+export const fftInPlace = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wRe = Math.cos(ang), wIm = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1, curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k], aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe; im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe; im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// --- Spectral Flux Configuration ---
+const ANALYSIS_RATE = 22050;   // Everything above ~11 kHz is irrelevant for onsets
+const FRAME_SIZE = 1024;       // ~46 ms window at 22.05 kHz
+const HOP_SIZE = 256;          // ~11.6 ms hop; peaks are interpolated below this
+const LOG_COMPRESSION = 100;   // log(1 + C·|X|) evens out loud and quiet passages
+const PEAK_RADIUS = 3;         // Frames on each side a peak must dominate
+// Log-compressed flux peaks while a transient is still entering the window, about one hop early
+const PEAK_LAG_FRAMES = 1;
+const THRESHOLD_WINDOW = 0.5;  // Seconds of context for the adaptive threshold
+const THRESHOLD_RATIO = 1.5;
+const MIN_ONSET_GAP = 0.05;    // Onsets closer than this are merged across bands
+const SILENCE_RMS = 0.01;
+const PROGRESS_INTERVAL_FRAMES = 2048; // ~24 s of audio between progress callbacks
+
+// Rough instrument regions (Hz). They overlap in real mixes; the label is the band whose flux peaked hardest.
+export const ONSET_BANDS: Record<OnsetBand, [number, number]> = {
+  kick: [30, 150],
+  snare: [150, 800],
+  vocal: [800, 3500],
+  hat: [5000, 11000]
+};
+
+const BAND_NAMES = Object.keys(ONSET_BANDS) as OnsetBand[];
+
+const ANTI_ALIAS_CUTOFF = 0.48; // Fraction of the decimated rate; keeps the hat band below Nyquist
+
+// Decimate by an integer factor behind a second-order Butterworth lowpass (RBJ biquad).
+// Only every `factor`-th filtered sample is kept, so no full-rate copy is allocated.
+export const downsample = (data: Float32Array, sampleRate: number): { data: Float32Array; rate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { data, rate: sampleRate };
+  const rate = sampleRate / factor;
+
+  const w0 = (2 * Math.PI * rate * ANTI_ALIAS_CUTOFF) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0, b1 = (1 - cos) / a0, b2 = b0;
+  const a1 = (-2 * cos) / a0, a2 = (1 - alpha) / a0;
+
+  const out = new Float32Array(Math.floor(data.length / factor));
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < out.length * factor; i++) {
+    const x = data[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x; y2 = y1; y1 = y;
+    if (i % factor === 0) out[i / factor] = y;
+  }
+  return { data: out, rate };
+};
+
+type OnsetCandidate = Onset & { strength: number }; // strength = flux / threshold, used to rank bands
+
+// Parabolic fit through three samples; returns the peak offset in [-0.5, 0.5]
+const interpolatePeak = (a: number, b: number, c: number) => {
+  const denom = a - 2 * b + c;
+  if (denom === 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom));
+};
+
 /**
  * Helper: Extract a slice of an AudioBuffer
  */
@@ -55,168 +138,380 @@ export const getAudioBufferSlice = (buffer: AudioBuffer, startTime: number, dura
     return newBuffer;
 };
 
+/**
+ * 1a. 提取声道 (Main Thread)
+ * AudioBuffer 只能在主线程读取；复制出的声道可以 transfer 给 Worker。
+ */
+export const extractChannels = (audioBuffer: AudioBuffer): Float32Array[] => {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < audioBuffer.numberOfChannels; c++) channels.push(audioBuffer.getChannelData(c).slice());
+    return channels;
+};
+
+/**
+ * 1b. 混合为单声道 (Worker Thread Compatible)
+ */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+    if (channels.length === 1) return channels[0];
+    const monoData = new Float32Array(channels[0].length);
+    for (const data of channels) {
+        for (let i = 0; i < data.length; i++) monoData[i] += data[i] / channels.length;
+    }
+    return monoData;
+};
+
 /**
  * 1. 预处理音频 (Main Thread)
- * 使用 OfflineAudioContext 快速提取低频通道数据。
- * 这部分必须在主线程运行，因为它依赖 DOM Audio API。
+ * 短片段 (如编辑器的局部分析) 直接在主线程混合；整首歌请走 Worker。
  */
 export const preprocessAudioData = async (
     audioBuffer: AudioBuffer
-): Promise<{ lowData: Float32Array; fullData: Float32Array }> => {
-    const offlineContext = new OfflineAudioContext(
-        1,
-        audioBuffer.length,
-        audioBuffer.sampleRate
-    );
-
-    const source = offlineContext.createBufferSource();
-    source.buffer = audioBuffer;
-
-    const lowFilter = offlineContext.createBiquadFilter();
-    lowFilter.type = "lowpass";
-    lowFilter.frequency.value = 150;
-
-    source.connect(lowFilter);
-    lowFilter.connect(offlineContext.destination);
-    
-    source.start(0);
-    const renderedLow = await offlineContext.startRendering();
-    
-    return {
-        lowData: renderedLow.getChannelData(0),
-        fullData: audioBuffer.getChannelData(0)
-    };
+): Promise<{ monoData: Float32Array }> => {
+    return { monoData: mixToMono(extractChannels(audioBuffer)) };
 };
 
 /**
  * 2. 计算节奏点 (Worker Thread Compatible)
- * 纯数学计算，无 DOM 依赖，适合移入 Worker。
+ * 基于 STFT 的多频段谱通量 (Spectral Flux) 检测：
+ * 每个频段独立做自适应阈值与峰值检测，峰值位置经抛物线插值达到亚帧精度，
+ * 最后跨频段合并，标注主导频段 (band) 与置信度 (confidence)。
  */
 export const computeOnsets = (
-    lowChannelData: Float32Array,
-    fullChannelData: Float32Array,
-    sampleRate: number
+    channelData: Float32Array,
+    sampleRate: number,
+    onProgress?: (fraction: number) => void
 ): Onset[] => {
-    const onsets: Onset[] = [];
-    
-    // 60 FPS 采样精度 (约 16ms)
-    const frameRate = 60;
-    const samplesPerFrame = Math.floor(sampleRate / frameRate);
-    const totalFrames = Math.floor(lowChannelData.length / samplesPerFrame);
-
-    // 能量谱计算
-    const lowEnergies: number[] = [];
-    const fullEnergies: number[] = [];
-
-    for (let i = 0; i < totalFrames; i++) {
-        const start = i * samplesPerFrame;
-        const end = start + samplesPerFrame;
-        // 简单的切片可能会导致大量的 GC，但在 Worker 中通常可以接受
-        // 优化：直接在循环中计算 RMS 避免 slice，但这需要重写 calculateRMS 支持 offset
-        lowEnergies.push(calculateRMS(lowChannelData.slice(start, end)));
-        fullEnergies.push(calculateRMS(fullChannelData.slice(start, end)));
+    const { data, rate } = downsample(channelData, sampleRate);
+    const totalFrames = Math.floor(data.length / HOP_SIZE);
+    if (totalFrames < 3) return [];
+
+    const binHz = rate / FRAME_SIZE;
+    const bandBins = BAND_NAMES.map(band => {
+        const [lo, hi] = ONSET_BANDS[band];
+        const start = Math.max(1, Math.floor(lo / binHz));
+        const end = Math.min(FRAME_SIZE / 2, Math.ceil(hi / binHz));
+        return { start, end: Math.max(start + 1, end) };
+    });
+
+    const window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+
+    // 能量谱与谱通量
+    const flux = BAND_NAMES.map(() => new Float32Array(totalFrames));
+    const rms = new Float32Array(totalFrames);
+    const re = new Float32Array(FRAME_SIZE);
+    const im = new Float32Array(FRAME_SIZE);
+    let prevMag = new Float32Array(FRAME_SIZE / 2);
+    let mag = new Float32Array(FRAME_SIZE / 2);
+
+    for (let f = 0; f < totalFrames; f++) {
+        if (onProgress && f % PROGRESS_INTERVAL_FRAMES === 0) onProgress(f / totalFrames);
+        // Frames are centred on f * HOP_SIZE so frame f describes time f * hop
+        const offset = f * HOP_SIZE - FRAME_SIZE / 2;
+        let energy = 0;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const idx = offset + i;
+            const sample = idx >= 0 && idx < data.length ? data[idx] : 0;
+            energy += sample * sample;
+            re[i] = sample * window[i];
+            im[i] = 0;
+        }
+        rms[f] = Math.sqrt(energy / FRAME_SIZE);
+
+        fftInPlace(re, im);
+        for (let k = 0; k < FRAME_SIZE / 2; k++) {
+            mag[k] = Math.log(1 + LOG_COMPRESSION * Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+        }
+
+        if (f > 0) {
+            for (let b = 0; b < BAND_NAMES.length; b++) {
+                const { start, end } = bandBins[b];
+                let sum = 0;
+                for (let k = start; k < end; k++) {
+                    const diff = mag[k] - prevMag[k];
+                    if (diff > 0) sum += diff; // Half-wave rectified: only rising energy is an onset
+                }
+                flux[b][f] = sum / (end - start);
+            }
+        }
+        const tmp = prevMag; prevMag = mag; mag = tmp;
     }
 
-    // 局部动态阈值 (0.5秒窗口，用于捕捉瞬态)
-    const localWindow = 0.5 * frameRate; 
-    const lowThresholds = calculateMovingAverage(lowEnergies, localWindow);
-    const fullThresholds = calculateMovingAverage(fullEnergies, localWindow);
-
-    let lastOnsetTime = -1;
-    // 降低物理间隔限制 (50ms)
-    const minGap = 0.05; 
-
-    for (let i = 0; i < totalFrames; i++) {
-        const time = i / frameRate;
-        
-        if (time - lastOnsetTime < minGap) continue;
-
-        // 判定逻辑
-        const lowRatio = lowEnergies[i] / (lowThresholds[i] + 0.00001);
-        const fullRatio = fullEnergies[i] / (fullThresholds[i] + 0.00001);
-        const absLow = lowEnergies[i];
-        const absFull = fullEnergies[i];
-
-        const silenceThreshold = 0.01;
-        
-        const isLowHit = lowRatio > 1.05 && absLow > silenceThreshold;
-        const isFullHit = fullRatio > 1.1 && absFull > silenceThreshold;
-
-        if (isLowHit || isFullHit) {
-            const energy = Math.min(1, Math.max(absLow, absFull) * 5);
-            
-            onsets.push({
-                time,
-                energy,
-                isLowFreq: isLowHit && (lowRatio > fullRatio)
+    // 局部动态阈值 + 峰值检测 (逐频段)
+    const framesPerSecond = rate / HOP_SIZE;
+    const candidates: OnsetCandidate[] = [];
+
+    for (let b = 0; b < BAND_NAMES.length; b++) {
+        const bandFlux = flux[b];
+        const localMean = calculateMovingAverage(bandFlux, Math.round(THRESHOLD_WINDOW * framesPerSecond));
+        let globalMax = 0;
+        for (let f = 0; f < totalFrames; f++) globalMax = Math.max(globalMax, bandFlux[f]);
+        if (globalMax === 0) continue;
+        const floor = globalMax * 0.05;
+
+        for (let f = 1; f < totalFrames - 1; f++) {
+            const value = bandFlux[f];
+            const threshold = localMean[f] * THRESHOLD_RATIO + floor;
+            if (value <= threshold || rms[f] < SILENCE_RMS) continue;
+
+            let isPeak = true;
+            for (let k = Math.max(0, f - PEAK_RADIUS); k <= Math.min(totalFrames - 1, f + PEAK_RADIUS); k++) {
+                if (bandFlux[k] > value || (bandFlux[k] === value && k < f)) { isPeak = false; break; }
+            }
+            if (!isPeak) continue;
+
+            const frame = f + interpolatePeak(bandFlux[f - 1], value, bandFlux[f + 1]) + PEAK_LAG_FRAMES;
+            const band = BAND_NAMES[b];
+            candidates.push({
+                time: Math.max(0, (frame * HOP_SIZE) / rate),
+                energy: Math.min(1, rms[f] * 5),
+                isLowFreq: band === 'kick',
+                band,
+                confidence: Math.min(1, (value / threshold - 1) / 2),
+                strength: value / threshold
             });
-            lastOnsetTime = time;
         }
     }
 
-    return onsets;
+    // 跨频段合并：间隔过近的检测视为同一事件，保留最强频段
+    candidates.sort((a, b) => a.time - b.time);
+    const merged: OnsetCandidate[] = [];
+    for (const c of candidates) {
+        const last = merged[merged.length - 1];
+        if (last && c.time - last.time < MIN_ONSET_GAP) {
+            if (c.strength > last.strength) {
+                merged[merged.length - 1] = { ...c, time: last.time, energy: Math.max(last.energy, c.energy) };
+            } else {
+                last.energy = Math.max(last.energy, c.energy);
+            }
+            continue;
+        }
+        merged.push(c);
+    }
+
+    return merged.map(({ strength, ...onset }) => onset);
 };
 
-/**
- * 3. 估算 BPM (Simple Interval Histogram)
- * 基于 Onsets 计算最可能的 BPM
- */
-export const estimateBPM = (onsets: Onset[]): number => {
-    if (onsets.length < 10) return 120;
-
-    const intervals: number[] = [];
-    // Only verify adjacent or near-adjacent onsets to find beat interval
-    for (let i = 0; i < onsets.length - 1; i++) {
-        for (let j = i + 1; j < Math.min(i + 5, onsets.length); j++) {
-            const delta = onsets[j].time - onsets[i].time;
-            if (delta > 0.2 && delta < 1.0) { // 60-300 BPM range roughly
-                intervals.push(delta);
-            }
+// --- Beat Tracking Configuration ---
+const ENVELOPE_RATE = 100;         // Onset envelope samples per second
+const TEMPO_WINDOW = 8;            // Seconds per local tempo estimate
+const TEMPO_HOP = 4;
+const MIN_TRACK_BPM = 60;
+const MAX_TRACK_BPM = 280;
+const TEMPO_PRIOR_CENTER = 150;    // Geometric middle of the usual rhythm game range
+const TEMPO_PRIOR_WIDTH = 1.2;     // Octaves; wide enough that 200+ BPM can win on evidence
+const TEMPO_CHANGE_COST = 3;       // Per octave of change between neighbouring windows
+const TEMPO_SWITCH_COST = 0.15;    // Flat cost of any change, so noise does not split sections
+const SAME_TEMPO_RATIO = 0.02;     // Neighbouring sections closer than this are one tempo
+const ACCENT_RADIUS = 0.035;       // Seconds around a beat that count towards its accent
+
+export interface BeatGrid {
+    bpm: number; // Dominant tempo
+    timingPoints: TimingPoint[];
+    downbeatOffset: number;
+}
+
+// Onsets as a smoothed impulse train, weighted by how clearly each one stood out
+const buildOnsetEnvelope = (onsets: Onset[], duration: number): Float32Array => {
+    const env = new Float32Array(Math.ceil(duration * ENVELOPE_RATE) + 3);
+    for (const o of onsets) {
+        const pos = o.time * ENVELOPE_RATE;
+        const weight = 0.3 + (o.confidence ?? 0.5) + o.energy * 0.5;
+        const center = Math.round(pos);
+        for (let d = -2; d <= 2; d++) {
+            const idx = center + d;
+            if (idx >= 0 && idx < env.length) env[idx] += weight * (1 - Math.abs(idx - pos) / 3);
+        }
+    }
+    return env;
+};
+
+const sampleAt = (env: Float32Array, pos: number) => {
+    const i = Math.floor(pos);
+    if (i < 0 || i + 1 >= env.length) return 0;
+    const f = pos - i;
+    return env[i] * (1 - f) + env[i + 1] * f;
+};
+
+// Autocorrelation at a fractional lag inside [start, end)
+const autocorrelate = (env: Float32Array, start: number, end: number, lag: number) => {
+    let sum = 0;
+    for (let i = start; i + lag < end; i++) sum += env[i] * sampleAt(env, i + lag);
+    return sum / Math.max(1, end - start - lag);
+};
+
+// Periodicity of one tempo: the beat lag and its first multiples, later ones weighted less
+const scoreTempo = (env: Float32Array, start: number, end: number, bpm: number) => {
+    const period = (60 / bpm) * ENVELOPE_RATE;
+    let score = 0;
+    for (let m = 1; m <= 4; m++) score += autocorrelate(env, start, end, period * m) / m;
+    const octaves = Math.log2(bpm / TEMPO_PRIOR_CENTER) / TEMPO_PRIOR_WIDTH;
+    return score * Math.exp(-0.5 * octaves * octaves);
+};
+
+// Phase (seconds) of a beat grid that lands on the most onset energy within [start, end)
+const fitPhase = (env: Float32Array, start: number, end: number, bpm: number) => {
+    const period = 60 / bpm;
+    let best = { phase: 0, score: -1 };
+    for (let phase = 0; phase < period; phase += 1 / ENVELOPE_RATE) {
+        let score = 0;
+        const first = start + ((phase - start) % period + period) % period;
+        for (let t = first; t < end; t += period) score += sampleAt(env, t * ENVELOPE_RATE);
+        if (score > best.score) best = { phase: first, score };
+    }
+    return best;
+};
+
+// Fine tempo + phase fit over a whole section; near-integer tempos are snapped to the integer
+const refineSection = (env: Float32Array, start: number, end: number, bpm: number) => {
+    let best = { bpm, ...fitPhase(env, start, end, bpm) };
+    for (const step of [0.1, 0.01]) {
+        const center = best.bpm;
+        for (let b = center - step * 10; b <= center + step * 10; b += step) {
+            const fit = fitPhase(env, start, end, b);
+            if (fit.score > best.score) best = { bpm: b, ...fit };
         }
     }
+    const rounded = Math.round(best.bpm);
+    if (Math.abs(best.bpm - rounded) < 0.05) {
+        const fit = fitPhase(env, start, end, rounded);
+        if (fit.score >= best.score * 0.98) best = { bpm: rounded, ...fit };
+    }
+    return { bpm: Math.round(best.bpm * 100) / 100, phase: best.phase };
+};
 
-    if (intervals.length === 0) return 120;
+// Meter and bar phase from the low-frequency accent pattern of the section's beats
+const findDownbeat = (onsets: Onset[], beats: number[]): { meter: number; downbeat: number } => {
+    const accents = beats.map(t => {
+        let accent = 0;
+        for (const o of onsets) {
+            if (o.time < t - ACCENT_RADIUS) continue;
+            if (o.time > t + ACCENT_RADIUS) break;
+            accent += o.energy * (o.band === 'kick' ? 2 : 0.5);
+        }
+        return accent;
+    });
+    const mean = accents.reduce((a, b) => a + b, 0) / Math.max(1, accents.length);
+
+    let best = { meter: 4, downbeat: 0, contrast: -Infinity };
+    for (const meter of [4, 3]) {
+        for (let o = 0; o < meter; o++) {
+            let sum = 0, count = 0;
+            for (let k = o; k < accents.length; k += meter) { sum += accents[k]; count++; }
+            // 3/4 has to be clearly better to replace the far more common 4/4
+            const contrast = (count ? sum / count : 0) - mean - (meter === 3 ? mean * 0.2 : 0);
+            if (contrast > best.contrast) best = { meter, downbeat: o, contrast };
+        }
+    }
+    return { meter: best.meter, downbeat: best.downbeat };
+};
 
-    // Bucket intervals (precision 10ms)
-    const buckets: Record<number, number> = {};
-    intervals.forEach(val => {
-        const bucket = Math.round(val * 100) / 100; // 0.01s precision
-        buckets[bucket] = (buckets[bucket] || 0) + 1;
+/**
+ * 3. 节拍跟踪 (Worker Thread Compatible)
+ * 逐窗口用 onset 包络的自相关估计局部速度，再用动态规划平滑出速度段；
+ * 每段精修 BPM 与相位，并根据低频重音确定拍号与第一个强拍，输出 timing points。
+ */
+export const trackBeats = (onsets: Onset[], duration: number): BeatGrid => {
+    const fallback: BeatGrid = { bpm: 120, timingPoints: [{ time: 0, bpm: 120, meter: 4 }], downbeatOffset: 0 };
+    if (onsets.length < 10 || duration <= 0) return fallback;
+
+    const env = buildOnsetEnvelope(onsets, duration);
+    const candidates: number[] = [];
+    for (let b = MIN_TRACK_BPM; b <= MAX_TRACK_BPM; b++) candidates.push(b);
+
+    // 1. Local tempo evidence per window, normalized so every window votes equally
+    const windowStarts: number[] = [];
+    for (let t = 0; t === 0 || t + TEMPO_WINDOW <= duration; t += TEMPO_HOP) windowStarts.push(t);
+    const evidence = windowStarts.map(t => {
+        const start = Math.floor(t * ENVELOPE_RATE);
+        const end = Math.min(env.length, Math.floor((t + TEMPO_WINDOW) * ENVELOPE_RATE));
+        const scores = candidates.map(b => scoreTempo(env, start, end, b));
+        const max = Math.max(...scores);
+        return scores.map(s => (max > 0 ? s / max : 0));
     });
 
-    let bestInterval = 0.5;
-    let maxCount = 0;
-
-    Object.entries(buckets).forEach(([intervalStr, count]) => {
-        const interval = parseFloat(intervalStr);
-        // Weight by nearby buckets to smooth
-        let weightedCount = count;
-        if (buckets[interval - 0.01]) weightedCount += buckets[interval - 0.01] * 0.5;
-        if (buckets[interval + 0.01]) weightedCount += buckets[interval + 0.01] * 0.5;
-        
-        if (weightedCount > maxCount) {
-            maxCount = weightedCount;
-            bestInterval = interval;
+    // 2. Viterbi over windows: stay close to the evidence, change tempo only when it pays off
+    const n = candidates.length;
+    let cost = evidence[0].map(e => 1 - e);
+    const back: Int16Array[] = [];
+    for (let w = 1; w < evidence.length; w++) {
+        const next = new Array(n).fill(Infinity);
+        const from = new Int16Array(n);
+        for (let j = 0; j < n; j++) {
+            for (let i = 0; i < n; i++) {
+                const change = i === j ? 0 : TEMPO_SWITCH_COST + TEMPO_CHANGE_COST * Math.abs(Math.log2(candidates[j] / candidates[i]));
+                const c = cost[i] + change;
+                if (c < next[j]) { next[j] = c; from[j] = i; }
+            }
+            next[j] += 1 - evidence[w][j];
         }
+        back.push(from);
+        cost = next;
+    }
+    const path = new Array(evidence.length);
+    path[path.length - 1] = cost.indexOf(Math.min(...cost));
+    for (let w = path.length - 1; w > 0; w--) path[w - 1] = back[w - 1][path[w]];
+
+    // 3. Windows -> tempo sections (boundaries halfway between window centres)
+    const sections: { start: number; end: number; bpm: number }[] = [];
+    path.forEach((idx: number, w: number) => {
+        const bpm = candidates[idx];
+        const last = sections[sections.length - 1];
+        if (last && Math.abs(bpm / last.bpm - 1) < SAME_TEMPO_RATIO) return;
+        const start = w === 0 ? 0 : windowStarts[w] + (TEMPO_WINDOW - TEMPO_HOP) / 2;
+        if (last) last.end = start;
+        sections.push({ start, end: duration, bpm });
     });
 
-    let estimatedBPM = 60 / bestInterval;
+    // 4. Refine each section and place its timing point on a downbeat
+    const timingPoints: TimingPoint[] = [];
+    for (const section of sections) {
+        const { bpm, phase } = refineSection(env, section.start, section.end, section.bpm);
+        const period = 60 / bpm;
+        const beats: number[] = [];
+        for (let t = phase; t < section.end; t += period) beats.push(t);
+        const { meter, downbeat } = findDownbeat(onsets, beats);
 
-    // Clamp to reasonable range (80 - 180 is typical safe zone)
-    while (estimatedBPM < 80) estimatedBPM *= 2;
-    while (estimatedBPM > 190) estimatedBPM /= 2;
+        let time = phase + downbeat * period;
+        if (timingPoints.length === 0) {
+            // The first point's grid extends backwards, so put it on the earliest downbeat
+            while (time - meter * period >= 0) time -= meter * period;
+        }
+        const prev = timingPoints[timingPoints.length - 1];
+        if (prev) {
+            // Window boundaries are coarse: pull the change earlier while the new grid explains the bar before it better
+            const measure = meter * period;
+            const gridScore = (start: number, end: number, p: { time: number; bpm: number }) => {
+                const step = 60 / p.bpm;
+                let score = 0;
+                for (let t = p.time + Math.ceil((start - p.time) / step - 1e-6) * step; t < end; t += step) score += sampleAt(env, t * ENVELOPE_RATE);
+                return score;
+            };
+            while (time - measure > prev.time + (60 / prev.bpm) * prev.meter
+                && gridScore(time - measure, time, { time, bpm }) > gridScore(time - measure, time, prev)) {
+                time -= measure;
+            }
+            if (time - prev.time < (60 / prev.bpm) * prev.meter) continue;
+        }
+        timingPoints.push({ time: Math.round(time * 1000) / 1000, bpm, meter });
+    }
+    if (timingPoints.length === 0) return fallback;
 
-    return Math.round(estimatedBPM);
+    return {
+        bpm: getDominantBpm(timingPoints, duration),
+        timingPoints,
+        downbeatOffset: timingPoints[0].time
+    };
 };
 
 // Legacy Wrapper for backward compatibility if needed (Purely Main Thread)
 export const analyzeAudioDSP = async (
   arrayBuffer: ArrayBuffer, 
   audioContext: AudioContext
-): Promise<{ buffer: AudioBuffer; onsets: Onset[]; duration: number; estimatedBPM: number }> => {
+): Promise<{ buffer: AudioBuffer; onsets: Onset[]; duration: number; estimatedBPM: number; beatGrid: BeatGrid }> => {
   const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  const { lowData, fullData } = await preprocessAudioData(audioBuffer);
-  const onsets = computeOnsets(lowData, fullData, audioBuffer.sampleRate);
-  const estimatedBPM = estimateBPM(onsets);
-  return { buffer: audioBuffer, onsets, duration: audioBuffer.duration, estimatedBPM };
+  const { monoData } = await preprocessAudioData(audioBuffer);
+  const onsets = computeOnsets(monoData, audioBuffer.sampleRate);
+  const beatGrid = trackBeats(onsets, audioBuffer.duration);
+  return { buffer: audioBuffer, onsets, duration: audioBuffer.duration, estimatedBPM: beatGrid.bpm, beatGrid };
 };
@@ -1,11 +1,21 @@
 
-import { Note, NoteLane, Onset, SongStructure, BeatmapDifficulty, LaneCount, PlayStyle, MotionDescriptors, NoteType } from '../types';
+import { Note, NoteLane, Onset, OnsetBand, SongStructure, BeatmapDifficulty, LaneCount, PlayStyle, MotionDescriptors, NoteType, TimingPoint } from '../types';
+import { getTimingPoints, getBeatDuration, snapTime } from './timing';
+import { Rng, createRng, createSeed, shuffle } from './random';
 
 // Interpolation helper
 const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
 
+interface DifficultyConfig {
+    thresholdMultiplier: number;
+    minGap: number;
+    maxPolyphony: number;
+    allowedCost: number;
+    patternChance: number;
+}
+
 // Continuous Difficulty Configuration (Level 1 to 20)
-const getDifficultyConfig = (level: number) => {
+const getDifficultyConfig = (level: number): DifficultyConfig => {
     const l = Math.max(1, Math.min(20, level));
     const t = (l - 1) / 19; 
 
@@ -34,11 +44,22 @@ export interface BeatmapFeatures {
     normal: boolean;
     holds: boolean;
     catch: boolean;
+    seed?: number; // Same seed + same inputs = identical notes; omitted means a fresh random seed
 }
 
-const alignOnsetsLocal = (onsets: Onset[], bpm: number): Onset[] => {
+// Onsets this close to a 1/4 or 1/3 beat line of the song's grid are pulled onto it
+const GRID_SNAP_TOLERANCE = 0.03;
+
+const snapOnsetToGrid = (onset: Onset, timingPoints: TimingPoint[]): Onset => {
+    const nearest = [4, 3]
+        .map(div => snapTime(timingPoints, onset.time, div))
+        .reduce((best, t) => Math.abs(t - onset.time) < Math.abs(best - onset.time) ? t : best);
+    return Math.abs(nearest - onset.time) < GRID_SNAP_TOLERANCE ? { ...onset, time: Math.max(0, nearest) } : onset;
+};
+
+const alignOnsetsLocal = (onsets: Onset[], timingPoints: TimingPoint[]): Onset[] => {
     if (onsets.length < 2) return onsets;
-    const sorted = [...onsets].sort((a, b) => a.time - b.time);
+    const sorted = [...onsets].map(o => ({ ...o })).sort((a, b) => a.time - b.time);
     const aligned: Onset[] = [];
     const groupingThreshold = 0.02;
 
@@ -74,8 +95,20 @@ const alignOnsetsLocal = (onsets: Onset[], bpm: number): Onset[] => {
         aligned.push(...group);
         i = j;
     }
-    return aligned.filter((o, idx, arr) => idx === 0 || o.time > arr[idx-1].time + 0.005);
+    return aligned
+        .map(o => snapOnsetToGrid(o, timingPoints))
+        .sort((a, b) => a.time - b.time)
+        .filter((o, idx, arr) => idx === 0 || o.time > arr[idx-1].time + 0.005);
+};
+
+// Instrument -> preferred lane position (0 = leftmost, 1 = rightmost), so each part of the kit "lives" somewhere
+const BAND_LANE_ANCHOR: Record<OnsetBand, number> = {
+    kick: 0.0,
+    vocal: 0.4,
+    snare: 0.7,
+    hat: 1.0
 };
+const BAND_AFFINITY_WEIGHT = 1.5;
 
 class ErgonomicPhysics {
     private laneCount: number;
@@ -87,9 +120,12 @@ class ErgonomicPhysics {
     private rightHandStrain: number = 0;
     
     public heldLanes: number[] = []; // Track currently holding lanes
+    private instrument: { anchor: number; weight: number } | null = null;
+    private rng: Rng;
 
-    constructor(laneCount: number) {
+    constructor(laneCount: number, rng: Rng) {
         this.laneCount = laneCount;
+        this.rng = rng;
         this.bias = 'balanced';
     }
 
@@ -97,6 +133,10 @@ class ErgonomicPhysics {
     
     setHeldLanes(lanes: number[]) { this.heldLanes = lanes; }
 
+    setInstrument(band: OnsetBand | undefined, weight: number) {
+        this.instrument = band ? { anchor: BAND_LANE_ANCHOR[band], weight } : null;
+    }
+
     private getHand(lane: number): 'LEFT' | 'RIGHT' {
         return lane < this.laneCount / 2 ? 'LEFT' : 'RIGHT';
     }
@@ -140,6 +180,12 @@ class ErgonomicPhysics {
 
         cost += Math.abs(movement) * movementCostMultiplier;
 
+        // Instrument Affinity: pull the chord towards the lane region of the detected band
+        if (this.instrument) {
+            const position = currAvg / Math.max(1, this.laneCount - 1);
+            cost += Math.abs(position - this.instrument.anchor) * this.instrument.weight;
+        }
+
         // Flow Break Penalty
         if ((this.lastFlowDirection > 0 && movement > 0) || (this.lastFlowDirection < 0 && movement < 0)) {
             // Reward maintaining direction in stream
@@ -227,7 +273,7 @@ class ErgonomicPhysics {
         let minCandidateCost = 99999;
 
         // Shuffle to add variety when costs are equal
-        candidates.sort(() => Math.random() - 0.5);
+        shuffle(candidates, this.rng);
 
         for (const chord of candidates) {
             const cost = this.getCost(chord, currentTime, style, flow, allowOverlap); 
@@ -278,27 +324,19 @@ const PatternLibrary = {
         }
         return notes;
     },
-    getBurst: (startTime: number, count: number, laneCount: number) => {
+    getBurst: (startTime: number, count: number, laneCount: number, rng: Rng) => {
         // High density random burst for "special_pattern"
         const notes: any[] = [];
         // fast 1/16 stream or chord stream
         const interval = 0.05; 
         for(let i=0; i<count; i++) {
-            notes.push({ time: startTime + i*interval, lane: Math.floor(Math.random() * laneCount) });
+            notes.push({ time: startTime + i*interval, lane: Math.floor(rng() * laneCount) });
         }
         return notes;
     }
 };
 
-export const generateBeatmap = (
-    rawOnsets: Onset[], 
-    structure: SongStructure, 
-    difficulty: number | BeatmapDifficulty = 10,
-    laneCount: LaneCount = 4,
-    playStyle: PlayStyle = 'THUMB',
-    features: BeatmapFeatures = { normal: true, holds: true, catch: true }
-): Note[] => {
-    
+const toNumericDifficulty = (difficulty: number | BeatmapDifficulty): number => {
     let numericDiff = 10;
     if (typeof difficulty === 'number') {
         numericDiff = difficulty;
@@ -311,10 +349,34 @@ export const generateBeatmap = (
             case BeatmapDifficulty.Titan: numericDiff = 20; break;
         }
     }
+    return numericDiff;
+};
+
+export const generateBeatmap = (
+    rawOnsets: Onset[], 
+    structure: SongStructure, 
+    difficulty: number | BeatmapDifficulty = 10,
+    laneCount: LaneCount = 4,
+    playStyle: PlayStyle = 'THUMB',
+    features: BeatmapFeatures = { normal: true, holds: true, catch: true }
+): Note[] => {
+    const numericDiff = toNumericDifficulty(difficulty);
+    return buildBeatmap(rawOnsets, structure, numericDiff, getDifficultyConfig(numericDiff), laneCount, playStyle, features);
+};
 
-    const onsets = alignOnsetsLocal(rawOnsets, structure.bpm);
-    const config = getDifficultyConfig(numericDiff);
-    const physics = new ErgonomicPhysics(laneCount);
+const buildBeatmap = (
+    rawOnsets: Onset[],
+    structure: SongStructure,
+    numericDiff: number,
+    config: DifficultyConfig,
+    laneCount: LaneCount,
+    playStyle: PlayStyle,
+    features: BeatmapFeatures
+): Note[] => {
+    const timingPoints = getTimingPoints(structure);
+    const onsets = alignOnsetsLocal(rawOnsets, timingPoints);
+    const rng = createRng(features.seed ?? createSeed());
+    const physics = new ErgonomicPhysics(laneCount, rng);
 
     let notes: Note[] = [];
     let noteIndex = 0;
@@ -346,6 +408,7 @@ export const generateBeatmap = (
             if (desc.special_pattern === 'burst') notesToAdd = 2; // Chord stream
             
             // Bypass minGap check for bursts
+            physics.setInstrument(undefined, 0);
             const lanes = physics.getBestLanes(notesToAdd, onset.time, 9999, 'stream', 'random');
             
             lanes.forEach(lane => {
@@ -379,7 +442,7 @@ export const generateBeatmap = (
         const lookAhead = 3; 
         const canPattern = 
             features.normal &&
-            Math.random() < config.patternChance &&
+            rng() < config.patternChance &&
             noteIndex + lookAhead < onsets.length;
 
         // Skip pattern library if flow is 'random', we want unique generation via physics
@@ -399,7 +462,7 @@ export const generateBeatmap = (
                 const isLinear = desc.flow === 'linear';
                 
                 if (isExplicitSlide) {
-                    const dir = Math.random() > 0.5 ? 1 : -1;
+                    const dir = rng() > 0.5 ? 1 : -1;
                     const startL = dir === 1 ? 0 : laneCount - 1;
                     generatedPattern = PatternLibrary.getStair(onset.time, len, interval, startL, dir, laneCount);
                     patternType = 'CATCH';
@@ -409,7 +472,7 @@ export const generateBeatmap = (
                     // Decide based on difficulty if 'linear' becomes slider or stream
                     const treatAsSlide = numericDiff < 8 && features.catch;
                     
-                    const dir = Math.random() > 0.5 ? 1 : -1;
+                    const dir = rng() > 0.5 ? 1 : -1;
                     const startL = dir === 1 ? 0 : laneCount - 1;
                     generatedPattern = PatternLibrary.getStair(onset.time, len, interval, startL, dir, laneCount);
                     
@@ -420,7 +483,7 @@ export const generateBeatmap = (
                 }
                 // --- Fallback Patterns ---
                 else if (desc.flow === 'circular') {
-                    if (Math.random() < 0.6) {
+                    if (rng() < 0.6) {
                         generatedPattern = PatternLibrary.getRoll(onset.time, len, interval, laneCount);
                     } else {
                         const dir = 1;
@@ -430,7 +493,7 @@ export const generateBeatmap = (
                     notesConsumed = len;
                 }
                 else if (desc.flow === 'zigzag') {
-                     const l1 = Math.floor(Math.random() * laneCount);
+                     const l1 = Math.floor(rng() * laneCount);
                      let l2 = (l1 + 2) % laneCount; 
                      generatedPattern = PatternLibrary.getTrill(onset.time, len, interval, l1, l2);
                      notesConsumed = len;
@@ -470,9 +533,14 @@ export const generateBeatmap = (
         let isCatchGeneration = false;
         
         if (features.catch && activeHolds.length > 0) {
-            if (Math.random() < 0.5) isCatchGeneration = true;
+            if (rng() < 0.5) isCatchGeneration = true;
         }
 
+        // Band-to-lane mapping is stronger when the section's focus matches the instrument
+        const isDrumBand = onset.band === 'kick' || onset.band === 'snare' || onset.band === 'hat';
+        const focusMatch = (desc.focus === 'drum' && isDrumBand) || (desc.focus === 'vocal' && onset.band === 'vocal');
+        physics.setInstrument(onset.band, BAND_AFFINITY_WEIGHT * (onset.confidence ?? 0.5) * (focusMatch ? 2 : 1));
+
         // Generate Single/Chord via Physics
         // Pass style and flow to physics for smarter random/jump handling
         const lanes = physics.getBestLanes(simNotes, onset.time, config.allowedCost, style, desc.flow, isCatchGeneration);
@@ -480,7 +548,7 @@ export const generateBeatmap = (
         let nextNoteTime = 9999;
         if (noteIndex + 1 < onsets.length) nextNoteTime = onsets[noteIndex+1].time;
         
-        const beatDur = 60 / structure.bpm;
+        const beatDur = getBeatDuration(timingPoints, onset.time);
 
         lanes.forEach(lane => {
             let type: NoteType = 'NORMAL';
@@ -509,7 +577,7 @@ export const generateBeatmap = (
                     if (desc.focus === 'vocal' || desc.focus === 'melody') holdChance += 0.3;
                     if (numericDiff < 8) holdChance += 0.1; 
 
-                    if (Math.random() < holdChance) {
+                    if (rng() < holdChance) {
                         // Hold duration: randomly between min and max, biased towards beat intervals
                         const targetDur = Math.min(maxDur, beatDur * 4.0); // Cap at 4 beats
                         duration = targetDur;
@@ -535,7 +603,7 @@ export const generateBeatmap = (
                 if (desc.flow === 'circular' && style === 'stream') catchChance += 0.3;
                 if (desc.flow === 'linear' || desc.flow === 'zigzag') catchChance = 0; 
 
-                if (Math.random() < catchChance) {
+                if (rng() < catchChance) {
                     type = 'CATCH';
                     isCatchChain = true;
                 } else {
@@ -619,3 +687,71 @@ export const calculateDifficultyRating = (notes: Note[], duration: number): numb
     }
     return Math.max(1, Math.sqrt(diff * 0.03) * 2.1);
 };
+
+// The requested level and calculateDifficultyRating's stars are separate scales, so a level is
+// only a starting point: the chart is regenerated with a denser or sparser config until it rates right
+const RATING_TOLERANCE = 0.5;
+const MAX_TUNING_ATTEMPTS = 8;
+const DENSITY_RANGE = 3; // log2 range of the threshold scale explored in either direction
+
+export interface TunedBeatmap {
+    notes: Note[];
+    rating: number; // Achieved calculateDifficultyRating value
+    target: number;
+    density: number; // 0 = the level's base config, > 0 denser, < 0 sparser
+    withinTolerance: boolean;
+}
+
+// `density` scales every knob that decides how many onsets become notes
+const tuneDifficultyConfig = (base: DifficultyConfig, density: number): DifficultyConfig => ({
+    ...base,
+    thresholdMultiplier: base.thresholdMultiplier * Math.pow(2, -density),
+    minGap: Math.max(0.03, base.minGap * Math.pow(2, -density * 0.5)),
+    maxPolyphony: Math.max(1, Math.min(4, base.maxPolyphony + Math.round(density / 1.5)))
+});
+
+/**
+ * Generates at `level` and bisects the density until the chart's rating is within
+ * RATING_TOLERANCE of the level. Every attempt uses the same seed, so the result is still
+ * reproducible from seed + level; if the song can't reach the target the closest chart is kept.
+ */
+export const generateBeatmapForRating = (
+    rawOnsets: Onset[],
+    structure: SongStructure,
+    level: number,
+    duration: number,
+    laneCount: LaneCount = 4,
+    playStyle: PlayStyle = 'THUMB',
+    features: BeatmapFeatures = { normal: true, holds: true, catch: true }
+): TunedBeatmap => {
+    const seededFeatures = { ...features, seed: features.seed ?? createSeed() };
+    const base = getDifficultyConfig(level);
+    let lo = -DENSITY_RANGE;
+    let hi = DENSITY_RANGE;
+    let density = 0;
+    let best: TunedBeatmap | null = null;
+
+    for (let attempt = 0; attempt < MAX_TUNING_ATTEMPTS; attempt++) {
+        const notes = buildBeatmap(rawOnsets, structure, level, tuneDifficultyConfig(base, density), laneCount, playStyle, seededFeatures);
+        const rating = calculateDifficultyRating(notes, duration);
+        const miss = Math.abs(rating - level);
+        if (!best || miss < Math.abs(best.rating - level)) {
+            best = { notes, rating, target: level, density, withinTolerance: miss <= RATING_TOLERANCE };
+        }
+        if (miss <= RATING_TOLERANCE) break;
+
+        if (rating < level) lo = density;
+        else hi = density;
+        density = (lo + hi) / 2;
+    }
+    return best!;
+};
+
+// One chart per named tier; the levels mirror the enum mapping in toNumericDifficulty
+export const DIFFICULTY_LADDER: { level: number; name: BeatmapDifficulty }[] = [
+    { level: 3, name: BeatmapDifficulty.Easy },
+    { level: 8, name: BeatmapDifficulty.Normal },
+    { level: 12, name: BeatmapDifficulty.Hard },
+    { level: 16, name: BeatmapDifficulty.Expert },
+    { level: 20, name: BeatmapDifficulty.Titan },
+];
@@ -0,0 +1,92 @@
+
+import { BeatmapChart, BeatmapDifficulty, LaneCount, Note, SavedSong, SongStructure } from '../types';
+import { calculateDifficultyRating } from './beatmapGenerator';
+import { getDominantBpm } from './timing';
+
+// Rating -> named tier, used when a chart has no explicit difficulty name
+export const getDifficultyNameForRating = (rating: number): string => {
+    if (rating < 4) return BeatmapDifficulty.Easy;
+    if (rating < 8) return BeatmapDifficulty.Normal;
+    if (rating < 12) return BeatmapDifficulty.Hard;
+    if (rating < 16) return BeatmapDifficulty.Expert;
+    return BeatmapDifficulty.Titan;
+};
+
+export const normalizeNotes = (notes: any[]): Note[] => {
+    return (notes || []).map(n => ({ ...n, type: n.type || 'NORMAL' }));
+};
+
+export const createChart = (notes: Note[], laneCount: LaneCount, duration: number, difficultyName?: string): BeatmapChart => {
+    const rating = notes.length > 0 ? calculateDifficultyRating(notes, duration) : 0;
+    return {
+        id: crypto.randomUUID(),
+        difficultyName: difficultyName || getDifficultyNameForRating(rating),
+        laneCount,
+        notes,
+        difficultyRating: rating,
+        createdAt: Date.now()
+    };
+};
+
+/** Charts ordered from easiest to hardest. */
+export const getSortedCharts = (song: SavedSong): BeatmapChart[] => {
+    return [...(song.charts || [])].sort((a, b) => a.difficultyRating - b.difficultyRating);
+};
+
+/** Looks up a chart by id, falling back to the hardest chart of the song. */
+export const getChart = (song: SavedSong, chartId?: string | null): BeatmapChart | undefined => {
+    const charts = song.charts || [];
+    if (chartId) {
+        const found = charts.find(c => c.id === chartId);
+        if (found) return found;
+    }
+    return getSortedCharts(song).pop();
+};
+
+/** The song structure as a chart plays it: the chart's own timing points, if any, replace the song's grid. */
+export const getChartStructure = (song: SavedSong, chart?: BeatmapChart): SongStructure | undefined => {
+    const points = chart?.timingPoints;
+    if (!points || points.length === 0) return song.structure;
+    return {
+        sections: [],
+        ...song.structure,
+        bpm: getDominantBpm(points, song.duration),
+        timingPoints: points,
+        downbeatOffset: points[0].time
+    };
+};
+
+export const getSongMaxRating = (song: SavedSong): number => {
+    return (song.charts || []).reduce((max, c) => Math.max(max, c.difficultyRating), 0);
+};
+
+export const getSongPlayCount = (song: SavedSong): number => {
+    return (song.charts || []).reduce((sum, c) => sum + (c.playCount || 0), 0);
+};
+
+/** Returns a copy of the song with one chart replaced via `update`. */
+export const updateChart = (song: SavedSong, chartId: string, update: (chart: BeatmapChart) => BeatmapChart): SavedSong => ({
+    ...song,
+    charts: song.charts.map(c => c.id === chartId ? update(c) : c)
+});
+
+/**
+ * Converts a pre-chart record (single `notes` array on the song) into the chart-based shape.
+ * Records that already have charts pass through with their notes normalized.
+ */
+export const migrateLegacySong = (raw: any): SavedSong => {
+    if (Array.isArray(raw.charts)) {
+        return { ...raw, charts: raw.charts.map((c: BeatmapChart) => ({ ...c, notes: normalizeNotes(c.notes) })) };
+    }
+
+    const { notes, difficultyRating, laneCount, bestResult, playCount, ...rest } = raw;
+    const chartNotes = normalizeNotes(notes);
+    const maxLane = chartNotes.reduce((max, n) => Math.max(max, n.lane), 0);
+    const chart = createChart(chartNotes, laneCount || (maxLane > 3 ? 6 : 4), raw.duration || 1);
+    if (chartNotes.length === 0 && typeof difficultyRating === 'number') chart.difficultyRating = difficultyRating;
+    chart.bestResult = bestResult;
+    chart.playCount = playCount;
+    chart.createdAt = raw.createdAt || chart.createdAt;
+
+    return { ...rest, charts: [chart] } as SavedSong;
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_HISTORY, EMPTY_DIFF, MAX_HISTORY, EditHistory, pushCommand, undoStep, redoStep, getHeadCommandId } from './editHistory';
+
+const push = (history: EditHistory, id: number, mergeKey?: string) =>
+    pushCommand(history, { id, label: `edit ${id}`, diff: EMPTY_DIFF, mergeKey, timestamp: 0 });
+
+const pushMany = (count: number) => {
+    let history = EMPTY_HISTORY;
+    for (let id = 1; id <= count; id++) history = push(history, id);
+    return history;
+};
+
+const undoAll = (history: EditHistory) => {
+    let step = undoStep(history);
+    while (step) {
+        history = step.history;
+        step = undoStep(history);
+    }
+    return history;
+};
+
+describe('edit history', () => {
+    it('lands on the opened chart when nothing was trimmed', () => {
+        const history = undoAll(pushMany(3));
+        expect(history.baseId).toBe(0);
+        expect(getHeadCommandId(history)).toBe(0);
+        expect(history.future.map(c => c.id)).toEqual([1, 2, 3]);
+    });
+
+    it('records the newest trimmed command as the base', () => {
+        const history = pushMany(MAX_HISTORY + 5);
+        expect(history.past).toHaveLength(MAX_HISTORY);
+        expect(history.past[0].id).toBe(6);
+        expect(history.baseId).toBe(5);
+    });
+
+    it('never reports the opened chart once the bottom was trimmed', () => {
+        const savedAtOpen = 0;
+        const history = undoAll(pushMany(MAX_HISTORY + 1));
+        expect(history.past).toHaveLength(0);
+        expect(getHeadCommandId(history)).toBe(1);
+        expect(getHeadCommandId(history)).not.toBe(savedAtOpen);
+    });
+
+    it('keeps the base through undo, redo and merges', () => {
+        let history = push(pushMany(MAX_HISTORY + 2), MAX_HISTORY + 3, 'typing');
+        history = push(history, MAX_HISTORY + 4, 'typing');
+        expect(history.baseId).toBe(3);
+        history = undoStep(history)!.history;
+        history = redoStep(history)!.history;
+        expect(history.baseId).toBe(3);
+        expect(getHeadCommandId(history)).toBe(MAX_HISTORY + 4);
+    });
+});
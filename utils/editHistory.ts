@@ -0,0 +1,118 @@
+
+import { Note } from '../types';
+
+/**
+ * Undo/redo for the chart editor. Every edit is recorded as a NoteDiff (notes added, removed
+ * and changed, with their full before/after state), which is enough to replay it either way.
+ * Several edits can be folded into one step (a copilot run, typing into a field).
+ */
+
+export interface NoteDiff {
+    added: Note[];
+    removed: Note[];
+    updated: { before: Note; after: Note }[];
+}
+
+export interface EditCommand {
+    id: number;
+    label: string;
+    diff: NoteDiff;
+    mergeKey?: string; // Consecutive commands with the same key collapse into one step
+    timestamp: number;
+}
+
+export interface EditHistory {
+    past: EditCommand[];   // Oldest first; the last entry is what undo reverts
+    future: EditCommand[]; // Next redo first
+    baseId: number;        // Newest command trimmed off the bottom of `past` (0 = none, the bottom is the chart as opened)
+}
+
+export const MAX_HISTORY = 200;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [], baseId: 0 };
+
+/** Id of the newest applied command; undoing everything lands on `baseId`, not on the opened chart. */
+export const getHeadCommandId = (history: EditHistory): number =>
+    history.past[history.past.length - 1]?.id ?? history.baseId;
+
+export const EMPTY_DIFF: NoteDiff = { added: [], removed: [], updated: [] };
+
+export const isEmptyDiff = (diff: NoteDiff) =>
+    diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0;
+
+export const applyDiff = (notes: Note[], diff: NoteDiff): Note[] => {
+    const removed = new Set(diff.removed.map(n => n.id));
+    const updated = new Map(diff.updated.map(u => [u.after.id, u.after]));
+    return notes
+        .filter(n => !removed.has(n.id))
+        .map(n => updated.get(n.id) || n)
+        .concat(diff.added)
+        .sort((a, b) => a.time - b.time);
+};
+
+export const invertDiff = (diff: NoteDiff): NoteDiff => ({
+    added: diff.removed,
+    removed: diff.added,
+    updated: diff.updated.map(({ before, after }) => ({ before: after, after: before }))
+});
+
+/** The single diff equivalent to applying `first` and then `second`. */
+export const composeDiffs = (first: NoteDiff, second: NoteDiff): NoteDiff => {
+    // id -> [state before both, state after both]; null = the note didn't exist
+    const net = new Map<string, [Note | null, Note | null]>();
+    const record = (id: string, before: Note | null, after: Note | null) => {
+        const existing = net.get(id);
+        net.set(id, [existing ? existing[0] : before, after]);
+    };
+    for (const diff of [first, second]) {
+        diff.removed.forEach(n => record(n.id, n, null));
+        diff.added.forEach(n => record(n.id, null, n));
+        diff.updated.forEach(({ before, after }) => record(after.id, before, after));
+    }
+
+    const result: NoteDiff = { added: [], removed: [], updated: [] };
+    net.forEach(([before, after]) => {
+        if (!before && after) result.added.push(after);
+        else if (before && !after) result.removed.push(before);
+        else if (before && after) result.updated.push({ before, after });
+    });
+    return result;
+};
+
+/** Records a command, dropping the redo branch. A matching mergeKey folds it into the previous step. */
+export const pushCommand = (history: EditHistory, command: EditCommand): EditHistory => {
+    const last = history.past[history.past.length - 1];
+    if (last && command.mergeKey && last.mergeKey === command.mergeKey) {
+        const merged: EditCommand = { ...command, diff: composeDiffs(last.diff, command.diff) };
+        return { ...history, past: [...history.past.slice(0, -1), merged], future: [] };
+    }
+    const past = [...history.past, command];
+    const trimmed = past.length - MAX_HISTORY;
+    if (trimmed <= 0) return { ...history, past, future: [] };
+    return { past: past.slice(trimmed), future: [], baseId: past[trimmed - 1].id };
+};
+
+/** Stops the newest step from absorbing further edits (after undo/redo or a save). */
+export const sealHistory = (history: EditHistory): EditHistory => {
+    const last = history.past[history.past.length - 1];
+    if (!last?.mergeKey) return history;
+    return { ...history, past: [...history.past.slice(0, -1), { ...last, mergeKey: undefined }] };
+};
+
+/** Moves the newest step to the redo branch; the caller applies `invertDiff(command.diff)`. */
+export const undoStep = (history: EditHistory): { history: EditHistory; command: EditCommand } | null => {
+    const command = history.past[history.past.length - 1];
+    if (!command) return null;
+    return { history: sealHistory({ ...history, past: history.past.slice(0, -1), future: [command, ...history.future] }), command };
+};
+
+/** Moves the next redo step back onto the stack; the caller applies `command.diff`. */
+export const redoStep = (history: EditHistory): { history: EditHistory; command: EditCommand } | null => {
+    const [command, ...future] = history.future;
+    if (!command) return null;
+    return { history: sealHistory({ ...history, past: [...history.past, command], future }), command };
+};
+
+/** Notes touched by a diff that exist after it was applied; the editor selects them after undo/redo. */
+export const getDiffTargets = (diff: NoteDiff): string[] =>
+    [...diff.added, ...diff.updated.map(u => u.after)].map(n => n.id);
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { simulateRun, JudgementEngine, MAX_SCORE } from './judgementEngine';
+import { GameModifier, Note, NoteType, ReplayInputEvent } from '../types';
+
+const note = (id: string, time: number, lane: number, duration = 0, type: NoteType = 'NORMAL'): Note => ({
+    id, time, lane: lane as Note['lane'], duration, type, hit: false, visible: true, isHolding: false
+});
+
+const down = (lane: number, time: number): ReplayInputEvent => ({ lane, time, type: 'down', source: 'key' });
+const up = (lane: number, time: number): ReplayInputEvent => ({ lane, time, type: 'up', source: 'key' });
+
+// Two notes, so a perfect head is worth half of MAX_SCORE and hold ticks stay visible under the cap
+const holdChart = () => [note('hold', 1, 0, 1), note('tap', 3, 1)];
+const HALF = MAX_SCORE / 2;
+const TICK_SCORE = 50; // Per 1/60 s of holding
+
+describe('simulateRun', () => {
+    it('auto-plays every note as PERFECT and completes holds', () => {
+        const chart = [note('a', 1, 0), note('b', 1.5, 1), note('h', 2, 2, 1), note('c', 2.5, 3, 0, 'CATCH')];
+        const { score, events, failed } = simulateRun(chart, [GameModifier.Auto], [], 4);
+
+        expect(failed).toBe(false);
+        expect(score.perfect).toBe(4);
+        expect(score.good).toBe(0);
+        expect(score.miss).toBe(0);
+        expect(score.maxCombo).toBe(4);
+        expect(score.score).toBe(MAX_SCORE);
+        expect(events.filter(e => e.type === 'PERFECT').map(e => e.noteId).sort()).toEqual(['a', 'b', 'c', 'h']);
+        expect(events).toContainEqual({ type: 'HOLD_COMPLETE', lane: 2, noteId: 'h', time: 3 });
+    });
+
+    it('misses everything without inputs or auto-play', () => {
+        const { score, events } = simulateRun(holdChart(), [], [], 4);
+        expect(score.miss).toBe(2);
+        expect(score.score).toBe(0);
+        expect(events.map(e => e.type)).toEqual(['MISS', 'MISS']);
+    });
+
+    it('scores a hold held to its tail with every tick', () => {
+        const { score, events } = simulateRun(holdChart(), [], [down(0, 1), up(0, 2)], 4);
+        expect(score.perfect).toBe(1);
+        expect(score.miss).toBe(1); // The tap
+        expect(score.score).toBeCloseTo(HALF + 60 * TICK_SCORE, 6);
+        expect(events.find(e => e.noteId === 'hold' && e.type === 'HOLD_COMPLETE')).toBeDefined();
+    });
+
+    it('completes a hold released within the early tolerance, with the ticks held so far', () => {
+        const { score, events } = simulateRun(holdChart(), [], [down(0, 1), up(0, 1.85)], 4);
+        expect(events.some(e => e.type === 'BREAK')).toBe(false);
+        expect(events).toContainEqual({ type: 'HOLD_COMPLETE', lane: 0, noteId: 'hold', time: 1.85 });
+        expect(score.score).toBeCloseTo(HALF + 51 * TICK_SCORE, 6);
+        expect(score.miss).toBe(1);
+    });
+
+    it('breaks the combo when a hold is released early', () => {
+        const { score, events } = simulateRun(holdChart(), [], [down(0, 1), up(0, 1.5)], 4);
+        expect(events).toContainEqual({ type: 'BREAK', lane: 0, noteId: 'hold', time: 1.5 });
+        expect(score.miss).toBe(2); // The break and the tap
+        expect(score.combo).toBe(0);
+        expect(score.maxCombo).toBe(1);
+        expect(score.score).toBeCloseTo(HALF + 30 * TICK_SCORE, 6);
+    });
+
+    it('completes a hold that is never released at its tail', () => {
+        const { score, events } = simulateRun(holdChart(), [], [down(0, 1.02)], 4);
+        expect(events).toContainEqual({ type: 'HOLD_COMPLETE', lane: 0, noteId: 'hold', time: 2 });
+        expect(score.score).toBeCloseTo(HALF + 60 * TICK_SCORE, 6);
+    });
+
+    it('judges early and late presses against the windows', () => {
+        const chart = [note('a', 1, 0), note('b', 2, 1), note('c', 3, 2)];
+        const { score } = simulateRun(chart, [], [down(0, 1.03), up(0, 1.1), down(1, 1.9), up(1, 2), down(2, 3.2), up(2, 3.3)], 4);
+        expect([score.perfect, score.good, score.miss]).toEqual([1, 1, 1]);
+        expect(score.hitHistory.map(h => Math.round(h * 100) / 100)).toEqual([0.03, -0.1]);
+    });
+
+    it('stops at the first miss under Sudden Death', () => {
+        const chart = [note('a', 1, 0), note('b', 2, 1)];
+        // 'a' is missed by the time lane 1 is pressed; the hit on 'b' never gets judged
+        const { failed, score } = simulateRun(chart, [GameModifier.SuddenDeath], [down(1, 1.5), up(1, 1.6), down(1, 2)], 4);
+        expect(failed).toBe(true);
+        expect(score.miss).toBe(1);
+        expect(score.perfect).toBe(0);
+    });
+
+    it('does not depend on how often the clock advances', () => {
+        const inputs = [down(0, 1), up(0, 1.75)];
+        const coarse = simulateRun(holdChart(), [], inputs, 4).score;
+
+        const engine = new JudgementEngine(holdChart(), [], 4);
+        for (let t = 0; t < 1; t += 1 / 144) engine.advance(t);
+        engine.press(0, 1);
+        for (let t = 1; t < 1.75; t += 1 / 144) engine.advance(t);
+        engine.release(0, 1.75);
+        engine.advance(4);
+        expect(engine.snapshot().score).toBeCloseTo(coarse.score, 6);
+    });
+});
@@ -0,0 +1,254 @@
+
+import { Note, ScoreState, GameModifier, ReplayInputEvent } from '../types';
+
+// --- Scoring Constants ---
+export const MAX_SCORE = 1000000;
+const ACC_WEIGHT = 0.9;   // 900,000 points for Accuracy
+const COMBO_WEIGHT = 0.1; // 100,000 points for Combo
+
+// Hit Windows
+const BASE_HIT_WINDOW_PERFECT = 0.050;
+const BASE_HIT_WINDOW_GOOD = 0.120;
+const BASE_HIT_WINDOW_CATCH = 0.120; // Slightly lenient for catch
+const BASE_HOLD_EARLY_TOLERANCE = 0.2; // Grace for releasing a hold before its tail
+
+// Hold ticks used to be awarded once per rendered frame (~60fps).
+// They are now time-based so the result no longer depends on the frame rate.
+const HOLD_TICK_RATE = 60;
+const HOLD_TICK_SCORE = 50;
+
+export type JudgementType = 'PERFECT' | 'GOOD' | 'MISS' | 'BREAK' | 'HOLD_COMPLETE';
+
+export interface JudgementEvent {
+    type: JudgementType;
+    lane: number;
+    noteId: string;
+    time: number;    // Game time the judgement applies to
+    offset?: number; // Input time minus note time (PERFECT / GOOD only)
+}
+
+export interface JudgementConfig {
+    hitWindowMultiplier: number;
+    isAuto: boolean;
+    isSuddenDeath: boolean;
+}
+
+export const getJudgementConfig = (modifiers: GameModifier[]): JudgementConfig => ({
+    hitWindowMultiplier: modifiers.includes(GameModifier.HardRock) ? 0.7 : 1.0,
+    isAuto: modifiers.includes(GameModifier.Auto),
+    isSuddenDeath: modifiers.includes(GameModifier.SuddenDeath)
+});
+
+export const createEmptyScore = (modifiers: GameModifier[] = []): ScoreState => ({
+    score: 0, combo: 0, maxCombo: 0, perfect: 0, good: 0, miss: 0, hitHistory: [], modifiers
+});
+
+/**
+ * DOM-free judgement engine.
+ * Owns a private copy of the chart and the score; callers feed it timestamped
+ * presses/releases and advance its clock. Every outcome is a pure function of
+ * the note list, the modifiers and the input stream, so the same inputs always
+ * produce the same ScoreState regardless of how often `advance` is called.
+ */
+export class JudgementEngine {
+    readonly notes: Note[];
+    readonly score: ScoreState;
+    readonly keyState: boolean[];
+    failed: boolean = false; // Sudden Death triggered
+
+    private config: JudgementConfig;
+    private currentTime: number = -Infinity;
+    private pressTime: number[];
+    private holdTicks = new Map<string, number>();
+
+    constructor(notes: Note[], modifiers: GameModifier[], laneCount: number) {
+        this.notes = notes
+            .map(n => ({ ...n, hit: false, visible: true, isHolding: false, missed: false }))
+            .sort((a, b) => a.time - b.time);
+        this.score = createEmptyScore(modifiers);
+        this.config = getJudgementConfig(modifiers);
+        this.keyState = new Array(laneCount).fill(false);
+        this.pressTime = new Array(laneCount).fill(-Infinity);
+    }
+
+    get isAuto() { return this.config.isAuto; }
+
+    get hasActiveHolds() { return this.notes.some(n => n.isHolding); }
+
+    private get totalNotes() { return this.notes.length || 1; }
+
+    private awardHit(note: Note, type: 'PERFECT' | 'GOOD') {
+        if (type === 'PERFECT') this.score.perfect++;
+        else this.score.good++;
+
+        const accScorePerNote = (MAX_SCORE * ACC_WEIGHT) / this.totalNotes;
+        const comboScorePerNote = (MAX_SCORE * COMBO_WEIGHT) / this.totalNotes;
+        const hitValue = type === 'PERFECT' ? 1.0 : 0.6;
+        this.score.score = Math.min(MAX_SCORE, this.score.score + accScorePerNote * hitValue + comboScorePerNote);
+
+        this.score.combo++;
+        if (this.score.combo > this.score.maxCombo) this.score.maxCombo = this.score.combo;
+
+        note.hit = true;
+        if (note.duration > 0 && note.type !== 'CATCH') note.isHolding = true;
+        else note.visible = false;
+    }
+
+    private registerMiss(note: Note, time: number, out: JudgementEvent[]) {
+        note.missed = true;
+        note.hit = true;
+        this.score.miss++;
+        this.score.combo = 0;
+        if (this.config.isSuddenDeath) this.failed = true;
+        out.push({ type: 'MISS', lane: note.lane, noteId: note.id, time });
+    }
+
+    private tickHold(note: Note, time: number) {
+        const end = note.time + note.duration;
+        const due = Math.floor(Math.max(0, Math.min(time, end) - note.time) * HOLD_TICK_RATE);
+        const awarded = this.holdTicks.get(note.id) || 0;
+        if (due > awarded) {
+            this.score.score = Math.min(MAX_SCORE, this.score.score + (due - awarded) * HOLD_TICK_SCORE);
+            this.holdTicks.set(note.id, due);
+        }
+    }
+
+    /** Moves the engine clock forward, resolving auto-play, catches, holds and misses up to `time`. */
+    advance(time: number): JudgementEvent[] {
+        const out: JudgementEvent[] = [];
+        if (time <= this.currentTime) return out;
+        this.currentTime = time;
+
+        const windowGood = BASE_HIT_WINDOW_GOOD * this.config.hitWindowMultiplier;
+        const windowCatch = BASE_HIT_WINDOW_CATCH * this.config.hitWindowMultiplier;
+
+        for (const note of this.notes) {
+            if (note.time - windowCatch > time) break; // Sorted: nothing later can be judged yet
+
+            if (!note.hit && !note.missed) {
+                if (this.config.isAuto && time >= note.time) {
+                    this.awardHit(note, 'PERFECT');
+                    out.push({ type: 'PERFECT', lane: note.lane, noteId: note.id, time: note.time, offset: 0 });
+                }
+                // Catch "hold-through": a lane held at any point inside the window collects the note
+                else if (note.type === 'CATCH' && this.keyState[note.lane] && this.pressTime[note.lane] <= note.time + windowCatch) {
+                    this.awardHit(note, 'PERFECT');
+                    out.push({ type: 'PERFECT', lane: note.lane, noteId: note.id, time: Math.max(note.time - windowCatch, this.pressTime[note.lane]) });
+                }
+                else if (time > note.time + windowGood) {
+                    this.registerMiss(note, note.time + windowGood, out);
+                }
+            }
+
+            // Hold Logic: Ticks & Completion
+            if (note.isHolding) {
+                this.tickHold(note, time);
+                if (time >= note.time + note.duration) {
+                    note.visible = false;
+                    note.isHolding = false;
+                    out.push({ type: 'HOLD_COMPLETE', lane: note.lane, noteId: note.id, time: note.time + note.duration });
+                }
+            }
+        }
+        return out;
+    }
+
+    press(lane: number, time: number): JudgementEvent[] {
+        const out = this.advance(time);
+        if (lane < 0 || lane >= this.keyState.length) return out;
+        this.keyState[lane] = true;
+        this.pressTime[lane] = time;
+
+        const windowGood = BASE_HIT_WINDOW_GOOD * this.config.hitWindowMultiplier;
+        const windowCatch = BASE_HIT_WINDOW_CATCH * this.config.hitWindowMultiplier;
+
+        // Prioritize non-Catch notes (heads of normal/holds)
+        const hitNote = this.notes.find(n =>
+            !n.hit && !n.missed && n.lane === lane && n.type === 'NORMAL' &&
+            Math.abs(time - n.time) < windowGood
+        );
+
+        if (hitNote) {
+            const diff = time - hitNote.time;
+            const windowPerfect = BASE_HIT_WINDOW_PERFECT * this.config.hitWindowMultiplier;
+            const type = Math.abs(diff) < windowPerfect ? 'PERFECT' : 'GOOD';
+            this.awardHit(hitNote, type);
+            this.score.hitHistory.push(diff);
+            out.push({ type, lane, noteId: hitNote.id, time, offset: diff });
+        }
+
+        // A fresh press also collects any catch note currently inside its window
+        for (const note of this.notes) {
+            if (note.time - windowCatch > time) break;
+            if (note.type === 'CATCH' && !note.hit && !note.missed && note.lane === lane && Math.abs(time - note.time) <= windowCatch) {
+                this.awardHit(note, 'PERFECT');
+                out.push({ type: 'PERFECT', lane, noteId: note.id, time });
+            }
+        }
+        return out;
+    }
+
+    release(lane: number, time: number): JudgementEvent[] {
+        const out = this.advance(time);
+        if (lane < 0 || lane >= this.keyState.length) return out;
+        this.keyState[lane] = false;
+
+        const holdingNote = this.notes.find(n => n.lane === lane && n.isHolding);
+        if (!holdingNote) return out;
+
+        const endTime = holdingNote.time + holdingNote.duration;
+        const earlyTolerance = BASE_HOLD_EARLY_TOLERANCE * this.config.hitWindowMultiplier;
+
+        holdingNote.isHolding = false;
+        holdingNote.visible = false;
+        this.tickHold(holdingNote, time);
+
+        if (time < endTime - earlyTolerance) {
+            // Released too early -> break combo. Not flagged 'missed' so the sweep won't count it twice.
+            this.score.combo = 0;
+            this.score.miss++;
+            out.push({ type: 'BREAK', lane, noteId: holdingNote.id, time });
+        } else {
+            out.push({ type: 'HOLD_COMPLETE', lane, noteId: holdingNote.id, time });
+        }
+        return out;
+    }
+
+    snapshot(): ScoreState {
+        return { ...this.score, hitHistory: [...this.score.hitHistory] };
+    }
+}
+
+export interface SimulationResult {
+    score: ScoreState;
+    events: JudgementEvent[];
+    failed: boolean;
+}
+
+/**
+ * Runs a whole chart headlessly against a recorded input stream.
+ * With `GameModifier.Auto` and no inputs this is an auto-play simulation.
+ */
+export const simulateRun = (
+    notes: Note[],
+    modifiers: GameModifier[],
+    inputs: ReplayInputEvent[],
+    laneCount: number,
+    endTime?: number
+): SimulationResult => {
+    const engine = new JudgementEngine(notes, modifiers, laneCount);
+    const events: JudgementEvent[] = [];
+    const sorted = [...inputs].sort((a, b) => a.time - b.time);
+
+    for (const input of sorted) {
+        if (engine.failed) break;
+        events.push(...(input.type === 'down' ? engine.press(input.lane, input.time) : engine.release(input.lane, input.time)));
+    }
+
+    if (!engine.failed) {
+        const lastNoteEnd = engine.notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+        events.push(...engine.advance(endTime ?? lastNoteEnd + 1));
+    }
+
+    return { score: engine.snapshot(), events, failed: engine.failed };
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseOsuFile, buildOsuFile } from './osuMania';
+import { BeatmapChart, DEFAULT_THEME, LaneCount, Note, SavedSong } from '../types';
+
+const note = (time: number, lane: number, duration = 0): Note => ({
+    id: `${time}-${lane}`, time, lane: lane as Note['lane'], duration, type: 'NORMAL', hit: false, visible: true, isHolding: false
+});
+
+const osuFile = ({ mode = '3', keys = '4', timing = ['0,500,4,1,0,100,1,0'], objects = [] as string[] } = {}) => [
+    'osu file format v14',
+    '[General]', 'AudioFilename: audio.mp3', `Mode: ${mode}`,
+    '[Metadata]', 'Title:Song', 'Artist:Someone', 'Version:Hard',
+    '[Difficulty]', `CircleSize:${keys}`,
+    '[TimingPoints]', ...timing,
+    '[HitObjects]', ...objects
+].join('\r\n');
+
+describe('parseOsuFile', () => {
+    it('rejects modes other than mania', () => {
+        expect(() => parseOsuFile(osuFile({ mode: '0' }))).toThrow('osu!standard');
+        expect(() => parseOsuFile(osuFile({ mode: '2' }))).toThrow('osu!catch');
+    });
+
+    it('rejects key counts it cannot play', () => {
+        expect(() => parseOsuFile(osuFile({ keys: '7' }))).toThrow('7K');
+        expect(() => parseOsuFile(osuFile({ keys: 'x' }))).toThrow('?K');
+    });
+
+    it('reads holds from the type flag and the end time field', () => {
+        const { notes } = parseOsuFile(osuFile({ objects: ['64,192,1000,128,0,1750:0:0:0:0:', '192,192,2000,1,0,0:0:0:0:'] }));
+        expect(notes.map(n => [n.time, n.lane, n.duration])).toEqual([[1, 0, 0.75], [2, 1, 0]]);
+    });
+
+    it('ignores a hold end without the hold flag', () => {
+        const { notes } = parseOsuFile(osuFile({ objects: ['64,192,1000,1,0,1750:0:0:0:0:'] }));
+        expect(notes[0].duration).toBe(0);
+    });
+
+    it('skips inherited timing points', () => {
+        const { timingPoints, bpm } = parseOsuFile(osuFile({
+            timing: ['0,500,4,1,0,100,1,0', '1000,-50,4,1,0,100,0,0', '4000,400,3,1,0,100,1,0']
+        }));
+        expect(timingPoints).toEqual([{ time: 0, bpm: 120, meter: 4 }, { time: 4, bpm: 150, meter: 3 }]);
+        expect(bpm).toBe(120);
+    });
+
+    it.each([
+        [4, [0, 127, 128, 383, 384, 511], [0, 0, 1, 2, 3, 3]],
+        [6, [0, 85, 86, 256, 426, 427, 511], [0, 0, 1, 3, 4, 5, 5]]
+    ])('maps x to lanes at %iK', (keys, xs, lanes) => {
+        const objects = xs.map((x, i) => `${x},192,${(i + 1) * 1000},1,0,0:0:0:0:`);
+        const { notes, laneCount } = parseOsuFile(osuFile({ keys: String(keys), objects }));
+        expect(laneCount).toBe(keys);
+        expect(notes.map(n => n.lane)).toEqual(lanes);
+    });
+});
+
+describe('buildOsuFile', () => {
+    const songWith = (notes: Note[], laneCount: LaneCount): { song: SavedSong; chart: BeatmapChart } => {
+        const chart: BeatmapChart = {
+            id: 'c', difficultyName: 'HARD', laneCount, notes, difficultyRating: 8, createdAt: 0,
+            timingPoints: [{ time: 0, bpm: 120, meter: 4 }, { time: 8, bpm: 180, meter: 3 }]
+        };
+        const song: SavedSong = {
+            id: 's', title: 'Title', artist: 'Artist', createdAt: 0, duration: 60, audioData: new ArrayBuffer(0),
+            charts: [chart], structure: { bpm: 120, sections: [] }, theme: DEFAULT_THEME
+        };
+        return { song, chart };
+    };
+
+    it.each([4, 6] as LaneCount[])('round-trips a %iK chart with holds and a tempo change', (laneCount) => {
+        const notes = [note(0.5, 0), note(1, laneCount - 1, 1.5), note(8, 2), note(9.25, 1, 0.5)];
+        const { song, chart } = songWith(notes, laneCount);
+        const parsed = parseOsuFile(buildOsuFile(song, chart, 'audio.mp3'));
+
+        expect(parsed.title).toBe('Title');
+        expect(parsed.version).toBe('HARD');
+        expect(parsed.audioFilename).toBe('audio.mp3');
+        expect(parsed.laneCount).toBe(laneCount);
+        expect(parsed.timingPoints).toEqual(chart.timingPoints);
+        expect(parsed.notes.map(n => [n.time, n.lane, n.duration])).toEqual(notes.map(n => [n.time, n.lane, n.duration]));
+    });
+
+    it('writes catch notes with a length as plain notes', () => {
+        const { song, chart } = songWith([{ ...note(1, 0, 0.5), type: 'CATCH' }], 4);
+        expect(parseOsuFile(buildOsuFile(song, chart, 'audio.mp3')).notes[0].duration).toBe(0);
+    });
+});
@@ -0,0 +1,223 @@
+
+import { BeatmapChart, LaneCount, Note, SavedSong, TimingPoint } from '../types';
+import { getDominantBpm, getTimingPoints } from './timing';
+import { getChartStructure } from './chartUtils';
+
+/**
+ * osu!mania (.osu / .osz) interop.
+ * Only the subset of the format that maps onto NeonFlow charts is read or written:
+ * metadata, the key count, uninherited timing points (BPM, meter) and hit objects.
+ */
+
+const OSU_PLAYFIELD_WIDTH = 512;
+const OSU_MANIA_MODE = '3';
+const SUPPORTED_KEYS: LaneCount[] = [4, 6];
+const HOLD_TYPE_FLAG = 128;
+
+const MODE_NAMES: Record<string, string> = { '0': 'osu!standard', '1': 'osu!taiko', '2': 'osu!catch', '3': 'osu!mania' };
+
+export interface OsuBeatmap {
+    title: string;
+    artist: string;
+    version: string; // Difficulty name
+    audioFilename: string;
+    backgroundFilename?: string;
+    laneCount: LaneCount;
+    bpm: number; // Dominant BPM
+    timingPoints: TimingPoint[];
+    notes: Note[];
+}
+
+const splitSections = (text: string): Map<string, string[]> => {
+    const sections = new Map<string, string[]>();
+    let current = '';
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('//')) continue;
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            current = header[1];
+            sections.set(current, []);
+        } else if (current) {
+            sections.get(current)!.push(line);
+        }
+    }
+    return sections;
+};
+
+const parseKeyValues = (lines: string[] = []): Record<string, string> => {
+    const out: Record<string, string> = {};
+    for (const line of lines) {
+        const idx = line.indexOf(':');
+        if (idx > 0) out[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+    }
+    return out;
+};
+
+/** Parses a single .osu difficulty. Throws a user-facing error for non-mania or unsupported key counts. */
+export const parseOsuFile = (text: string): OsuBeatmap => {
+    if (!/^\uFEFF?\s*osu file format v\d+/.test(text)) {
+        throw new Error("无效的 .osu 文件 (缺少文件头)");
+    }
+
+    const sections = splitSections(text);
+    const general = parseKeyValues(sections.get('General'));
+    const metadata = parseKeyValues(sections.get('Metadata'));
+    const difficulty = parseKeyValues(sections.get('Difficulty'));
+
+    const mode = general['Mode'] || '0';
+    if (mode !== OSU_MANIA_MODE) {
+        throw new Error(`仅支持 osu!mania 谱面，该谱面为 ${MODE_NAMES[mode] || `Mode ${mode}`} 模式`);
+    }
+
+    const keys = Math.round(Number(difficulty['CircleSize']));
+    if (!SUPPORTED_KEYS.includes(keys as LaneCount)) {
+        throw new Error(`不支持的键数：${Number.isFinite(keys) ? keys : '?'}K（目前仅支持 4K 和 6K 谱面）`);
+    }
+    const laneCount = keys as LaneCount;
+
+    const timingPoints: TimingPoint[] = [];
+    for (const line of sections.get('TimingPoints') || []) {
+        const parts = line.split(',');
+        const beatLength = Number(parts[1]); // Milliseconds per beat
+        // Field 7 is "uninherited"; v5-era files omit it and only contain uninherited points
+        const uninherited = parts.length < 7 || parts[6].trim() === '1';
+        if (uninherited && beatLength > 0) {
+            const meter = Math.round(Number(parts[2]));
+            timingPoints.push({ time: Number(parts[0]) / 1000, bpm: 60000 / beatLength, meter: meter > 0 ? meter : 4 });
+        }
+    }
+    timingPoints.sort((a, b) => a.time - b.time);
+
+    const notes: Note[] = [];
+    const seen = new Set<string>();
+    for (const line of sections.get('HitObjects') || []) {
+        const parts = line.split(',');
+        if (parts.length < 5) continue;
+        const x = Number(parts[0]);
+        const timeMs = Number(parts[2]);
+        const type = Number(parts[3]);
+        if (!Number.isFinite(x) || !Number.isFinite(timeMs)) continue;
+
+        const lane = Math.min(laneCount - 1, Math.max(0, Math.floor((x * laneCount) / OSU_PLAYFIELD_WIDTH)));
+        const time = timeMs / 1000;
+        let duration = 0;
+        if (type & HOLD_TYPE_FLAG) {
+            const endMs = Number((parts[5] || '').split(':')[0]);
+            if (endMs > timeMs) duration = (endMs - timeMs) / 1000;
+        }
+
+        const id = `note-${time.toFixed(3)}-${lane}`;
+        if (seen.has(id)) continue; // Stacked duplicates are unplayable
+        seen.add(id);
+        notes.push({ time, lane, id, hit: false, visible: true, duration, isHolding: false, type: 'NORMAL' });
+    }
+    notes.sort((a, b) => a.time - b.time);
+
+    let backgroundFilename: string | undefined;
+    for (const line of sections.get('Events') || []) {
+        const bg = line.match(/^0\s*,\s*0\s*,\s*"?([^",]+)"?/);
+        if (bg) { backgroundFilename = bg[1]; break; }
+    }
+
+    const lastTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+
+    return {
+        title: metadata['TitleUnicode'] || metadata['Title'] || 'Unknown Title',
+        artist: metadata['ArtistUnicode'] || metadata['Artist'] || 'Unknown Artist',
+        version: metadata['Version'] || '',
+        audioFilename: general['AudioFilename'] || '',
+        backgroundFilename,
+        laneCount,
+        bpm: timingPoints.length > 0 ? getDominantBpm(timingPoints, lastTime) : 120,
+        timingPoints,
+        notes
+    };
+};
+
+/** Best-effort container sniffing so exported .osz files carry a sensible audio extension. */
+export const guessAudioExtension = (data: ArrayBuffer): string => {
+    const b = new Uint8Array(data.slice(0, 12));
+    const ascii = (start: number, len: number) => String.fromCharCode(...Array.from(b.slice(start, start + len)));
+    if (ascii(0, 4) === 'OggS') return 'ogg';
+    if (ascii(0, 4) === 'fLaC') return 'flac';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') return 'wav';
+    if (ascii(4, 4) === 'ftyp') return 'm4a';
+    return 'mp3';
+};
+
+const sanitizeMetadata = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+/** Serializes one chart of a song as an osu!mania v14 difficulty. */
+export const buildOsuFile = (song: SavedSong, chart: BeatmapChart, audioFilename: string): string => {
+    const keys = chart.laneCount;
+    const timingPoints = getTimingPoints(getChartStructure(song, chart)).map(p => `${Math.round(p.time * 1000)},${60000 / p.bpm},${p.meter},1,0,100,1,0`);
+    const overallDifficulty = Math.min(10, Math.max(0, Math.round(chart.difficultyRating / 2)));
+    const title = sanitizeMetadata(song.title);
+    const artist = sanitizeMetadata(song.artist);
+
+    const hitObjects = [...chart.notes]
+        .sort((a, b) => a.time - b.time)
+        .map(n => {
+            const x = Math.floor(((n.lane + 0.5) * OSU_PLAYFIELD_WIDTH) / keys);
+            const time = Math.round(n.time * 1000);
+            // Catch notes have no mania equivalent and are exported as plain notes
+            if (n.duration > 0 && n.type !== 'CATCH') {
+                return `${x},192,${time},${HOLD_TYPE_FLAG},0,${Math.round((n.time + n.duration) * 1000)}:0:0:0:0:`;
+            }
+            return `${x},192,${time},1,0,0:0:0:0:`;
+        });
+
+    return [
+        'osu file format v14',
+        '',
+        '[General]',
+        `AudioFilename: ${audioFilename}`,
+        'AudioLeadIn: 0',
+        'PreviewTime: -1',
+        'Countdown: 0',
+        'SampleSet: Normal',
+        'StackLeniency: 0.7',
+        `Mode: ${OSU_MANIA_MODE}`,
+        'LetterboxInBreaks: 0',
+        'SpecialStyle: 0',
+        'WidescreenStoryboard: 0',
+        '',
+        '[Editor]',
+        'DistanceSpacing: 1',
+        'BeatDivisor: 4',
+        'GridSize: 4',
+        'TimelineZoom: 1',
+        '',
+        '[Metadata]',
+        `Title:${title}`,
+        `TitleUnicode:${title}`,
+        `Artist:${artist}`,
+        `ArtistUnicode:${artist}`,
+        'Creator:NeonFlow',
+        `Version:${sanitizeMetadata(chart.difficultyName)}`,
+        'Source:',
+        'Tags:neonflow',
+        'BeatmapID:0',
+        'BeatmapSetID:-1',
+        '',
+        '[Difficulty]',
+        'HPDrainRate:8',
+        `CircleSize:${keys}`,
+        `OverallDifficulty:${overallDifficulty}`,
+        'ApproachRate:5',
+        'SliderMultiplier:1.4',
+        'SliderTickRate:1',
+        '',
+        '[Events]',
+        '//Background and Video events',
+        '//Break Periods',
+        '',
+        '[TimingPoints]',
+        ...timingPoints,
+        '',
+        '[HitObjects]',
+        ...hitObjects,
+        ''
+    ].join('\r\n');
+};
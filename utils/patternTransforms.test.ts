@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransform, moveNotes, PatternTransform, TransformContext } from './patternTransforms';
+import { createRng } from './random';
+import { Note, NoteType } from '../types';
+
+const note = (id: string, time: number, lane: number, duration = 0, type: NoteType = 'NORMAL'): Note => ({
+    id, time, lane: lane as Note['lane'], duration, type, hit: false, visible: true, isHolding: false
+});
+
+const context = (overrides: Partial<TransformContext> = {}): TransformContext => ({
+    laneCount: 4,
+    allNotes: [],
+    holdLength: () => 0.5, // One beat at 120 BPM
+    rng: createRng(1),
+    ...overrides
+});
+
+const apply = (notes: Note[], transform: PatternTransform, overrides?: Partial<TransformContext>) =>
+    applyTransform(notes, transform, context(overrides));
+
+const lanes = (notes: Note[]) => notes.map(n => n.lane);
+
+describe('applyTransform', () => {
+    const stairs = [note('a', 1, 0), note('b', 1.5, 1), note('c', 2, 2), note('d', 2.5, 3)];
+
+    it('mirrors lanes', () => {
+        expect(lanes(apply(stairs, { kind: 'MIRROR' }))).toEqual([3, 2, 1, 0]);
+        expect(lanes(apply(stairs, { kind: 'MIRROR' }, { laneCount: 6 }))).toEqual([5, 4, 3, 2]);
+    });
+
+    it('rotates lanes that are shifted past either edge', () => {
+        expect(lanes(apply(stairs, { kind: 'SHIFT', offset: 1 }))).toEqual([1, 2, 3, 0]);
+        expect(lanes(apply(stairs, { kind: 'SHIFT', offset: -1 }))).toEqual([3, 0, 1, 2]);
+        expect(lanes(apply(stairs, { kind: 'SHIFT', offset: 6 }))).toEqual([2, 3, 0, 1]);
+    });
+
+    it('shuffles by a permutation, so chords stay on distinct lanes', () => {
+        const chord = [note('a', 1, 0), note('b', 1, 1), note('c', 1, 2), note('d', 1, 3)];
+        for (let seed = 1; seed <= 20; seed++) {
+            const shuffled = lanes(apply(chord, { kind: 'SHUFFLE' }, { rng: createRng(seed) }));
+            expect([...shuffled].sort()).toEqual([0, 1, 2, 3]);
+        }
+        // Same seed, same result
+        expect(lanes(apply(chord, { kind: 'SHUFFLE' }, { rng: createRng(7) })))
+            .toEqual(lanes(apply(chord, { kind: 'SHUFFLE' }, { rng: createRng(7) })));
+    });
+
+    it('never shuffles into the identity', () => {
+        // Fisher-Yates with a generator stuck near 1 swaps every lane with itself
+        const shuffled = apply(stairs, { kind: 'SHUFFLE' }, { rng: () => 0.999 });
+        expect(lanes(shuffled)).not.toEqual(lanes(stairs));
+        expect([...lanes(shuffled)].sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it('stretches from the first note and keeps holds playable', () => {
+        const notes = [note('a', 1, 0), note('b', 2, 1, 0.08), note('c', 3, 2)];
+        const stretched = apply(notes, { kind: 'STRETCH', ratio: 2 });
+        expect(stretched.map(n => n.time)).toEqual([1, 3, 5]);
+        expect(stretched[1].duration).toBeCloseTo(0.16, 6);
+
+        const squeezed = apply(notes, { kind: 'STRETCH', ratio: 0.5 });
+        expect(squeezed.map(n => n.time)).toEqual([1, 1.5, 2]);
+        expect(squeezed[1].duration).toBe(0.05);
+        expect(apply(notes, { kind: 'STRETCH', ratio: 0 })).toBe(notes);
+    });
+
+    it('reverses time inside the span, ending holds where they started', () => {
+        const notes = [note('a', 1, 0), note('h', 1.5, 1, 1), note('c', 3, 2)];
+        const reversed = apply(notes, { kind: 'REVERSE' });
+        expect(reversed.map(n => [n.id, n.time, n.duration])).toEqual([['a', 3, 0], ['h', 1.5, 1], ['c', 1, 0]]);
+        // The span is unchanged
+        expect(Math.min(...reversed.map(n => n.time))).toBe(1);
+        expect(Math.max(...reversed.map(n => n.time + n.duration))).toBe(3);
+    });
+
+    it('turns taps into holds that stop short of the next note in the lane', () => {
+        const notes = [note('a', 1, 0), note('b', 1, 1), note('c', 1, 2), note('k', 1, 3, 0, 'CATCH')];
+        const allNotes = [...notes, note('x', 1.4, 1), note('y', 1.1, 2), note('z', 1.2, 0, 0, 'CATCH'), note('w', 1.5, 3)];
+        const held = apply(notes, { kind: 'TO_HOLDS' }, { allNotes });
+        // Lane 0: 0.2 s gap minus a quarter of the default length
+        expect(held[0].duration).toBeCloseTo(0.075, 6);
+        // Lane 1: the full default length would overrun, so it ends 0.125 s before the next note
+        expect(held[1].duration).toBeCloseTo(0.275, 6);
+        // Lane 2: too little room for a playable hold
+        expect(held[2].duration).toBe(0);
+        // Catch notes stay as they are
+        expect(held[3].duration).toBe(0);
+
+        expect(apply([note('a', 1, 0)], { kind: 'TO_HOLDS' }, { allNotes: [note('a', 1, 0)] })[0].duration).toBe(0.5);
+    });
+
+    it('turns holds into taps', () => {
+        const notes = [note('a', 1, 0, 0.5), note('b', 2, 1)];
+        expect(apply(notes, { kind: 'TO_TAPS' }).map(n => n.duration)).toEqual([0, 0]);
+    });
+
+    it('keeps ids and leaves an empty selection alone', () => {
+        expect(apply(stairs, { kind: 'MIRROR' }).map(n => n.id)).toEqual(['a', 'b', 'c', 'd']);
+        const empty: Note[] = [];
+        expect(apply(empty, { kind: 'REVERSE' })).toBe(empty);
+    });
+});
+
+describe('moveNotes', () => {
+    it('moves as a block, clamped to the playfield and time zero', () => {
+        const notes = [note('a', 0.5, 1), note('b', 1, 2)];
+        expect(moveNotes(notes, 1, 1, 4).map(n => [n.time, n.lane])).toEqual([[1.5, 2], [2, 3]]);
+        expect(moveNotes(notes, -2, 5, 4).map(n => [n.time, n.lane])).toEqual([[0, 2], [0.5, 3]]);
+        expect(lanes(moveNotes(notes, 0, -3, 4))).toEqual([0, 1]);
+        expect(lanes(moveNotes(notes, 0, 5, 6))).toEqual([4, 5]);
+    });
+});
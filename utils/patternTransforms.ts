@@ -0,0 +1,139 @@
+
+import { Note, NoteLane } from '../types';
+import { Rng, shuffle } from './random';
+
+/**
+ * Pattern operations for the editor: clipboard snapshots and transforms of a selection.
+ * Transforms are pure: they take the selected notes and return them changed, keeping ids,
+ * so the editor can record the result as updates and undo it.
+ */
+
+const MIN_HOLD = 0.05; // Shorter holds are indistinguishable from taps in play
+
+/** A copied note, positioned relative to the earliest note of the copy. */
+export interface ClipboardNote {
+    offset: number; // Seconds after the first copied note
+    lane: NoteLane;
+    duration: number;
+    type: Note['type'];
+}
+
+export const toClipboard = (notes: Note[]): ClipboardNote[] => {
+    if (notes.length === 0) return [];
+    const start = Math.min(...notes.map(n => n.time));
+    return [...notes]
+        .sort((a, b) => a.time - b.time)
+        .map(n => ({ offset: n.time - start, lane: n.lane, duration: n.duration, type: n.type }));
+};
+
+export const fromClipboard = (clipboard: ClipboardNote[], anchor: number): Note[] =>
+    clipboard.map(c => ({
+        id: crypto.randomUUID(),
+        time: anchor + c.offset,
+        lane: c.lane,
+        type: c.type,
+        duration: c.duration,
+        hit: false,
+        visible: true,
+        isHolding: false
+    }));
+
+export type PatternTransform =
+    | { kind: 'MIRROR' }
+    | { kind: 'SHIFT'; offset: number }
+    | { kind: 'SHUFFLE' }
+    | { kind: 'STRETCH'; ratio: number }
+    | { kind: 'REVERSE' }
+    | { kind: 'TO_HOLDS' }
+    | { kind: 'TO_TAPS' };
+
+export const TRANSFORM_LABELS: Record<PatternTransform['kind'], string> = {
+    MIRROR: '镜像',
+    SHIFT: '平移轨道',
+    SHUFFLE: '随机轨道',
+    STRETCH: '时间缩放',
+    REVERSE: '倒放',
+    TO_HOLDS: '单点转长条',
+    TO_TAPS: '长条转单点'
+};
+
+export interface TransformContext {
+    laneCount: number;
+    allNotes: Note[];                   // Whole chart; holds stop before the next note in their lane
+    holdLength: (time: number) => number; // Default hold length at a time (one beat)
+    rng: Rng;
+}
+
+const mirror = (notes: Note[], laneCount: number): Note[] =>
+    notes.map(n => ({ ...n, lane: (laneCount - 1 - n.lane) as NoteLane }));
+
+// Rotates: notes pushed off one edge come back on the other, so a full-width pattern still moves
+const shiftLanes = (notes: Note[], offset: number, laneCount: number): Note[] =>
+    notes.map(n => ({ ...n, lane: ((((n.lane + offset) % laneCount) + laneCount) % laneCount) as NoteLane }));
+
+// A permutation of the lanes rather than per-note randomness, so chords never collapse onto one lane
+const shuffleLanes = (notes: Note[], laneCount: number, rng: Rng): Note[] => {
+    const lanes = Array.from({ length: laneCount }, (_, i) => i);
+    let permutation = shuffle(lanes, rng);
+    // An identity permutation would look like the button did nothing
+    if (laneCount > 1 && permutation.every((lane, i) => lane === i)) permutation = [...permutation.slice(1), permutation[0]];
+    return notes.map(n => ({ ...n, lane: permutation[n.lane] as NoteLane }));
+};
+
+// Anchored at the first note, so the selection keeps its start and grows or shrinks after it
+const stretch = (notes: Note[], ratio: number): Note[] => {
+    const anchor = Math.min(...notes.map(n => n.time));
+    return notes.map(n => ({
+        ...n,
+        time: anchor + (n.time - anchor) * ratio,
+        duration: n.duration > 0 ? Math.max(MIN_HOLD, n.duration * ratio) : 0
+    }));
+};
+
+// Mirrors time inside the selection's span; holds keep their length and end where they used to start
+const reverse = (notes: Note[]): Note[] => {
+    const start = Math.min(...notes.map(n => n.time));
+    const end = Math.max(...notes.map(n => n.time + n.duration));
+    return notes.map(n => ({ ...n, time: start + end - (n.time + n.duration) }));
+};
+
+/** Moves notes as a block, clamped so no note leaves the playfield or starts before 0. */
+export const moveNotes = (notes: Note[], timeDelta: number, laneDelta: number, laneCount: number): Note[] => {
+    if (notes.length === 0) return notes;
+    const lanes = notes.map(n => n.lane);
+    const dLane = Math.max(-Math.min(...lanes), Math.min(laneCount - 1 - Math.max(...lanes), laneDelta));
+    const dt = Math.max(-Math.min(...notes.map(n => n.time)), timeDelta);
+    return notes.map(n => ({ ...n, time: n.time + dt, lane: (n.lane + dLane) as NoteLane }));
+};
+
+const toHolds = (notes: Note[], { allNotes, holdLength }: TransformContext): Note[] => {
+    return notes.map(n => {
+        if (n.duration > 0 || n.type !== 'NORMAL') return n; // CATCH notes can't be held
+        const next = allNotes
+            .filter(o => o.lane === n.lane && o.time > n.time + 0.001)
+            .reduce((min, o) => Math.min(min, o.time), Infinity);
+        const length = holdLength(n.time);
+        // Leave a quarter of the default length free before the next note in the lane
+        const duration = Math.min(length, next - n.time - length / 4);
+        return duration >= MIN_HOLD ? { ...n, duration } : n;
+    });
+};
+
+const toTaps = (notes: Note[]): Note[] => notes.map(n => (n.duration > 0 ? { ...n, duration: 0 } : n));
+
+export const applyTransform = (notes: Note[], transform: PatternTransform, context: TransformContext): Note[] => {
+    if (notes.length === 0) return notes;
+    switch (transform.kind) {
+        case 'MIRROR': return mirror(notes, context.laneCount);
+        case 'SHIFT': return shiftLanes(notes, transform.offset, context.laneCount);
+        case 'SHUFFLE': return shuffleLanes(notes, context.laneCount, context.rng);
+        case 'STRETCH': return transform.ratio > 0 ? stretch(notes, transform.ratio) : notes;
+        case 'REVERSE': return reverse(notes);
+        case 'TO_HOLDS': return toHolds(notes, context);
+        case 'TO_TAPS': return toTaps(notes);
+    }
+};
+
+/** True when two notes would sit on top of each other (same lane, same moment). */
+export const isSamePosition = (a: Pick<Note, 'time' | 'lane'>, b: Pick<Note, 'time' | 'lane'>) =>
+    a.lane === b.lane && Math.abs(a.time - b.time) < 0.001;
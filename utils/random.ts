@@ -0,0 +1,48 @@
+
+/**
+ * Seeded randomness for chart generation. Everything that shapes a generated chart draws
+ * from one of these generators, so a seed reproduces the chart exactly.
+ */
+
+export type Rng = () => number;
+
+/** A fresh 32-bit seed. */
+export const createSeed = (): number => {
+    const buf = new Uint32Array(1);
+    crypto.getRandomValues(buf);
+    return buf[0];
+};
+
+/** mulberry32: small, fast and good enough for level design. Returns values in [0, 1). */
+export const createRng = (seed: number): Rng => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Fisher–Yates shuffle in place. */
+export const shuffle = <T>(items: T[], rng: Rng): T[] => {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+};
+
+/** Parses a user-entered seed; blank or invalid input means "pick one". */
+export const parseSeed = (input: string): number | null => {
+    const trimmed = input.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const value = Number(trimmed);
+    return value <= 0xFFFFFFFF ? value : null;
+};
+
+/** Independent child seed, so charts generated together from one seed still differ from each other. */
+export const deriveSeed = (seed: number, index: number): number => {
+    return (Math.imul((seed ^ (index + 1)) >>> 0, 0x9E3779B1) + index) >>> 0;
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { createReplay, isReplayPlayable } from './replay';
+import { Note, ReplayInputEvent } from '../types';
+
+const note = (time: number, lane: number, duration = 0): Note => ({
+    id: `${time}-${lane}`, time, lane: lane as Note['lane'], duration, type: 'NORMAL', hit: false, visible: true, isHolding: false
+});
+
+const inputs: ReplayInputEvent[] = [{ lane: 0, time: 1, type: 'down', source: 'key' }, { lane: 0, time: 1.1, type: 'up', source: 'key' }];
+const chart = { laneCount: 4 as const, notes: [note(1, 0), note(2, 1, 0.5)] };
+
+describe('isReplayPlayable', () => {
+    it('accepts the chart the replay was recorded on, in any note order', () => {
+        const replay = createReplay(inputs, chart);
+        expect(isReplayPlayable(replay, chart)).toBe(true);
+        expect(isReplayPlayable(replay, { ...chart, notes: [...chart.notes].reverse() })).toBe(true);
+    });
+
+    it('rejects a replay once the notes were edited', () => {
+        const replay = createReplay(inputs, chart);
+        expect(isReplayPlayable(replay, { ...chart, notes: [note(1, 0), note(2, 1, 0.25)] })).toBe(false);
+        expect(isReplayPlayable(replay, { ...chart, notes: [note(1, 0)] })).toBe(false);
+    });
+
+    it('rejects a replay recorded on another lane count', () => {
+        expect(isReplayPlayable(createReplay(inputs, chart), { ...chart, laneCount: 6 })).toBe(false);
+    });
+
+    it('rejects missing and older replays', () => {
+        expect(isReplayPlayable(undefined, chart)).toBe(false);
+        const { chartFingerprint, ...legacy } = createReplay(inputs, chart);
+        expect(isReplayPlayable({ ...legacy, version: 1 } as any, chart)).toBe(false);
+    });
+});
@@ -0,0 +1,36 @@
+import { BeatmapChart, ReplayData, ReplayInputEvent } from '../types';
+
+// Bump when the event format or judgement timing semantics change
+// v2: replays carry a fingerprint of the notes they were recorded against
+export const REPLAY_FORMAT_VERSION = 2;
+
+// FNV-1a over everything judgement looks at, so an edited chart no longer matches its old replays
+export const fingerprintNotes = (notes: BeatmapChart['notes']): string => {
+    const key = [...notes]
+        .sort((a, b) => a.time - b.time || a.lane - b.lane)
+        .map(n => `${n.time.toFixed(4)}:${n.lane}:${n.duration.toFixed(4)}:${n.type}`)
+        .join('|');
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${notes.length}-${(hash >>> 0).toString(16)}`;
+};
+
+export const createReplay = (events: ReplayInputEvent[], chart: Pick<BeatmapChart, 'notes' | 'laneCount'>): ReplayData => ({
+    version: REPLAY_FORMAT_VERSION,
+    laneCount: chart.laneCount,
+    chartFingerprint: fingerprintNotes(chart.notes),
+    // Events are pushed in arrival order, but keep them strictly time-ordered for playback
+    events: [...events].sort((a, b) => a.time - b.time)
+});
+
+/** Whether the replay can be played back on this chart as it is now and score the same as when recorded. */
+export const isReplayPlayable = (replay: ReplayData | undefined, chart: Pick<BeatmapChart, 'notes' | 'laneCount'>): replay is ReplayData => {
+    return !!replay
+        && replay.version === REPLAY_FORMAT_VERSION
+        && Array.isArray(replay.events)
+        && replay.laneCount === chart.laneCount
+        && replay.chartFingerprint === fingerprintNotes(chart.notes);
+};
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { parseSimfile, buildSmFile } from './stepMania';
+import { BeatmapChart, DEFAULT_THEME, Note, NoteType, SavedSong } from '../types';
+
+const TICK = 60 / 120 / 48; // Seconds per 192nd note at 120 BPM
+
+const note = (time: number, lane: number, duration = 0, type: NoteType = 'NORMAL'): Note => ({
+    id: `${time}-${lane}`, time, lane: lane as Note['lane'], duration, type, hit: false, visible: true, isHolding: false
+});
+
+const songWith = (notes: Note[]): SavedSong => {
+    const chart: BeatmapChart = { id: 'c', difficultyName: 'HARD', laneCount: 4, notes, difficultyRating: 8, createdAt: 0 };
+    return {
+        id: 's', title: 'T', artist: 'A', createdAt: 0, duration: 60, audioData: new ArrayBuffer(0),
+        charts: [chart], structure: { bpm: 120, sections: [], downbeatOffset: 0 }, theme: DEFAULT_THEME
+    };
+};
+
+const noteData = (sm: string) => sm.split('#NOTES:')[1].split(':').pop()!.replace(';', '').trim();
+
+// Every hold head is closed by a tail with nothing but empty rows on that lane in between
+const expectValidHolds = (data: string) => {
+    const rows = data.split(/\s+/).filter(r => r.length > 0 && r !== ',');
+    for (let lane = 0; lane < 4; lane++) {
+        let open = false;
+        for (const row of rows) {
+            const c = row[lane];
+            if (open) {
+                expect(c === '0' || c === '3').toBe(true);
+                if (c === '3') open = false;
+            } else {
+                expect(c).not.toBe('3');
+                if (c === '2') open = true;
+            }
+        }
+        expect(open).toBe(false);
+    }
+};
+
+const roundTrip = (notes: Note[]) => {
+    const sm = buildSmFile(songWith(notes), 'audio.ogg');
+    expectValidHolds(noteData(sm));
+    return parseSimfile(sm).charts[0].notes;
+};
+
+describe('parseSimfile', () => {
+    it('reports mines and fakes instead of dropping them silently', () => {
+        const sm = [
+            '#TITLE:Mines;', '#MUSIC:a.ogg;', '#OFFSET:0;', '#BPMS:0=120;',
+            '#NOTES:dance-single::Hard:8:0,0,0,0,0:',
+            '1M00', '0M00', '00F0', '0001',
+            ';'
+        ].join('\n');
+        const simfile = parseSimfile(sm);
+        expect(simfile.charts[0].notes).toHaveLength(2);
+        expect(simfile.warnings).toHaveLength(2);
+        expect(simfile.warnings[0]).toContain('2 个地雷');
+        expect(simfile.warnings[1]).toContain('1 个假音符');
+    });
+
+    it('has no warnings for a plain chart', () => {
+        const sm = ['#MUSIC:a.ogg;', '#BPMS:0=120;', '#NOTES:dance-single::Easy:1:0,0,0,0,0:', '1000', '0100', '2000', '3000', ';'].join('\n');
+        expect(parseSimfile(sm).warnings).toEqual([]);
+    });
+});
+
+describe('buildSmFile', () => {
+    it('keeps plain taps and holds as they are', () => {
+        const notes = roundTrip([note(0.5, 0), note(1, 1, 1), note(1.25, 2)]);
+        expect(notes.map(n => [n.time, n.lane, n.duration])).toEqual([[0.5, 0, 0], [1, 1, 1], [1.25, 2, 0]]);
+    });
+
+    it('ends a hold one tick before a tap on its tail', () => {
+        const notes = roundTrip([note(1, 0, 1), note(2, 0)]);
+        expect(notes).toHaveLength(2);
+        expect(notes[0].duration).toBeCloseTo(1 - TICK, 6);
+        expect(notes[1].time).toBeCloseTo(2, 6);
+    });
+
+    it('cuts a hold at a tap inside its body', () => {
+        const notes = roundTrip([note(1, 2, 2), note(2, 2)]);
+        expect(notes).toHaveLength(2);
+        expect(notes[0].duration).toBeCloseTo(1 - TICK, 6);
+        expect(notes[1].duration).toBe(0);
+    });
+
+    it('cuts a hold at the next hold on the same lane', () => {
+        const notes = roundTrip([note(1, 3, 2), note(2, 3, 1)]);
+        expect(notes.map(n => n.duration)).toEqual([expect.closeTo(1 - TICK, 6), expect.closeTo(1, 6)]);
+    });
+
+    it('gives a hold shorter than one tick a tail', () => {
+        const notes = roundTrip([note(1, 1, TICK / 4)]);
+        expect(notes).toHaveLength(1);
+        expect(notes[0].duration).toBeCloseTo(TICK, 6);
+    });
+
+    it('writes a hold cut down to nothing as a tap', () => {
+        const notes = roundTrip([note(1, 1, 1), note(1 + TICK, 1)]);
+        expect(notes.map(n => n.duration)).toEqual([0, 0]);
+    });
+
+    it('merges notes on the same tick and lane, keeping the hold', () => {
+        const notes = roundTrip([note(1, 0), note(1, 0, 0.5)]);
+        expect(notes).toHaveLength(1);
+        expect(notes[0].duration).toBeCloseTo(0.5, 6);
+    });
+});
+
+describe('buildSmFile timing', () => {
+    const header = (sm: string, tag: string) => sm.match(new RegExp(`#${tag}:([^;]*);`))![1];
+
+    it("writes the chart's own timing points", () => {
+        const song = songWith([note(1, 0)]);
+        song.charts[0].timingPoints = [{ time: 0, bpm: 150, meter: 4 }, { time: 8, bpm: 75, meter: 4 }];
+        const warnings: string[] = [];
+        const sm = buildSmFile(song, 'audio.ogg', w => warnings.push(w));
+        expect(header(sm, 'BPMS')).toBe('0.000=150.000,20.000=75.000');
+        expect(warnings).toEqual([]);
+    });
+
+    it('warns about charts whose grid the single tempo map cannot hold', () => {
+        const song = songWith([note(1, 0)]);
+        const other: BeatmapChart = { ...song.charts[0], id: 'd', difficultyName: 'EASY', notes: [note(1.1, 1)], timingPoints: [{ time: 0, bpm: 90, meter: 4 }] };
+        song.charts.push(other);
+        const warnings: string[] = [];
+        const sm = buildSmFile(song, 'audio.ogg', w => warnings.push(w));
+        expect(header(sm, 'BPMS')).toBe('0.000=120.000');
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain('EASY');
+        // Note times survive even though the grid was replaced
+        expect(parseSimfile(sm).charts[1].notes[0].time).toBeCloseTo(1.1, 2);
+    });
+});
@@ -0,0 +1,388 @@
+
+import { BeatmapChart, BeatmapDifficulty, LaneCount, Note, SavedSong, TimingPoint } from '../types';
+import { getTimingPoints, timeToBeat } from './timing';
+import { getChartStructure } from './chartUtils';
+
+/**
+ * StepMania simfile (.sm / .ssc) interop.
+ * Taps, lifts, holds (2…3) and rolls (4…3) become NeonFlow notes. Mines, fakes and
+ * keysounds have no NeonFlow equivalent and are dropped on import; dropped mines and fakes
+ * are listed in `Simfile.warnings`.
+ */
+
+// Only the single-pad styles map onto our lane counts
+const STEPS_TYPE_LANES: Record<string, LaneCount> = { 'dance-single': 4, 'dance-solo': 6 };
+const LANES_STEPS_TYPE: Record<LaneCount, string> = { 4: 'dance-single', 6: 'dance-solo' };
+
+// Row resolutions StepMania editors write; the exporter picks the coarsest one that fits a measure
+const MEASURE_RESOLUTIONS = [4, 8, 12, 16, 24, 32, 48, 64, 96, 192];
+const QUANTIZE_EPSILON = 0.002; // Beats
+
+const SM_TO_DIFFICULTY: Record<string, string> = {
+    beginner: BeatmapDifficulty.Easy,
+    easy: BeatmapDifficulty.Easy,
+    medium: BeatmapDifficulty.Normal,
+    hard: BeatmapDifficulty.Hard,
+    challenge: BeatmapDifficulty.Expert
+};
+
+const DIFFICULTY_TO_SM: Record<string, string> = {
+    [BeatmapDifficulty.Easy]: 'Easy',
+    [BeatmapDifficulty.Normal]: 'Medium',
+    [BeatmapDifficulty.Hard]: 'Hard',
+    [BeatmapDifficulty.Expert]: 'Challenge'
+};
+
+interface BeatValue { beat: number; value: number; }
+
+export interface SimfileChart {
+    difficultyName: string;
+    laneCount: LaneCount;
+    notes: Note[];
+}
+
+export interface Simfile {
+    title: string;
+    artist: string;
+    musicFilename: string;
+    backgroundFilename?: string;
+    bpm: number; // Initial BPM
+    timingPoints: TimingPoint[];
+    charts: SimfileChart[];
+    warnings: string[]; // Content that could not be imported, for the user
+}
+
+interface TimingData {
+    offset: number;
+    bpms: BeatValue[];
+    stops: BeatValue[];
+    delays: BeatValue[];
+    signatures: BeatValue[]; // value = beats per measure
+}
+
+const parseTags = (text: string): { key: string; value: string }[] => {
+    const clean = text.replace(/\/\/[^\r\n]*/g, '');
+    const tags: { key: string; value: string }[] = [];
+    const re = /#([A-Za-z0-9]+):([^;]*);?/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(clean)) !== null) {
+        tags.push({ key: m[1].toUpperCase(), value: m[2].trim() });
+    }
+    return tags;
+};
+
+const parseBeatValues = (value: string): BeatValue[] => {
+    return value.split(',')
+        .map(pair => pair.split('=').map(Number))
+        .filter(([beat, v]) => Number.isFinite(beat) && Number.isFinite(v))
+        .map(([beat, v]) => ({ beat, value: v }))
+        .sort((a, b) => a.beat - b.beat);
+};
+
+const beatToTime = (beat: number, timing: TimingData): number => {
+    const bpms = timing.bpms.length > 0 ? timing.bpms : [{ beat: 0, value: 120 }];
+    let time = -timing.offset;
+    for (let i = 0; i < bpms.length; i++) {
+        const start = i === 0 ? Math.min(0, beat) : bpms[i].beat;
+        const end = i + 1 < bpms.length ? bpms[i + 1].beat : Infinity;
+        if (beat <= start) break;
+        time += ((Math.min(beat, end) - start) * 60) / bpms[i].value;
+    }
+    // A stop pauses after notes on its beat are judged, a delay pauses before them
+    for (const s of timing.stops) if (s.beat < beat) time += s.value;
+    for (const d of timing.delays) if (d.beat <= beat) time += d.value;
+    return time;
+};
+
+const activeValue = (events: BeatValue[], beat: number, fallback: number) => {
+    let value = fallback;
+    for (const e of events) if (e.beat <= beat) value = e.value;
+    return value;
+};
+
+/**
+ * Song-level grid as NeonFlow timing points. Stops and delays also start a point,
+ * because the beat grid resumes shifted by the pause.
+ */
+const buildTimingPoints = (timing: TimingData): TimingPoint[] => {
+    const bpms = timing.bpms.length > 0 ? timing.bpms : [{ beat: 0, value: 120 }];
+    const beats = Array.from(new Set([...bpms, ...timing.stops, ...timing.delays, ...timing.signatures].map(e => Math.max(0, e.beat))))
+        .sort((a, b) => a - b);
+    return beats.map(beat => ({
+        // The grid resumes once a stop on this beat has elapsed (delays are already counted by beatToTime)
+        time: beatToTime(beat, timing) + timing.stops.filter(s => s.beat === beat).reduce((sum, s) => sum + s.value, 0),
+        bpm: activeValue(bpms, beat, bpms[0].value),
+        meter: Math.max(1, Math.round(activeValue(timing.signatures, beat, 4)))
+    }));
+};
+
+interface ParsedNoteData {
+    notes: Note[];
+    mines: number;
+    fakes: number;
+}
+
+const parseNoteData = (data: string, laneCount: LaneCount, timing: TimingData): ParsedNoteData => {
+    const notes: Note[] = [];
+    let mines = 0;
+    let fakes = 0;
+    const openHolds: ({ beat: number } | null)[] = new Array(laneCount).fill(null);
+
+    data.split(',').forEach((measure, measureIndex) => {
+        const rows = measure.split(/\s+/).filter(r => r.length > 0);
+        rows.forEach((row, rowIndex) => {
+            const beat = measureIndex * 4 + (rowIndex * 4) / rows.length;
+            for (let lane = 0; lane < laneCount; lane++) {
+                const c = row[lane];
+                if (c === '1' || c === 'L') {
+                    const time = beatToTime(beat, timing);
+                    notes.push({ time, lane, id: `note-${time.toFixed(3)}-${lane}`, hit: false, visible: true, duration: 0, isHolding: false, type: 'NORMAL' });
+                } else if (c === '2' || c === '4') {
+                    openHolds[lane] = { beat };
+                } else if (c === '3' && openHolds[lane]) {
+                    const time = beatToTime(openHolds[lane]!.beat, timing);
+                    const duration = Math.max(0, beatToTime(beat, timing) - time);
+                    notes.push({ time, lane, id: `note-${time.toFixed(3)}-${lane}`, hit: false, visible: true, duration, isHolding: false, type: 'NORMAL' });
+                    openHolds[lane] = null;
+                } else if (c === 'M') {
+                    mines++;
+                } else if (c === 'F') {
+                    fakes++;
+                }
+            }
+        });
+    });
+
+    return { notes: notes.sort((a, b) => a.time - b.time), mines, fakes };
+};
+
+const getDifficultyName = (smDifficulty: string, description: string): string => {
+    const mapped = SM_TO_DIFFICULTY[smDifficulty.toLowerCase()];
+    if (mapped) return mapped;
+    return description || smDifficulty.toUpperCase() || 'EDIT';
+};
+
+/**
+ * Parses a .sm or .ssc simfile. Charts whose steps type has no NeonFlow lane layout are skipped;
+ * an error is thrown only if nothing playable remains.
+ */
+export const parseSimfile = (text: string): Simfile => {
+    const tags = parseTags(text);
+    const header: Record<string, string> = {};
+    const songTiming: TimingData = { offset: 0, bpms: [], stops: [], delays: [], signatures: [] };
+    const charts: SimfileChart[] = [];
+    const skippedTypes = new Set<string>();
+    const warnings: string[] = [];
+
+    const applyTiming = (timing: TimingData, key: string, value: string) => {
+        if (key === 'OFFSET') timing.offset = Number(value) || 0;
+        else if (key === 'BPMS') timing.bpms = parseBeatValues(value);
+        else if (key === 'STOPS' || key === 'FREEZES') timing.stops = parseBeatValues(value);
+        else if (key === 'DELAYS') timing.delays = parseBeatValues(value);
+        else if (key === 'TIMESIGNATURES') timing.signatures = parseBeatValues(value); // beat=num=den, denominator ignored
+    };
+
+    const addChart = (stepsType: string, smDifficulty: string, description: string, data: string, timing: TimingData) => {
+        const laneCount = STEPS_TYPE_LANES[stepsType.toLowerCase()];
+        if (!laneCount) {
+            skippedTypes.add(stepsType);
+            return;
+        }
+        const difficultyName = getDifficultyName(smDifficulty, description);
+        const { notes, mines, fakes } = parseNoteData(data, laneCount, timing);
+        if (mines > 0) warnings.push(`${difficultyName}: ${mines} 个地雷 (mine) 没有对应的音符类型，已忽略`);
+        if (fakes > 0) warnings.push(`${difficultyName}: ${fakes} 个假音符 (fake) 已忽略`);
+        charts.push({ difficultyName, laneCount, notes });
+    };
+
+    // .ssc: everything after #NOTEDATA belongs to that chart, including split timing
+    let sscChart: { fields: Record<string, string>; timing: TimingData } | null = null;
+    const flushSscChart = () => {
+        if (sscChart && sscChart.fields['NOTES'] !== undefined) {
+            const f = sscChart.fields;
+            addChart(f['STEPSTYPE'] || '', f['DIFFICULTY'] || '', f['DESCRIPTION'] || f['CHARTNAME'] || '', f['NOTES'], sscChart.timing);
+        }
+        sscChart = null;
+    };
+
+    for (const { key, value } of tags) {
+        if (key === 'NOTEDATA') {
+            flushSscChart();
+            sscChart = { fields: {}, timing: { ...songTiming } };
+            continue;
+        }
+        if (sscChart) {
+            sscChart.fields[key] = value;
+            applyTiming(sscChart.timing, key, value);
+            continue;
+        }
+        if (key === 'NOTES') {
+            // .sm: type:description:difficulty:meter:radar:data
+            const parts = value.split(':').map(p => p.trim());
+            if (parts.length >= 6) addChart(parts[0], parts[2], parts[1], parts[5], songTiming);
+            continue;
+        }
+        header[key] = value;
+        applyTiming(songTiming, key, value);
+    }
+    flushSscChart();
+
+    if (charts.length === 0) {
+        const types = Array.from(skippedTypes).join(', ');
+        throw new Error(types ? `不支持的谱面类型：${types}（仅支持 dance-single 4K 与 dance-solo 6K）` : "无效的 StepMania 文件 (未找到谱面)");
+    }
+
+    return {
+        title: header['TITLE'] || header['TITLETRANSLIT'] || 'Unknown Title',
+        artist: header['ARTIST'] || header['ARTISTTRANSLIT'] || 'Unknown Artist',
+        musicFilename: header['MUSIC'] || '',
+        backgroundFilename: header['BACKGROUND'] || header['BANNER'] || undefined,
+        bpm: songTiming.bpms[0]?.value || 120,
+        timingPoints: buildTimingPoints(songTiming),
+        charts,
+        warnings
+    };
+};
+
+const pickResolution = (beatsInMeasure: number[]): number => {
+    for (const res of MEASURE_RESOLUTIONS) {
+        const fits = beatsInMeasure.every(b => {
+            const row = (b * res) / 4;
+            return Math.abs(row - Math.round(row)) * (4 / res) < QUANTIZE_EPSILON;
+        });
+        if (fits) return res;
+    }
+    return MEASURE_RESOLUTIONS[MEASURE_RESOLUTIONS.length - 1];
+};
+
+const TICKS_PER_BEAT = 48; // 192nd notes
+
+interface LaneEvent {
+    start: number; // Tick
+    end: number; // Tick of the hold tail; equal to `start` for a tap
+}
+
+/**
+ * Makes one lane's events representable in .sm, where a row holds one character per lane and
+ * nothing may sit between a hold head and its tail:
+ * - a hold spans at least one tick, so its tail never lands on its head;
+ * - a note inside a hold or on its tail cuts the hold to end one tick before that note,
+ *   and a hold cut down to nothing is written as a tap;
+ * - notes on the same tick merge, the longest one is kept.
+ */
+const resolveLaneEvents = (events: LaneEvent[]): LaneEvent[] => {
+    const sorted = [...events].sort((a, b) => a.start - b.start || b.end - a.end);
+    const resolved: LaneEvent[] = [];
+    for (const event of sorted) {
+        const prev = resolved[resolved.length - 1];
+        if (prev && event.start === prev.start) continue;
+        if (prev && event.start <= prev.end) prev.end = event.start - 1;
+        resolved.push({ ...event });
+    }
+    return resolved;
+};
+
+const buildNoteData = (chart: BeatmapChart, toBeat: (time: number) => number): string => {
+    const lanes = chart.laneCount;
+    const toTick = (time: number) => Math.max(0, Math.round(toBeat(time) * TICKS_PER_BEAT));
+
+    const laneEvents: LaneEvent[][] = Array.from({ length: lanes }, () => []);
+    for (const n of chart.notes) {
+        if (!laneEvents[n.lane]) continue;
+        const start = toTick(n.time);
+        const isHold = n.duration > 0 && n.type !== 'CATCH';
+        laneEvents[n.lane].push({ start, end: isHold ? Math.max(start + 1, toTick(n.time + n.duration)) : start });
+    }
+
+    // tick -> row characters
+    const events = new Map<number, string[]>();
+    const put = (tick: number, lane: number, c: string) => {
+        if (!events.has(tick)) events.set(tick, new Array(lanes).fill('0'));
+        events.get(tick)![lane] = c;
+    };
+    laneEvents.forEach((list, lane) => {
+        for (const { start, end } of resolveLaneEvents(list)) {
+            if (end > start) {
+                put(start, lane, '2');
+                put(end, lane, '3');
+            } else {
+                put(start, lane, '1');
+            }
+        }
+    });
+
+    const lastTick = Math.max(0, ...Array.from(events.keys()));
+    const measureCount = Math.floor(lastTick / 192) + 1;
+    const measures: string[] = [];
+    for (let m = 0; m < measureCount; m++) {
+        const ticks = Array.from(events.keys()).filter(t => t >= m * 192 && t < (m + 1) * 192);
+        const res = pickResolution(ticks.map(t => (t - m * 192) / TICKS_PER_BEAT));
+        const rows: string[] = new Array(res).fill('0'.repeat(lanes));
+        for (const t of ticks) {
+            const rowIndex = Math.round(((t - m * 192) / 192) * res);
+            rows[Math.min(res - 1, rowIndex)] = events.get(t)!.join('');
+        }
+        measures.push(rows.join('\n'));
+    }
+    return measures.join('\n,\n');
+};
+
+const isSameGrid = (a: TimingPoint[], b: TimingPoint[]) =>
+    a.length === b.length && a.every((p, i) => Math.abs(p.time - b[i].time) < 0.0005 && Math.abs(p.bpm - b[i].bpm) < 0.0005);
+
+/**
+ * Serializes every chart of a song into a single .sm file. Beat 0 is moved back by whole measures
+ * until it is at or before 0s, so no note ends up on a negative beat. Meters are not representable in .sm.
+ *
+ * .sm has one tempo map per file, taken from the first chart (its own timing points, or the song's).
+ * A chart with a different grid keeps its note times but is quantized against that map instead;
+ * `onWarning` names each such chart.
+ */
+export const buildSmFile = (song: SavedSong, musicFilename: string, onWarning?: (message: string) => void): string => {
+    const grids = song.charts.map(chart => getTimingPoints(getChartStructure(song, chart)));
+    const points = grids[0] || getTimingPoints(song.structure);
+    song.charts.forEach((chart, i) => {
+        if (!isSameGrid(grids[i], points)) {
+            onWarning?.(`${chart.difficultyName}: .sm 只能保存一套 BPM，该难度的独立变速已改用 ${song.charts[0].difficultyName} 的节拍网格 (音符时间不变)`);
+        }
+    });
+    const first = points[0];
+    const leadInBeats = Math.max(0, Math.ceil((first.time * first.bpm) / 60 / 4) * 4);
+    const toBeat = (time: number) => timeToBeat(points, time) + leadInBeats;
+    const offset = -(first.time - (leadInBeats * 60) / first.bpm);
+    const bpms = points.map((p, i) => `${(i === 0 ? 0 : toBeat(p.time)).toFixed(3)}=${p.bpm.toFixed(3)}`).join(',');
+    const escape = (v: string) => v.replace(/[;:#\r\n]/g, ' ').trim();
+
+    const header = [
+        `#TITLE:${escape(song.title)};`,
+        `#SUBTITLE:;`,
+        `#ARTIST:${escape(song.artist)};`,
+        `#CREDIT:NeonFlow;`,
+        `#MUSIC:${musicFilename};`,
+        `#OFFSET:${offset.toFixed(3)};`,
+        `#SAMPLESTART:${(song.duration * 0.3).toFixed(3)};`,
+        `#SAMPLELENGTH:15.000;`,
+        `#SELECTABLE:YES;`,
+        `#BPMS:${bpms};`,
+        `#STOPS:;`,
+        ''
+    ];
+
+    const charts = song.charts.map(chart => {
+        const smDifficulty = DIFFICULTY_TO_SM[chart.difficultyName] || 'Edit';
+        return [
+            `//---------------${LANES_STEPS_TYPE[chart.laneCount]} - ${escape(chart.difficultyName)}----------------`,
+            `#NOTES:`,
+            `     ${LANES_STEPS_TYPE[chart.laneCount]}:`,
+            `     ${escape(chart.difficultyName)}:`,
+            `     ${smDifficulty}:`,
+            `     ${Math.max(1, Math.round(chart.difficultyRating))}:`,
+            `     0,0,0,0,0:`,
+            `${buildNoteData(chart, toBeat)}`,
+            `;`,
+            ''
+        ].join('\n');
+    });
+
+    return [...header, ...charts].join('\n');
+};
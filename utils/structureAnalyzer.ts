@@ -0,0 +1,334 @@
+
+import { MotionDescriptors, Onset, OnsetBand, SectionInfo, TimingPoint } from '../types';
+import { downsample, fftInPlace } from './audioAnalyzer';
+import { getGridLines } from './timing';
+
+/**
+ * 本地曲式分析 (Worker Thread Compatible)
+ * 以小节为单位提取色度 (chroma) 与能量/音色特征，构建自相似矩阵，
+ * 沿对角线用棋盘核计算新颖度曲线，峰值即段落边界；再按能量、密度与位置为段落贴标签。
+ * 无 API Key 时作为 Gemini 结构分析的替代，有 Key 时用于校验 AI 结果。
+ */
+
+// --- Segmentation Configuration ---
+const CHROMA_FRAME = 4096;          // ~186 ms at 22.05 kHz, enough resolution above ~110 Hz
+const CHROMA_MIN_HZ = 110;
+const CHROMA_MAX_HZ = 4000;
+const MIN_SEGMENT_SECONDS = 1.5;    // Bars shorter than this are grouped so features stay stable
+const NOVELTY_KERNEL = 4;           // Segments per side of the checkerboard kernel
+const MIN_SECTION_SEGMENTS = 4;     // A new section needs at least this many segments
+const NOVELTY_THRESHOLD = 0.5;      // Peaks must exceed mean + k · std of the novelty curve
+const TIMBRE_WEIGHT = 0.5;          // Share of the energy/timbre similarity in the combined matrix
+
+// How far an AI section's intensity may stray from what the audio shows before it is pulled back
+const INTENSITY_TOLERANCE = 0.4;
+
+interface SegmentFeatures {
+    start: number;
+    end: number;
+    chroma: Float32Array;
+    energy: number;     // Mean RMS
+    density: number;    // Onsets per second
+    bands: Record<OnsetBand, number>; // Share of onsets per band
+}
+
+const BAND_NAMES: OnsetBand[] = ['kick', 'snare', 'hat', 'vocal'];
+
+// Per-frame chroma + RMS from a plain STFT
+const computeChromaFrames = (monoData: Float32Array, sampleRate: number) => {
+    const { data, rate } = downsample(monoData, sampleRate);
+    const frameCount = Math.floor(data.length / CHROMA_FRAME);
+    const chroma: Float32Array[] = [];
+    const rms = new Float32Array(frameCount);
+
+    const binPitch = new Int8Array(CHROMA_FRAME / 2).fill(-1);
+    for (let k = 1; k < CHROMA_FRAME / 2; k++) {
+        const hz = (k * rate) / CHROMA_FRAME;
+        if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+        binPitch[k] = ((Math.round(12 * Math.log2(hz / 440)) + 9) % 12 + 12) % 12; // 0 = C
+    }
+
+    const re = new Float32Array(CHROMA_FRAME);
+    const im = new Float32Array(CHROMA_FRAME);
+    for (let f = 0; f < frameCount; f++) {
+        let energy = 0;
+        for (let i = 0; i < CHROMA_FRAME; i++) {
+            const sample = data[f * CHROMA_FRAME + i];
+            energy += sample * sample;
+            re[i] = sample * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (CHROMA_FRAME - 1)));
+            im[i] = 0;
+        }
+        rms[f] = Math.sqrt(energy / CHROMA_FRAME);
+        fftInPlace(re, im);
+        const bins = new Float32Array(12);
+        for (let k = 1; k < CHROMA_FRAME / 2; k++) {
+            if (binPitch[k] >= 0) bins[binPitch[k]] += Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+        }
+        chroma.push(bins);
+    }
+    return { chroma, rms, frameDuration: CHROMA_FRAME / rate };
+};
+
+// Bar lines of the song, grouped until each segment is long enough to describe
+const getSegmentBounds = (timingPoints: TimingPoint[], duration: number): number[] => {
+    const bars = getGridLines(timingPoints, 0, duration, 1).filter(l => l.kind === 'measure').map(l => l.time);
+    const bounds = [0];
+    for (const t of bars) {
+        if (t - bounds[bounds.length - 1] >= MIN_SEGMENT_SECONDS && duration - t >= MIN_SEGMENT_SECONDS) bounds.push(t);
+    }
+    bounds.push(duration);
+    return bounds;
+};
+
+const extractSegments = (
+    monoData: Float32Array,
+    sampleRate: number,
+    onsets: Onset[],
+    bounds: number[]
+): SegmentFeatures[] => {
+    const { chroma, rms, frameDuration } = computeChromaFrames(monoData, sampleRate);
+    const segments: SegmentFeatures[] = [];
+
+    for (let s = 0; s + 1 < bounds.length; s++) {
+        const start = bounds[s], end = bounds[s + 1];
+        const from = Math.floor(start / frameDuration);
+        const to = Math.max(from + 1, Math.min(chroma.length, Math.ceil(end / frameDuration)));
+        const mean = new Float32Array(12);
+        let energy = 0, frames = 0;
+        for (let f = from; f < to && f < chroma.length; f++) {
+            for (let p = 0; p < 12; p++) mean[p] += chroma[f][p];
+            energy += rms[f];
+            frames++;
+        }
+        const norm = Math.hypot(...Array.from(mean)) || 1;
+        for (let p = 0; p < 12; p++) mean[p] /= norm;
+
+        const bands = { kick: 0, snare: 0, hat: 0, vocal: 0 } as Record<OnsetBand, number>;
+        const inside = onsets.filter(o => o.time >= start && o.time < end);
+        inside.forEach(o => { bands[o.band] += 1 / inside.length; });
+
+        segments.push({
+            start, end,
+            chroma: mean,
+            energy: frames ? energy / frames : 0,
+            density: inside.length / Math.max(0.001, end - start),
+            bands
+        });
+    }
+    return segments;
+};
+
+// Combined self-similarity: harmony (chroma cosine) and texture (energy, density, band mix)
+const buildSimilarityMatrix = (segments: SegmentFeatures[]): Float32Array[] => {
+    const maxEnergy = Math.max(...segments.map(s => s.energy)) || 1;
+    const maxDensity = Math.max(...segments.map(s => s.density)) || 1;
+    const timbre = segments.map(s => [
+        s.energy / maxEnergy,
+        s.density / maxDensity,
+        ...BAND_NAMES.map(b => s.bands[b])
+    ]);
+
+    return segments.map((a, i) => {
+        const row = new Float32Array(segments.length);
+        segments.forEach((b, j) => {
+            let chromaSim = 0;
+            for (let p = 0; p < 12; p++) chromaSim += a.chroma[p] * b.chroma[p];
+            const dist = Math.hypot(...timbre[i].map((v, k) => v - timbre[j][k]));
+            row[j] = (1 - TIMBRE_WEIGHT) * chromaSim + TIMBRE_WEIGHT * Math.exp(-2 * dist);
+        });
+        return row;
+    });
+};
+
+// Foote novelty: a Gaussian-tapered checkerboard kernel slid along the diagonal
+const computeNovelty = (ssm: Float32Array[]): Float32Array => {
+    const n = ssm.length;
+    const novelty = new Float32Array(n);
+    for (let i = 1; i < n; i++) {
+        let sum = 0, weight = 0;
+        for (let a = -NOVELTY_KERNEL; a < NOVELTY_KERNEL; a++) {
+            for (let b = -NOVELTY_KERNEL; b < NOVELTY_KERNEL; b++) {
+                const x = i + a, y = i + b;
+                if (x < 0 || y < 0 || x >= n || y >= n) continue;
+                const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (NOVELTY_KERNEL * NOVELTY_KERNEL));
+                const sign = (a < 0) === (b < 0) ? 1 : -1;
+                sum += sign * taper * ssm[x][y];
+                weight += taper;
+            }
+        }
+        novelty[i] = weight > 0 ? Math.max(0, sum / weight) : 0;
+    }
+    return novelty;
+};
+
+const pickBoundaries = (novelty: Float32Array): number[] => {
+    const n = novelty.length;
+    const values = Array.from(novelty);
+    const mean = values.reduce((a, b) => a + b, 0) / Math.max(1, n);
+    const std = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, n));
+    const threshold = mean + NOVELTY_THRESHOLD * std;
+
+    // Strongest peaks first, so a weaker neighbour never blocks a real boundary
+    const peaks = values
+        .map((v, i) => ({ v, i }))
+        .filter(({ v, i }) => i > 0 && v > threshold && v >= (novelty[i - 1] || 0) && v >= (novelty[i + 1] || 0))
+        .sort((a, b) => b.v - a.v);
+
+    const chosen: number[] = [];
+    for (const { i } of peaks) {
+        if (i < MIN_SECTION_SEGMENTS || n - i < MIN_SECTION_SEGMENTS) continue;
+        if (chosen.some(c => Math.abs(c - i) < MIN_SECTION_SEGMENTS)) continue;
+        chosen.push(i);
+    }
+    return chosen.sort((a, b) => a - b);
+};
+
+const describeSection = (type: SectionInfo['type'], intensity: number, density: number, bands: Record<OnsetBand, number>): Pick<SectionInfo, 'style' | 'descriptors'> => {
+    const drums = bands.kick + bands.snare + bands.hat;
+    let focus: MotionDescriptors['focus'] = 'melody';
+    if (bands.vocal > 0.4) focus = 'vocal';
+    else if (bands.kick > 0.45) focus = 'bass';
+    else if (drums > 0.6) focus = 'drum';
+
+    let style: SectionInfo['style'];
+    if (intensity < 0.35) style = 'simple';
+    else if (density < 2 && focus !== 'drum') style = 'hold'; // Few attacks over sound: sustained parts
+    else if (density > 5) style = 'stream';
+    else style = 'jump';
+
+    const flow: MotionDescriptors['flow'] =
+        type === 'drop' ? 'random'
+        : style === 'stream' ? 'linear'
+        : style === 'hold' ? 'slide'
+        : type === 'chorus' ? 'circular'
+        : 'zigzag';
+
+    return {
+        style,
+        descriptors: {
+            flow,
+            hand_bias: style === 'stream' ? 'alternating' : 'balanced',
+            focus,
+            special_pattern: type === 'build' && density > 6 ? 'fill' : 'none'
+        }
+    };
+};
+
+interface RawSection {
+    start: number;
+    end: number;
+    energy: number;
+    density: number;
+    bands: Record<OnsetBand, number>;
+}
+
+const labelSections = (raw: RawSection[]): SectionInfo[] => {
+    const maxEnergy = Math.max(...raw.map(s => s.energy)) || 1;
+    const maxDensity = Math.max(...raw.map(s => s.density)) || 1;
+    const level = raw.map(s => 0.7 * (s.energy / maxEnergy) + 0.3 * (s.density / maxDensity));
+
+    const types: SectionInfo['type'][] = raw.map((s, i) => {
+        const l = level[i];
+        const prev = i > 0 ? level[i - 1] : 0;
+        if (i === 0 && raw.length > 1 && l < 0.6) return 'intro';
+        if (i === raw.length - 1 && raw.length > 1 && l < 0.6) return 'outro';
+        if (l >= 0.85) return l - prev >= 0.25 && s.bands.kick >= 0.25 ? 'drop' : 'chorus';
+        return 'verse';
+    });
+    // Whatever rises into a chorus or drop is the build-up
+    for (let i = 1; i < types.length; i++) {
+        if ((types[i] === 'drop' || types[i] === 'chorus') && types[i - 1] === 'verse' && level[i - 1] < level[i]) {
+            const prevPrev = i > 1 ? level[i - 2] : 0;
+            if (level[i - 1] > prevPrev) types[i - 1] = 'build';
+        }
+    }
+
+    return raw.map((s, i) => {
+        const intensity = Math.round(Math.max(0.2, Math.min(1, level[i])) * 100) / 100;
+        return {
+            startTime: s.start,
+            endTime: s.end,
+            type: types[i],
+            intensity,
+            ...describeSection(types[i], intensity, s.density, s.bands)
+        };
+    });
+};
+
+/** Segments a song into labelled sections from audio alone. Boundaries fall on bar lines. */
+export const analyzeStructureDSP = (
+    monoData: Float32Array,
+    sampleRate: number,
+    onsets: Onset[],
+    timingPoints: TimingPoint[],
+    duration: number
+): SectionInfo[] => {
+    const bounds = getSegmentBounds(timingPoints, duration);
+    const segments = extractSegments(monoData, sampleRate, onsets, bounds);
+    if (segments.length === 0) return [];
+
+    const boundaries = segments.length >= MIN_SECTION_SEGMENTS * 2
+        ? pickBoundaries(computeNovelty(buildSimilarityMatrix(segments)))
+        : [];
+
+    const raw: RawSection[] = [];
+    [0, ...boundaries, segments.length].forEach((from, k, cuts) => {
+        const to = cuts[k + 1];
+        if (to === undefined) return;
+        const group = segments.slice(from, to);
+        const length = group.reduce((a, s) => a + (s.end - s.start), 0) || 1;
+        const bands = { kick: 0, snare: 0, hat: 0, vocal: 0 } as Record<OnsetBand, number>;
+        group.forEach(s => BAND_NAMES.forEach(b => { bands[b] += (s.bands[b] * (s.end - s.start)) / length; }));
+        raw.push({
+            start: group[0].start,
+            end: group[group.length - 1].end,
+            energy: group.reduce((a, s) => a + s.energy * (s.end - s.start), 0) / length,
+            density: group.reduce((a, s) => a + s.density * (s.end - s.start), 0) / length,
+            bands
+        });
+    });
+
+    return labelSections(raw);
+};
+
+/**
+ * Sanity check for AI sections against the local analysis: the timeline is clamped to the real
+ * duration with gaps filled from the DSP sections, and intensities that contradict the audio are
+ * pulled halfway back. AI output that does not describe this song at all is replaced.
+ */
+export const reconcileSections = (aiSections: SectionInfo[], dspSections: SectionInfo[], duration: number): SectionInfo[] => {
+    if (dspSections.length === 0) return aiSections;
+
+    const clamped = aiSections
+        .map(s => ({ ...s, startTime: Math.max(0, s.startTime), endTime: Math.min(duration, s.endTime) }))
+        .filter(s => s.endTime - s.startTime > 0.5)
+        .sort((a, b) => a.startTime - b.startTime);
+
+    // Half the song missing, or one blanket section where the audio clearly has several
+    const covered = clamped.reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+    if (covered < duration * 0.5 || (clamped.length <= 1 && dspSections.length > 1)) return dspSections;
+
+    const dspAt = (time: number) => dspSections.find(s => time >= s.startTime && time < s.endTime) || dspSections[dspSections.length - 1];
+    const result: SectionInfo[] = [];
+    let cursor = 0;
+    const fillGap = (until: number) => {
+        for (const d of dspSections) {
+            const start = Math.max(cursor, d.startTime), end = Math.min(until, d.endTime);
+            if (end - start > 0.01) result.push({ ...d, startTime: start, endTime: end });
+        }
+    };
+
+    for (const s of clamped) {
+        if (s.startTime > cursor + 0.01) fillGap(s.startTime);
+        const startTime = Math.max(cursor, s.startTime);
+        if (s.endTime <= startTime) continue;
+        const local = dspAt((startTime + s.endTime) / 2);
+        const intensity = Math.abs(s.intensity - local.intensity) > INTENSITY_TOLERANCE
+            ? (s.intensity + local.intensity) / 2
+            : s.intensity;
+        result.push({ ...s, startTime, intensity });
+        cursor = s.endTime;
+    }
+    if (cursor < duration - 0.01) fillGap(duration);
+    return result;
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTimingPoints, MIN_BPM, MAX_BPM } from './timing';
+
+describe('normalizeTimingPoints', () => {
+    it('clamps a zero or negative BPM instead of dropping the point', () => {
+        const points = normalizeTimingPoints([
+            { time: 0, bpm: 120, meter: 4 },
+            { time: 10, bpm: 0, meter: 4 },
+            { time: 20, bpm: -50, meter: 3 }
+        ]);
+        expect(points.map(p => p.bpm)).toEqual([120, MIN_BPM, MIN_BPM]);
+        expect(points[2].meter).toBe(3);
+    });
+
+    it('clamps tempos above the maximum', () => {
+        expect(normalizeTimingPoints([{ time: 0, bpm: 5000, meter: 4 }])[0].bpm).toBe(MAX_BPM);
+    });
+
+    it('drops only points without a usable time or BPM', () => {
+        const points = normalizeTimingPoints([
+            { time: 0, bpm: 120, meter: 4 },
+            { time: NaN, bpm: 140, meter: 4 },
+            { time: 5, bpm: NaN, meter: 4 }
+        ]);
+        expect(points).toEqual([{ time: 0, bpm: 120, meter: 4 }]);
+    });
+});
@@ -0,0 +1,178 @@
+
+import { SongStructure, TimingPoint } from '../types';
+
+/**
+ * Beat grid helpers for songs with tempo changes.
+ * Every timing point restarts the grid on a bar line; the first point's grid also
+ * extends backwards so notes before the first downbeat still snap.
+ */
+
+const DEFAULT_BPM = 120;
+const DEFAULT_METER = 4;
+const MAX_GRID_LINES = 4000; // Guards the canvas against absurd zoom / tempo combinations
+
+export const MIN_BPM = 20;
+export const MAX_BPM = 1000;
+export const MAX_METER = 16;
+const TAP_RESET_MS = 2000; // A pause this long starts a new tap sequence
+const MAX_TAPS = 16;       // Only the most recent taps count, so the estimate follows tempo drift
+
+export type GridLineKind = 'measure' | 'beat' | 'sub';
+
+export interface GridLine {
+    time: number;
+    kind: GridLineKind;
+}
+
+/** Timing points of a song, sorted. Songs without any fall back to a constant grid at `bpm`. */
+export const getTimingPoints = (structure?: Partial<SongStructure>): TimingPoint[] => {
+    const points = (structure?.timingPoints || []).filter(p => p.bpm > 0);
+    if (points.length > 0) return [...points].sort((a, b) => a.time - b.time);
+    return [{ time: structure?.downbeatOffset || 0, bpm: structure?.bpm || DEFAULT_BPM, meter: DEFAULT_METER }];
+};
+
+/**
+ * Cleans up edited timing points: sorted, BPM and meter clamped to playable values (a BPM of 0
+ * becomes MIN_BPM rather than deleting the point), points sharing a time collapsed to the last one.
+ * Only points with a non-numeric time or BPM are dropped. Always returns at least one point.
+ */
+export const normalizeTimingPoints = (points: TimingPoint[]): TimingPoint[] => {
+    const byTime = new Map<number, TimingPoint>();
+    for (const p of points) {
+        if (!Number.isFinite(p.time) || !Number.isFinite(p.bpm)) continue;
+        const time = Math.round(p.time * 1000) / 1000;
+        byTime.set(time, {
+            time,
+            bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, p.bpm)),
+            meter: Math.min(MAX_METER, Math.max(1, Math.round(p.meter || DEFAULT_METER)))
+        });
+    }
+    const sorted = [...byTime.values()].sort((a, b) => a.time - b.time);
+    return sorted.length > 0 ? sorted : [{ time: 0, bpm: DEFAULT_BPM, meter: DEFAULT_METER }];
+};
+
+/** Tempo of a tap sequence (timestamps in ms, oldest first); null until there are two taps in a row. */
+export const estimateTapBpm = (taps: number[]): number | null => {
+    let start = taps.length - 1;
+    while (start > 0 && taps[start] - taps[start - 1] < TAP_RESET_MS) start--;
+    const recent = taps.slice(Math.max(start, taps.length - MAX_TAPS));
+    if (recent.length < 2) return null;
+    const interval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+    return interval > 0 ? Math.round((60000 / interval) * 10) / 10 : null;
+};
+
+const getPointIndexAt = (points: TimingPoint[], time: number): number => {
+    let index = 0;
+    while (index + 1 < points.length && points[index + 1].time <= time) index++;
+    return index;
+};
+
+export const getTimingPointAt = (points: TimingPoint[], time: number): TimingPoint => {
+    return points[getPointIndexAt(points, time)];
+};
+
+export const getBeatDuration = (points: TimingPoint[], time: number): number => {
+    return 60 / getTimingPointAt(points, time).bpm;
+};
+
+/** Beats elapsed since the first timing point (negative before it). */
+export const timeToBeat = (points: TimingPoint[], time: number): number => {
+    let beat = 0;
+    for (let i = 0; i < points.length; i++) {
+        const end = i + 1 < points.length ? points[i + 1].time : Infinity;
+        if (i > 0 && time < points[i].time) break;
+        beat += ((Math.min(time, end) - points[i].time) * points[i].bpm) / 60;
+    }
+    return beat;
+};
+
+export const beatToTime = (points: TimingPoint[], beat: number): number => {
+    let remaining = beat;
+    for (let i = 0; i < points.length; i++) {
+        const beatDur = 60 / points[i].bpm;
+        const span = i + 1 < points.length ? (points[i + 1].time - points[i].time) / beatDur : Infinity;
+        if (remaining < span || i === points.length - 1 || (i === 0 && remaining < 0)) {
+            return points[i].time + remaining * beatDur;
+        }
+        remaining -= span;
+    }
+    return points[0].time + beat * (60 / points[0].bpm);
+};
+
+/** Rounds `time` to the nearest 1/`subdivisions` beat of the tempo section it falls in. */
+export const snapTime = (points: TimingPoint[], time: number, subdivisions: number): number => {
+    const index = getPointIndexAt(points, time);
+    const point = points[index];
+    const step = 60 / point.bpm / subdivisions;
+    const snapped = point.time + Math.round((time - point.time) / step) * step;
+    // The next section's first line is always on the grid, so never snap past it
+    const next = points[index + 1];
+    return next && snapped > next.time ? next.time : snapped;
+};
+
+/** Position inside the current beat, 0 on the beat and approaching 1 just before the next one. */
+export const getBeatPhase = (points: TimingPoint[], time: number): number => {
+    const point = getTimingPointAt(points, time);
+    const beats = ((time - point.time) * point.bpm) / 60;
+    return beats - Math.floor(beats);
+};
+
+/** Grid lines between `start` and `end`, `subdivisions` lines per beat. */
+export const getGridLines = (points: TimingPoint[], start: number, end: number, subdivisions: number): GridLine[] => {
+    const lines: GridLine[] = [];
+    const perMeasure = (point: TimingPoint) => subdivisions * (point.meter || DEFAULT_METER);
+
+    for (let i = 0; i < points.length && lines.length < MAX_GRID_LINES; i++) {
+        const point = points[i];
+        const sectionEnd = i + 1 < points.length ? points[i + 1].time : Infinity;
+        if (sectionEnd <= start) continue;
+        if (point.time > end) break;
+
+        const step = 60 / point.bpm / subdivisions;
+        const from = i === 0 ? start : Math.max(start, point.time);
+        let k = Math.ceil((from - point.time) / step - 1e-6);
+        for (let t = point.time + k * step; t <= end && t < sectionEnd - 1e-6; t = point.time + (++k) * step) {
+            const kind: GridLineKind = k % perMeasure(point) === 0 ? 'measure' : k % subdivisions === 0 ? 'beat' : 'sub';
+            lines.push({ time: t, kind });
+            if (lines.length >= MAX_GRID_LINES) break;
+        }
+    }
+    return lines;
+};
+
+/** The tempo that is active for the longest stretch of the song. */
+export const getDominantBpm = (points: TimingPoint[], endTime: number): number => {
+    let best = points[0];
+    let bestSpan = -1;
+    points.forEach((p, i) => {
+        const span = (i + 1 < points.length ? points[i + 1].time : endTime) - p.time;
+        if (span > bestSpan) { bestSpan = span; best = p; }
+    });
+    return Math.round((best?.bpm || DEFAULT_BPM) * 100) / 100;
+};
+
+/**
+ * Re-expresses a tracked grid at a tempo decided elsewhere (e.g. the AI fixing an octave error).
+ * Tempos that are not a power-of-two multiple of the grid's drop the grid, since its phase no longer applies.
+ */
+export const fitBeatGridToBpm = (
+    grid: { bpm: number; timingPoints: TimingPoint[] },
+    bpm: number
+): Pick<SongStructure, 'timingPoints' | 'downbeatOffset'> => {
+    if (!(bpm > 0) || grid.timingPoints.length === 0) return {};
+    const octave = Math.round(Math.log2(bpm / grid.bpm));
+    if (Math.abs(bpm / (grid.bpm * Math.pow(2, octave)) - 1) > 0.03) return {};
+    const scale = Math.pow(2, octave);
+    return {
+        timingPoints: grid.timingPoints.map(p => ({ ...p, bpm: p.bpm * scale })),
+        downbeatOffset: grid.timingPoints[0].time
+    };
+};
+
+/** "174" for constant tempo, "87-174" when the song changes tempo. */
+export const formatBpm = (structure?: Partial<SongStructure>): string => {
+    const bpms = getTimingPoints(structure).map(p => Math.round(p.bpm));
+    const min = Math.min(...bpms), max = Math.max(...bpms);
+    if (min === max) return String(Math.round(structure?.bpm || min));
+    return `${min}-${max}`;
+};
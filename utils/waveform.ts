@@ -0,0 +1,154 @@
+
+import { Onset } from '../types';
+import { downsample, fftInPlace } from './audioAnalyzer';
+
+/**
+ * Editor timeline visuals: min/max waveform peaks and a log-frequency spectrogram,
+ * precomputed once per song (in the waveform worker) so drawing a frame only reads arrays.
+ */
+
+// Bump when the layout below changes; cached data of another version is recomputed
+export const WAVEFORM_VERSION = 1;
+
+// Peak levels in buckets per second, finest first. Each level halves the previous one,
+// and the editor's 100-600 px/s zoom range always has a level with at most one bucket per pixel.
+const PEAK_LEVEL_RATES = [800, 400, 200, 100, 50];
+
+const SPECTRO_FPS = 50;           // Spectrogram columns per second
+const SPECTRO_FRAME_SIZE = 1024;  // ~46 ms window at the 22.05 kHz analysis rate
+const SPECTRO_BINS = 64;          // Log-spaced frequency rows
+const SPECTRO_MIN_HZ = 30;
+const SPECTRO_RANGE_DB = 80;      // Everything this far below the loudest bin is black
+
+export interface PeakLevel {
+    bucketsPerSecond: number;
+    peaks: Int8Array; // Interleaved min, max per bucket, scaled to ±127
+}
+
+export interface Spectrogram {
+    framesPerSecond: number;
+    bins: number;      // Lowest frequency first
+    data: Uint8Array;  // frames × bins, 0 = silence, 255 = loudest
+}
+
+export interface WaveformData {
+    version: number;
+    duration: number;
+    levels: PeakLevel[];
+    spectrogram: Spectrogram;
+    onsets: Onset[];
+}
+
+const toInt8 = (sample: number) => Math.max(-127, Math.min(127, Math.round(sample * 127)));
+
+/** Min/max peaks at every level of PEAK_LEVEL_RATES; coarser levels are merged from the finer ones. */
+export const computePeakLevels = (data: Float32Array, sampleRate: number): PeakLevel[] => {
+    const finestRate = PEAK_LEVEL_RATES[0];
+    const bucketCount = Math.max(1, Math.ceil((data.length * finestRate) / sampleRate));
+    const finest = new Int8Array(bucketCount * 2);
+
+    let bucket = 0;
+    let min = 0, max = 0;
+    for (let i = 0; i < data.length; i++) {
+        const b = Math.floor((i * finestRate) / sampleRate);
+        if (b !== bucket) {
+            finest[bucket * 2] = toInt8(min);
+            finest[bucket * 2 + 1] = toInt8(max);
+            bucket = b;
+            min = 0; max = 0;
+        }
+        const s = data[i];
+        if (s < min) min = s;
+        if (s > max) max = s;
+    }
+    finest[bucket * 2] = toInt8(min);
+    finest[bucket * 2 + 1] = toInt8(max);
+
+    const levels: PeakLevel[] = [{ bucketsPerSecond: finestRate, peaks: finest }];
+    for (let l = 1; l < PEAK_LEVEL_RATES.length; l++) {
+        const prev = levels[l - 1].peaks;
+        const prevCount = prev.length / 2;
+        const peaks = new Int8Array(Math.ceil(prevCount / 2) * 2);
+        for (let b = 0; b < prevCount; b += 2) {
+            const last = Math.min(b + 1, prevCount - 1);
+            peaks[b] = Math.min(prev[b * 2], prev[last * 2]);
+            peaks[b + 1] = Math.max(prev[b * 2 + 1], prev[last * 2 + 1]);
+        }
+        levels.push({ bucketsPerSecond: PEAK_LEVEL_RATES[l], peaks });
+    }
+    return levels;
+};
+
+/** Magnitude spectrogram on log-spaced bands, normalized to the loudest bin of the song. */
+export const computeSpectrogram = (channelData: Float32Array, sampleRate: number): Spectrogram => {
+    const { data, rate } = downsample(channelData, sampleRate);
+    const hop = rate / SPECTRO_FPS;
+    const frames = Math.max(1, Math.ceil(data.length / hop));
+    const binHz = rate / SPECTRO_FRAME_SIZE;
+    const maxHz = rate / 2;
+
+    // FFT bin range of each output row
+    const ranges = Array.from({ length: SPECTRO_BINS }, (_, b) => {
+        const lo = SPECTRO_MIN_HZ * Math.pow(maxHz / SPECTRO_MIN_HZ, b / SPECTRO_BINS);
+        const hi = SPECTRO_MIN_HZ * Math.pow(maxHz / SPECTRO_MIN_HZ, (b + 1) / SPECTRO_BINS);
+        const start = Math.max(1, Math.floor(lo / binHz));
+        return { start, end: Math.min(SPECTRO_FRAME_SIZE / 2, Math.max(start + 1, Math.ceil(hi / binHz))) };
+    });
+
+    const window = new Float32Array(SPECTRO_FRAME_SIZE);
+    for (let i = 0; i < SPECTRO_FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (SPECTRO_FRAME_SIZE - 1));
+
+    const db = new Float32Array(frames * SPECTRO_BINS);
+    const re = new Float32Array(SPECTRO_FRAME_SIZE);
+    const im = new Float32Array(SPECTRO_FRAME_SIZE);
+    let loudest = -Infinity;
+
+    for (let f = 0; f < frames; f++) {
+        // Centred on the frame's time, like the onset detector
+        const offset = Math.round(f * hop) - SPECTRO_FRAME_SIZE / 2;
+        for (let i = 0; i < SPECTRO_FRAME_SIZE; i++) {
+            const idx = offset + i;
+            re[i] = idx >= 0 && idx < data.length ? data[idx] * window[i] : 0;
+            im[i] = 0;
+        }
+        fftInPlace(re, im);
+        for (let b = 0; b < SPECTRO_BINS; b++) {
+            const { start, end } = ranges[b];
+            let sum = 0;
+            for (let k = start; k < end; k++) sum += re[k] * re[k] + im[k] * im[k];
+            const value = 10 * Math.log10(sum / (end - start) + 1e-12);
+            db[f * SPECTRO_BINS + b] = value;
+            if (value > loudest) loudest = value;
+        }
+    }
+
+    const out = new Uint8Array(frames * SPECTRO_BINS);
+    const floor = loudest - SPECTRO_RANGE_DB;
+    for (let i = 0; i < db.length; i++) {
+        out[i] = Math.max(0, Math.min(255, Math.round(((db[i] - floor) / SPECTRO_RANGE_DB) * 255)));
+    }
+    return { framesPerSecond: SPECTRO_FPS, bins: SPECTRO_BINS, data: out };
+};
+
+/** Coarsest level that still has at least one bucket per pixel at this zoom. */
+export const pickPeakLevel = (levels: PeakLevel[], pixelsPerSecond: number): PeakLevel => {
+    let best = levels[0];
+    for (const level of levels) {
+        if (level.bucketsPerSecond >= pixelsPerSecond) best = level;
+    }
+    return best;
+};
+
+/** Min and max (±1) of a level between two times; null outside the audio. */
+export const getPeakRange = (level: PeakLevel, start: number, end: number): [number, number] | null => {
+    const count = level.peaks.length / 2;
+    const from = Math.max(0, Math.floor(start * level.bucketsPerSecond));
+    const to = Math.min(count - 1, Math.max(from, Math.ceil(end * level.bucketsPerSecond) - 1));
+    if (from >= count || end < 0) return null;
+    let min = 0, max = 0;
+    for (let b = from; b <= to; b++) {
+        if (level.peaks[b * 2] < min) min = level.peaks[b * 2];
+        if (level.peaks[b * 2 + 1] > max) max = level.peaks[b * 2 + 1];
+    }
+    return [min / 127, max / 127];
+};
@@ -1,62 +1,103 @@
+import { mixToMono, computeOnsets, trackBeats, BeatGrid } from '../utils/audioAnalyzer';
+import { analyzeStructureDSP } from '../utils/structureAnalyzer';
+import { generateBeatmapForRating, BeatmapFeatures, TunedBeatmap } from '../utils/beatmapGenerator';
+import { Onset, SectionInfo, SongStructure, LaneCount, PlayStyle } from '../types';
 
-import { computeOnsets } from '../utils/audioAnalyzer';
-import { generateBeatmap, BeatmapFeatures } from '../utils/beatmapGenerator';
-import { Note, Onset, SongStructure, BeatmapDifficulty, LaneCount, PlayStyle } from '../types';
-
-// Worker Input Types
-type WorkerMessage = {
-    type: 'PROCESS_SONG';
-    payload: {
-        lowData: Float32Array;
-        fullData: Float32Array;
-        sampleRate: number;
-        structure: SongStructure;
-        difficulty: number; // Changed from BeatmapDifficulty enum to number
-        laneCount: LaneCount;
-        playStyle: PlayStyle;
-        features: BeatmapFeatures;
-    };
+/**
+ * The whole DSP + generation pipeline, off the main thread.
+ * The main thread only decodes (AudioBuffer can't be transferred) and runs the Gemini calls
+ * between ANALYZE and GENERATE. DETECT_ONSETS is the onset stage of ANALYZE on its own, for
+ * regenerating a chart of a song whose structure is already known. Each job posts PROGRESS
+ * messages and then exactly one result or ERROR; cancelling a job means terminating the worker.
+ */
+
+export type PipelineStage = 'mix' | 'onsets' | 'beats' | 'structure' | 'generate';
+
+export interface AnalyzePayload {
+    channels: Float32Array[]; // Transferred copies of the decoded channels
+    sampleRate: number;
+    duration: number;
+}
+
+export interface AnalysisResult {
+    onsets: Onset[];
+    beatGrid: BeatGrid;
+    sections: SectionInfo[]; // Local structure analysis
+}
+
+export interface ChartTarget {
+    level: number;
+    seed: number;
+}
+
+// Onsets are computed once by ANALYZE (or DETECT_ONSETS) and shared by every chart of the job
+export interface GeneratePayload {
+    onsets: Onset[];
+    structure: SongStructure;
+    targets: ChartTarget[];
+    duration: number;
+    laneCount: LaneCount;
+    playStyle: PlayStyle;
+    features: BeatmapFeatures;
+}
+
+export interface GeneratedChart extends TunedBeatmap {
+    seed: number;
+}
+
+export type WorkerRequest =
+    | { type: 'ANALYZE'; payload: AnalyzePayload }
+    | { type: 'DETECT_ONSETS'; payload: AnalyzePayload }
+    | { type: 'GENERATE'; payload: GeneratePayload };
+
+export type WorkerResponse =
+    | { type: 'PROGRESS'; stage: PipelineStage; progress: number } // progress: 0-1 within the stage
+    | { type: 'ANALYZED'; result: AnalysisResult }
+    | { type: 'ONSETS_DETECTED'; onsets: Onset[] }
+    | { type: 'GENERATED'; charts: GeneratedChart[] }
+    | { type: 'ERROR'; error: string };
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+const progress = (stage: PipelineStage, value: number) => post({ type: 'PROGRESS', stage, progress: value });
+
+const detectOnsets = ({ channels, sampleRate }: AnalyzePayload) => {
+    progress('mix', 0);
+    const monoData = mixToMono(channels);
+    const onsets = computeOnsets(monoData, sampleRate, f => progress('onsets', f));
+    return { monoData, onsets };
+};
+
+const analyze = (payload: AnalyzePayload): AnalysisResult => {
+    const { sampleRate, duration } = payload;
+    const { monoData, onsets } = detectOnsets(payload);
+
+    progress('beats', 0);
+    const beatGrid = trackBeats(onsets, duration);
+
+    progress('structure', 0);
+    const sections = analyzeStructureDSP(monoData, sampleRate, onsets, beatGrid.timingPoints, duration);
+
+    return { onsets, beatGrid, sections };
+};
+
+const generate = ({ onsets, structure, targets, duration, laneCount, playStyle, features }: GeneratePayload): GeneratedChart[] => {
+    return targets.map(({ level, seed }, i) => {
+        progress('generate', i / targets.length);
+        const tuned = generateBeatmapForRating(onsets, structure, level, duration, laneCount, playStyle, { ...features, seed });
+        return { ...tuned, seed };
+    });
 };
 
-self.onmessage = (e: MessageEvent<WorkerMessage>) => {
-    if (e.data.type === 'PROCESS_SONG') {
-        const { 
-            lowData, 
-            fullData, 
-            sampleRate, 
-            structure, 
-            difficulty, 
-            laneCount, 
-            playStyle, 
-            features 
-        } = e.data.payload;
-
-        try {
-            // 1. Run DSP Analysis (Heavy Loop)
-            const onsets = computeOnsets(lowData, fullData, sampleRate);
-
-            // 2. Run Beatmap Generation (Logic Loop)
-            const notes = generateBeatmap(
-                onsets,
-                structure,
-                difficulty,
-                laneCount,
-                playStyle,
-                features
-            );
-
-            // 3. Send results back
-            self.postMessage({
-                success: true,
-                onsets,
-                notes
-            });
-
-        } catch (error: any) {
-            self.postMessage({
-                success: false,
-                error: error.message
-            });
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+    try {
+        if (e.data.type === 'ANALYZE') {
+            post({ type: 'ANALYZED', result: analyze(e.data.payload) });
+        } else if (e.data.type === 'DETECT_ONSETS') {
+            post({ type: 'ONSETS_DETECTED', onsets: detectOnsets(e.data.payload).onsets });
+        } else if (e.data.type === 'GENERATE') {
+            post({ type: 'GENERATED', charts: generate(e.data.payload) });
         }
+    } catch (error: any) {
+        post({ type: 'ERROR', error: error.message });
     }
 };
@@ -0,0 +1,37 @@
+
+import { mixToMono, computeOnsets } from '../utils/audioAnalyzer';
+import { computePeakLevels, computeSpectrogram, WaveformData, WAVEFORM_VERSION } from '../utils/waveform';
+
+/**
+ * Builds the editor's waveform, spectrogram and onset markers off the main thread.
+ * One job per worker: it posts exactly one WAVEFORM or ERROR and is then terminated.
+ */
+
+export interface WaveformPayload {
+    channels: Float32Array[]; // Transferred copies of the decoded channels
+    sampleRate: number;
+    duration: number;
+}
+
+export type WaveformResponse =
+    | { type: 'WAVEFORM'; data: WaveformData }
+    | { type: 'ERROR'; error: string };
+
+const post = (message: WaveformResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (e: MessageEvent<WaveformPayload>) => {
+    try {
+        const { channels, sampleRate, duration } = e.data;
+        const monoData = mixToMono(channels);
+        const data: WaveformData = {
+            version: WAVEFORM_VERSION,
+            duration,
+            levels: computePeakLevels(monoData, sampleRate),
+            spectrogram: computeSpectrogram(monoData, sampleRate),
+            onsets: computeOnsets(monoData, sampleRate)
+        };
+        post({ type: 'WAVEFORM', data }, [...data.levels.map(l => l.peaks.buffer), data.spectrogram.data.buffer]);
+    } catch (error: any) {
+        post({ type: 'ERROR', error: error.message });
+    }
+};